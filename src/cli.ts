@@ -0,0 +1,588 @@
+#!/usr/bin/env node
+/*
+ * prompt-replay — read and act on `.promptreplay` data without VS Code.
+ * Shares the on-disk logic in ./core with the extension.
+ */
+import * as path from 'path';
+import { promises as fsp } from 'node:fs';
+import { createInterface } from 'readline';
+
+import { layout } from './core/layout';
+import { exists } from './core/fsutil';
+import { readEventsFile, readEventsChecked, updateEventsFile, repairEventsFile, findEvent, entryLabel } from './core/events';
+import { readSnapshot } from './core/blobs';
+import { isBinary, describeBinaryChange } from './core/binary';
+import { describeRedactions } from './core/redact';
+import { eventMarkdown, writeEventMarkdown, truncateSha } from './core/exportMarkdown';
+import { eventPatch, eventsMbox, patchAuthor, writeEventPatch, writeEventsMbox } from './core/patch';
+import { commitEvent, DEFAULT_NOTES_REF } from './core/gitCommit';
+import { fileHistory, attributeText } from './core/provenance';
+import { computeInsights } from './core/insights';
+import { SearchIndex } from './core/searchIndex';
+import { RestoreRecord, describeFileState, listRestores, previewRestore, redoRestore, restoreEvent, undoDiff, undoRestore } from './core/restore';
+import { trashEvent, listTrash, restoreFromTrash } from './core/trash';
+import { decryptStore, exportDecrypted, keysFromEnv, readEncryptionInfo, unlockStore } from './core/encryption';
+import { EncryptionError } from './core/vault';
+import { DEFAULT_RETENTION, GcReport, RetentionPolicy, collectGarbage, gcReportLines } from './core/gc';
+import { readSessionsFile, findSession, eventsOfSession, summarizeSession, formatDuration, sessionMarkdown, writeSessionMarkdown } from './core/sessions';
+import { buildUnifiedDiff, countDiff } from './diff';
+import { PromptEvent } from './types';
+
+const USAGE = `Usage: prompt-replay <command> [options]
+
+Commands:
+  list                       List events (newest first)
+      --tag <tag>            Only events with this tag
+      --session <id|name>    Only events of this session
+      --limit <n>            Show at most n events
+  search <query>             Events matching a query (newest first); terms are ANDed,
+                             prefix one with - to negate:
+                               tag:<tag> file:<glob> op:added|modified|deleted|renamed
+                               session:<id> id:<prefix> after:<date> before:<date>
+                               word "exact phrase" /regex/ (prompt, response, files,
+                               tags and diff content)
+      --limit <n>            Show at most n events
+  show <id>                  Show one event (id or unique prefix)
+      --diff                 Include per-file diffs
+  blame <file>               Which prompt introduced each line of a file
+  insights                   Lines added/removed per day, tag and file, and how many
+                             AI-added lines survive
+      --head                 Measure survival against HEAD instead of the working tree
+  export <id>                Write .promptreplay/exports/event-<id>.md
+      --format md|patch      Markdown report (default) or git apply/git am patch
+      --stdout               Print the export instead of writing it
+  series <id>...             Write events as an mbox series for git am (oldest first)
+      --session <id|name>    Use every event of this session
+      --stdout               Print the mbox instead of writing it
+  restore <id>               Restore the event's files in the working tree
+      --side before|after    Snapshot to restore (default: after)
+      --file <path>          Only this file
+      --dry-run              Only show how each working copy compares with the event
+      --diff                 Show what restoring would discard from drifted files
+      --skip-drifted         Leave files edited since the event alone
+  restores [list]            Past restores, newest first (undone ones are marked)
+  restores diff <backup>     What undoing (or redoing) a restore would change
+  restores undo <backup>     Put the files back as they were before a restore
+  restores redo <backup>     Apply an undone restore again
+  commit <id>                Commit the event's files (after snapshot) on top of HEAD,
+                             with Prompt-Replay trailers and the event as a git note
+      --notes-ref <ref>      Notes ref (default: refs/notes/prompt-replay)
+  delete <id>                Move an event to .promptreplay/trash
+  sessions                   List named sessions
+  session <id|name>          Summary of one session (files, +/−, tags, duration)
+      --export               Write .promptreplay/exports/session-<id>.md
+      --stdout               Print the Markdown report
+  trash [list]               List deleted events
+  trash restore <id>         Put a deleted event back into the log
+      --max-events <n>       Keep at most n events in the log, older ones move to
+                             .promptreplay/archive (default: 2000)
+  repair                     Drop unreadable or invalid lines from events.jsonl (kept in
+                             .promptreplay/corrupt), recovering records glued to them,
+                             and store old records in the current schema
+  gc                         Remove expired trash, restore backups and archived events,
+                             snapshots no event uses, and enforce a size quota
+      --dry-run              Only report what would be freed
+      --trash-days <n>       Trash and set-aside lines older than n days (default: ${DEFAULT_RETENTION.trashDays})
+      --backup-days <n>      Restore backups older than n days (default: ${DEFAULT_RETENTION.backupDays})
+      --archive-days <n>     Archived events older than n days (default: keep)
+      --export-days <n>      Exports older than n days (default: keep)
+      --max-size-mb <n>      Size quota for .promptreplay (default: none)
+  decrypt                    Decrypt an encrypted store
+      --out <dir>            Write a decrypted copy to <dir>; the store stays encrypted
+      --in-place             Turn encryption off
+
+Global options:
+  --root <dir>               Workspace root (default: nearest parent with .promptreplay)
+  --json                     Machine-readable output (list, search, show, blame, insights, sessions, session, trash list,
+                             restores list, repair, gc)
+  --yes                      Don't ask for confirmation (restore, restores undo/redo, commit, delete, gc,
+                             decrypt)
+
+Environment:
+  PROMPT_REPLAY_KEY          Key of an encrypted store (from “Prompt Replay: Copy
+                             Encryption Key” in VS Code)
+  PROMPT_REPLAY_PASSPHRASE   Passphrase of an encrypted store
+`;
+
+class UsageError extends Error {}
+
+type Args = { positional: string[]; flags: Record<string, string | true> };
+
+const VALUE_FLAGS = new Set([
+  'root', 'tag', 'session', 'limit', 'side', 'file', 'max-events', 'format', 'notes-ref', 'out',
+  'trash-days', 'backup-days', 'archive-days', 'export-days', 'max-size-mb'
+]);
+
+function parseArgs(argv: string[]): Args {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (!a.startsWith('--')) { positional.push(a); continue; }
+    const [name, inline] = a.slice(2).split(/=(.*)/s, 2);
+    if (VALUE_FLAGS.has(name)) {
+      const v = inline ?? argv[++i];
+      if (v === undefined) throw new UsageError(`--${name} needs a value`);
+      flags[name] = v;
+    } else {
+      flags[name] = true;
+    }
+  }
+  return { positional, flags };
+}
+
+async function findRoot(start: string): Promise<string | undefined> {
+  let dir = path.resolve(start);
+  for (;;) {
+    if (await exists(layout(dir).dir)) return dir;
+    const parent = path.dirname(dir);
+    if (parent === dir) return;
+    dir = parent;
+  }
+}
+
+async function confirm(question: string, args: Args): Promise<boolean> {
+  if (args.flags.yes) return true;
+  if (!process.stdin.isTTY) throw new Error('refusing to modify files without --yes (stdin is not a terminal)');
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>(resolve => rl.question(`${question} [y/N] `, resolve));
+  rl.close();
+  return /^y(es)?$/i.test(answer.trim());
+}
+
+function oneLine(s: string, max: number): string {
+  const flat = (s || '').replace(/\s+/g, ' ').trim();
+  return flat.length > max ? flat.slice(0, max - 1) + '…' : flat;
+}
+
+function eventOrFail(events: PromptEvent[], id: string | undefined): PromptEvent {
+  if (!id) throw new UsageError('missing event id');
+  const ev = findEvent(events, id);
+  if (!ev) throw new Error(`event not found (or ambiguous prefix): ${id}`);
+  return ev;
+}
+
+/* ---------------- Commands ---------------- */
+
+async function cmdList(root: string, args: Args) {
+  const { events: all, bad, future } = await readEventsChecked(root);
+  if (bad.length) console.error(`warning: skipped ${bad.length} unreadable line(s) in events.jsonl (run \`prompt-replay repair\`)`);
+  if (future.length) console.error(`warning: ${future.length} event(s) were logged by a newer Prompt Replay and are not shown`);
+  let events = all.sort((a, b) => b.timestamp - a.timestamp);
+  const tag = args.flags.tag;
+  if (typeof tag === 'string') events = events.filter(e => (e.tags ?? []).includes(tag));
+  if (typeof args.flags.session === 'string') {
+    const session = findSession(await readSessionsFile(root), args.flags.session);
+    if (!session) throw new Error(`session not found (or ambiguous prefix): ${args.flags.session}`);
+    events = events.filter(e => e.sessionId === session.id);
+  }
+  const limit = Number(args.flags.limit);
+  if (limit > 0) events = events.slice(0, limit);
+
+  printEvents(events, args);
+}
+
+function printEvents(events: PromptEvent[], args: Args) {
+  if (args.flags.json) { console.log(JSON.stringify(events, null, 2)); return; }
+  if (events.length === 0) { console.log('No events.'); return; }
+  for (const ev of events) {
+    const when = new Date(ev.timestamp).toISOString().replace('T', ' ').slice(0, 16);
+    const tags = ev.tags?.length ? ` [${ev.tags.join(', ')}]` : '';
+    console.log(`${ev.id.slice(0, 8)}  ${when}  ${String(ev.filesChanged.length).padStart(3)} file(s)  ${oneLine(ev.prompt, 70)}${tags}`);
+  }
+}
+
+async function cmdSearch(root: string, args: Args) {
+  const query = args.positional.slice(1).join(' ').trim();
+  if (!query) throw new UsageError('search needs a query');
+  let events = (await new SearchIndex(root).search(query)).sort((a, b) => b.timestamp - a.timestamp);
+  const limit = Number(args.flags.limit);
+  if (limit > 0) events = events.slice(0, limit);
+  printEvents(events, args);
+}
+
+async function cmdShow(root: string, args: Args) {
+  const ev = eventOrFail(await readEventsFile(root), args.positional[1]);
+  if (args.flags.json) { console.log(JSON.stringify(ev, null, 2)); return; }
+
+  console.log(`Event   ${ev.id}`);
+  console.log(`Date    ${new Date(ev.timestamp).toLocaleString()}`);
+  console.log(`Before  ${ev.beforeRef ? truncateSha(ev.beforeRef) : '—'}`);
+  if (ev.tags?.length) console.log(`Tags    ${ev.tags.join(', ')}`);
+  console.log(`Prompt  ${ev.prompt}`);
+  if (ev.responsePreview) console.log(`Reply   ${ev.responsePreview}`);
+  if (ev.redactions?.length) console.log(`Masked  ${describeRedactions(ev.redactions)}`);
+  console.log('');
+
+  for (const d of ev.diffUris || []) {
+    const before = await readSnapshot(root, d, 'before');
+    const after = await readSnapshot(root, d, 'after');
+    const op = d.op;
+    const from = d.oldPath ? `  from ${d.oldPath}` : '';
+    if (d.binary || isBinary(before) || isBinary(after)) {
+      const note = describeBinaryChange(
+        op === 'added' ? undefined : { size: before?.length, hash: d.leftHash },
+        op === 'deleted' ? undefined : { size: after?.length, hash: d.rightHash }
+      );
+      console.log(`  ${op.padEnd(8)} ${entryLabel(root, d)}${from}  (${note})`);
+      continue;
+    }
+    const diff = buildUnifiedDiff(Buffer.from(before ?? []).toString('utf8'), Buffer.from(after ?? []).toString('utf8'));
+    const c = countDiff(diff);
+    console.log(`  ${op.padEnd(8)} ${entryLabel(root, d)}${from}  (+${c.added} / -${c.removed})`);
+    if (args.flags.diff) {
+      for (const l of diff) console.log(`    ${l}`);
+      console.log('');
+    }
+  }
+}
+
+async function cmdSessions(root: string, args: Args) {
+  const sessions = await readSessionsFile(root);
+  const events = await readEventsFile(root);
+  if (args.flags.json) { console.log(JSON.stringify(sessions, null, 2)); return; }
+  if (sessions.length === 0) { console.log('No sessions.'); return; }
+  for (const s of sessions) {
+    const when = new Date(s.startedAt).toISOString().replace('T', ' ').slice(0, 16);
+    const n = eventsOfSession(events, s.id).length;
+    console.log(`${s.id.slice(0, 8)}  ${when}  ${String(n).padStart(3)} prompt(s)  ${oneLine(s.name, 60)}${s.endedAt ? '' : '  (active)'}`);
+  }
+}
+
+async function cmdSession(root: string, args: Args) {
+  const key = args.positional[1];
+  if (!key) throw new UsageError('missing session id or name');
+  const session = findSession(await readSessionsFile(root), key);
+  if (!session) throw new Error(`session not found (or ambiguous prefix): ${key}`);
+  const events = await readEventsFile(root);
+
+  if (args.flags.stdout) { process.stdout.write(await sessionMarkdown(root, session, events) + '\n'); return; }
+  if (args.flags.export) { console.log(await writeSessionMarkdown(root, session, events)); return; }
+
+  const s = await summarizeSession(root, session, events);
+  if (args.flags.json) { console.log(JSON.stringify({ session, summary: s }, null, 2)); return; }
+
+  console.log(`Session   ${session.name} (${session.id})`);
+  if (session.goal) console.log(`Goal      ${session.goal}`);
+  if (session.description) console.log(`About     ${session.description}`);
+  console.log(`Started   ${new Date(session.startedAt).toLocaleString()}`);
+  console.log(`Ended     ${session.endedAt ? new Date(session.endedAt).toLocaleString() : 'still active'}`);
+  console.log(`Duration  ${formatDuration(s.durationMs)}`);
+  console.log(`Prompts   ${s.events}`);
+  console.log(`Lines     +${s.added} / -${s.removed}`);
+  if (s.tags.length) console.log(`Tags      ${s.tags.join(', ')}`);
+  console.log(`Files     ${s.files.length}`);
+  for (const f of s.files) console.log(`  ${f}`);
+}
+
+async function cmdBlame(root: string, args: Args) {
+  const file = args.positional[1];
+  if (!file) throw new UsageError('missing file');
+  const target = path.resolve(process.cwd(), file);
+  const text = await fsp.readFile(target, 'utf8');
+  const events = await readEventsFile(root);
+  const owners = attributeText(await fileHistory(events, target, root), text);
+  const byId = new Map(events.map(e => [e.id, e]));
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+
+  if (args.flags.json) {
+    console.log(JSON.stringify(lines.map((l, i) => ({ line: i + 1, event: owners[i] ?? null })), null, 2));
+    return;
+  }
+  const width = String(lines.length).length;
+  lines.forEach((l, i) => {
+    const ev = owners[i] ? byId.get(owners[i]!) : undefined;
+    const who = ev ? `${ev.id.slice(0, 8)} ${oneLine(ev.prompt, 24).padEnd(24)}` : ' '.repeat(33);
+    console.log(`${who} ${String(i + 1).padStart(width)}) ${l}`);
+  });
+}
+
+async function cmdInsights(root: string, args: Args) {
+  const d = await computeInsights(root, await readEventsFile(root), args.flags.head ? 'head' : 'working');
+  if (args.flags.json) { console.log(JSON.stringify(d, null, 2)); return; }
+
+  const t = d.totals;
+  const pct = (x: number) => `${Math.round(x * 100)}%`;
+  console.log(`Events    ${t.events}`);
+  console.log(`Lines     +${t.added} / -${t.removed}  (${t.events ? Math.round(t.added / t.events) : 0} added per event)`);
+  console.log(`Files     ${t.files}`);
+  console.log(`Survival  ${pct(t.survivalRate)} of AI-added lines still in ${d.source === 'head' ? 'HEAD' : 'the working tree'} (${t.surviving}/${t.added})`);
+
+  console.log('\nPer day');
+  for (const x of d.perDay.slice(-14)) console.log(`  ${x.day}  ${String(x.events).padStart(3)} event(s)  +${x.added} / -${x.removed}`);
+  if (d.perTag.length) {
+    console.log('\nPer tag');
+    for (const x of d.perTag) console.log(`  ${x.tag.padEnd(20)} ${String(x.events).padStart(3)} event(s)  +${x.added} / -${x.removed}  survival ${pct(x.survivalRate)}`);
+  }
+  console.log('\nMost-touched files');
+  for (const x of d.perFile.slice(0, 10)) console.log(`  ${String(x.events).padStart(3)}x  ${x.file}  +${x.added} / -${x.removed}`);
+}
+
+async function cmdExport(root: string, args: Args) {
+  const ev = eventOrFail(await readEventsFile(root), args.positional[1]);
+  const format = args.flags.format ?? 'md';
+  if (format === 'patch') {
+    if (args.flags.stdout) { process.stdout.write(await eventPatch(root, ev, await patchAuthor(root))); return; }
+    console.log(await writeEventPatch(root, ev));
+    return;
+  }
+  if (format !== 'md') throw new UsageError('--format must be "md" or "patch"');
+  if (args.flags.stdout) { process.stdout.write(await eventMarkdown(root, ev) + '\n'); return; }
+  console.log(await writeEventMarkdown(root, ev));
+}
+
+async function cmdSeries(root: string, args: Args) {
+  const all = await readEventsFile(root);
+  let events: PromptEvent[];
+  let name: string;
+  if (typeof args.flags.session === 'string') {
+    const session = findSession(await readSessionsFile(root), args.flags.session);
+    if (!session) throw new Error(`session not found (or ambiguous prefix): ${args.flags.session}`);
+    events = eventsOfSession(all, session.id);
+    name = `session-${session.id}`;
+  } else {
+    const ids = args.positional.slice(1);
+    if (ids.length === 0) throw new UsageError('give event ids or --session');
+    events = ids.map(id => eventOrFail(all, id));
+    name = `series-${Date.now()}`;
+  }
+  if (events.length === 0) throw new Error('no events to export');
+  if (args.flags.stdout) { process.stdout.write(await eventsMbox(root, events)); return; }
+  console.log(await writeEventsMbox(root, events, name));
+}
+
+async function cmdRestore(root: string, args: Args) {
+  const ev = eventOrFail(await readEventsFile(root), args.positional[1]);
+  const side = args.flags.side ?? 'after';
+  if (side !== 'before' && side !== 'after') throw new UsageError('--side must be "before" or "after"');
+  const file = typeof args.flags.file === 'string' ? args.flags.file.replace(/\\/g, '/') : undefined;
+  const entry = file ? (ev.diffUris || []).find(d => entryLabel(root, d) === file || d.path === file) : undefined;
+  if (file && !entry) throw new Error(`file not part of this event: ${file}`);
+
+  const preview = await previewRestore(root, ev, side, entry ? [entry] : undefined);
+  for (const f of preview.files) {
+    console.log(`${f.state === 'drifted' ? '!' : ' '} ${entryLabel(root, f.entry)}  ${describeFileState(f, side)}`);
+    if (args.flags.diff && f.lost) for (const l of f.lost) console.log(`    ${l}`);
+  }
+  const picked = preview.files.filter(f => !f.upToDate && !f.missing && !(args.flags['skip-drifted'] && f.state === 'drifted'));
+  if (args.flags['dry-run']) return;
+  if (!picked.length) { console.log('nothing to restore'); return; }
+
+  const drifted = picked.filter(f => f.state === 'drifted').length;
+  const warning = drifted ? ` ${drifted} of them changed since the event and will lose those edits.` : '';
+  if (!(await confirm(`Restore ${picked.length} file(s) to the ${side.toUpperCase()} snapshot of ${ev.id.slice(0, 8)}?${warning}`, args))) return;
+
+  const r = await restoreEvent(root, ev, side, picked.map(f => f.entry));
+  console.log(`restore (${side}) — ${r.restored} restored, ${r.deleted} deleted, ${r.skipped} skipped.`);
+  console.log(`backup: ${path.join(layout(root).restoreBackups, r.backupId)}`);
+}
+
+async function cmdCommit(root: string, args: Args) {
+  const events = await readEventsFile(root);
+  const ev = eventOrFail(events, args.positional[1]);
+  if (ev.commits) throw new Error(`event already committed as ${ev.afterRef}`);
+  if (!(await confirm(`Commit ${ev.filesChanged.length} file(s) of ${ev.id.slice(0, 8)} on top of HEAD?`, args))) return;
+
+  const notesRef = typeof args.flags['notes-ref'] === 'string' ? args.flags['notes-ref'] : DEFAULT_NOTES_REF;
+  const commits = await commitEvent(root, ev, notesRef);
+  await updateEventsFile(root, evs => {
+    const e = evs.find(x => x.id === ev.id);
+    if (e) { e.commits = ev.commits; e.afterRef = ev.afterRef; }
+  });
+  for (const [repo, sha] of Object.entries(commits)) console.log(`${sha}  ${repo}`);
+}
+
+async function cmdDelete(root: string, args: Args) {
+  const ev = eventOrFail(await readEventsFile(root), args.positional[1]);
+  if (!(await confirm(`Delete event ${ev.id.slice(0, 8)} (“${oneLine(ev.prompt, 50)}”)? It will be moved to .promptreplay/trash.`, args))) return;
+  const name = await trashEvent(root, ev);
+  console.log(name ? `deleted ${ev.id}; moved to .promptreplay/trash/${name}/` : `event ${ev.id} not found in events.jsonl`);
+}
+
+async function cmdRepair(root: string, args: Args) {
+  const r = await repairEventsFile(root);
+  if (args.flags.json) { console.log(JSON.stringify(r, null, 2)); return; }
+  if (r.future) console.log(`Kept ${r.future} event(s) written by a newer Prompt Replay as they are.`);
+  if (r.migrated) console.log(`Upgraded ${r.migrated} event(s) to the current schema.`);
+  if (!r.bad.length) { if (!r.migrated) console.log(`events.jsonl is fine (${r.events} events).`); return; }
+  for (const b of r.bad) console.log(`  line ${b.line}: ${b.reason}${b.salvaged ? ' (record recovered)' : ''}`);
+  console.log(`Removed ${r.bad.length} unreadable line(s)${r.salvaged ? `, recovered ${r.salvaged} event(s) from them` : ''}; ${r.events} events remain.`);
+  console.log(`Unreadable lines kept in ${r.quarantined}`);
+}
+
+async function cmdTrash(root: string, args: Args) {
+  const sub = args.positional[1] ?? 'list';
+  const entries = await listTrash(root);
+
+  if (sub === 'list') {
+    if (args.flags.json) { console.log(JSON.stringify(entries.map(e => ({ id: e.id, folder: e.name, event: e.event })), null, 2)); return; }
+    if (entries.length === 0) { console.log('Trash is empty.'); return; }
+    for (const e of entries) {
+      const when = e.event ? new Date(e.event.timestamp).toISOString().replace('T', ' ').slice(0, 16) : '?';
+      console.log(`${e.id.slice(0, 8)}  ${when}  ${oneLine(e.event?.prompt ?? '(no prompt)', 70)}`);
+    }
+    return;
+  }
+
+  if (sub === 'restore') {
+    const id = args.positional[2];
+    if (!id) throw new UsageError('missing event id');
+    const matches = entries.filter(e => e.id === id || e.id.startsWith(id));
+    if (matches.length !== 1) throw new Error(`trashed event not found (or ambiguous prefix): ${id}`);
+    const maxEvents = Number(args.flags['max-events'] ?? 2000);
+    if (!(await restoreFromTrash(root, matches[0], maxEvents))) throw new Error('could not read trashed event JSON');
+    console.log(`restored event ${matches[0].id} from trash`);
+    return;
+  }
+
+  throw new UsageError(`unknown trash subcommand: ${sub}`);
+}
+
+function restoreOrFail(records: RestoreRecord[], id: string | undefined): RestoreRecord {
+  if (!id) throw new UsageError('missing backup id');
+  const r = records.find(x => x.backupId === id || x.backupId === `backup-${id}`);
+  if (!r) throw new Error(`restore backup not found: ${id}`);
+  return r;
+}
+
+async function cmdRestores(root: string, args: Args) {
+  const sub = args.positional[1] ?? 'list';
+  const records = await listRestores(root);
+
+  if (sub === 'list') {
+    if (args.flags.json) { console.log(JSON.stringify(records, null, 2)); return; }
+    if (records.length === 0) { console.log('No restores yet.'); return; }
+    for (const r of records) {
+      const when = new Date(r.createdAt).toISOString().replace('T', ' ').slice(0, 16);
+      const what = r.eventId ? `${(r.side ?? '?').toUpperCase()} of ${r.eventId.slice(0, 8)}` : '(event unknown)';
+      console.log(`${r.backupId}  ${when}  ${what}  ${r.files.length} file(s)${r.undoneAt ? '  [undone]' : ''}`);
+    }
+    return;
+  }
+
+  const r = restoreOrFail(records, args.positional[2]);
+  if (sub === 'diff') {
+    for (const f of await undoDiff(root, r)) {
+      console.log(entryLabel(root, f.entry));
+      if (f.binary) console.log('    (binary file)');
+      else for (const l of f.lines ?? []) console.log(`    ${l}`);
+    }
+    return;
+  }
+
+  if (sub === 'undo' || sub === 'redo') {
+    if (sub === 'undo' && r.undoneAt) throw new Error(`${r.backupId} is already undone`);
+    if (sub === 'redo' && !r.undoneAt) throw new Error(`${r.backupId} is not undone`);
+    if (!(await confirm(`${sub === 'undo' ? 'Undo' : 'Redo'} ${r.backupId} (${r.files.length} file(s))? This overwrites working copies.`, args))) return;
+    const u = sub === 'undo' ? await undoRestore(root, r.backupId) : await redoRestore(root, r.backupId);
+    console.log(`${sub} — ${u.restored} restored, ${u.deleted} deleted.`);
+    return;
+  }
+
+  throw new UsageError(`unknown restores subcommand: ${sub}`);
+}
+
+async function cmdGc(root: string, args: Args) {
+  const num = (flag: string, fallback: number) => {
+    const v = args.flags[flag];
+    if (v === undefined) return fallback;
+    const n = Number(v);
+    if (typeof v !== 'string' || !Number.isFinite(n) || n < 0) throw new UsageError(`--${flag} needs a number ≥ 0`);
+    return n;
+  };
+  const policy: RetentionPolicy = {
+    trashDays: num('trash-days', DEFAULT_RETENTION.trashDays),
+    backupDays: num('backup-days', DEFAULT_RETENTION.backupDays),
+    archiveDays: num('archive-days', DEFAULT_RETENTION.archiveDays),
+    exportDays: num('export-days', DEFAULT_RETENTION.exportDays),
+    maxSizeMB: num('max-size-mb', DEFAULT_RETENTION.maxSizeMB)
+  };
+
+  const report = (r: GcReport) => {
+    if (args.flags.json) console.log(JSON.stringify(r, null, 2));
+    else for (const line of gcReportLines(r)) console.log(line);
+    if (r.failed.length) process.exitCode = 1;
+  };
+
+  const preview = await collectGarbage(root, policy, { dryRun: true });
+  if (args.flags['dry-run'] || !preview.items.length) { report(preview); return; }
+  if (!args.flags.yes) {
+    for (const line of gcReportLines(preview)) console.log(line);
+    if (!(await confirm('Remove these permanently?', args))) return;
+  }
+  report(await collectGarbage(root, policy));
+}
+
+async function cmdDecrypt(root: string, args: Args) {
+  const info = await readEncryptionInfo(root);
+  if (!info) throw new Error('the store is not encrypted');
+  const keys = await keysFromEnv(info);
+  const out = args.flags.out;
+  let r;
+  if (typeof out === 'string') {
+    r = await exportDecrypted(root, path.resolve(out), keys);
+    console.log(`Wrote a decrypted copy of ${r.files} file(s) to ${path.resolve(out)}`);
+  } else if (args.flags['in-place']) {
+    if (!(await confirm('Decrypt every file in .promptreplay and turn encryption off?', args))) return;
+    r = await decryptStore(root, keys);
+    if (!r.failed.length) console.log(`Decrypted ${r.files} file(s); encryption is off.`);
+  } else {
+    throw new UsageError('decrypt needs --out <dir> or --in-place');
+  }
+  for (const f of r.failed) console.error(`  could not convert ${f}`);
+  if (r.failed.length) process.exitCode = 1;
+}
+
+const COMMANDS: Record<string, (root: string, args: Args) => Promise<void>> = {
+  list: cmdList,
+  search: cmdSearch,
+  show: cmdShow,
+  blame: cmdBlame,
+  insights: cmdInsights,
+  export: cmdExport,
+  series: cmdSeries,
+  restore: cmdRestore,
+  restores: cmdRestores,
+  commit: cmdCommit,
+  delete: cmdDelete,
+  sessions: cmdSessions,
+  session: cmdSession,
+  trash: cmdTrash,
+  repair: cmdRepair,
+  gc: cmdGc,
+  decrypt: cmdDecrypt
+};
+
+/** Open an encrypted store with the key or passphrase from the environment, if given. */
+async function unlockFromEnv(root: string) {
+  const info = await readEncryptionInfo(root);
+  if (!info) return;
+  const keys = await keysFromEnv(info);
+  if (keys.length) unlockStore(root, info, keys);
+}
+
+async function main(argv: string[]) {
+  const args = parseArgs(argv);
+  const cmd = args.positional[0];
+  if (!cmd || args.flags.help || cmd === 'help') { process.stdout.write(USAGE); return; }
+  const run = COMMANDS[cmd];
+  if (!run) throw new UsageError(`unknown command: ${cmd}`);
+
+  const root = typeof args.flags.root === 'string' ? path.resolve(args.flags.root) : await findRoot(process.cwd());
+  if (!root) throw new Error('no .promptreplay directory found (use --root <dir>)');
+  await unlockFromEnv(root);
+  await run(root, args);
+}
+
+main(process.argv.slice(2)).catch((e: unknown) => {
+  if (e instanceof UsageError) {
+    console.error(`prompt-replay: ${e.message}\n`);
+    process.stderr.write(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+  console.error(`prompt-replay: ${e instanceof Error ? e.message : String(e)}`);
+  if (e instanceof EncryptionError) console.error('Set PROMPT_REPLAY_KEY or PROMPT_REPLAY_PASSPHRASE to open an encrypted store.');
+  process.exitCode = 1;
+});
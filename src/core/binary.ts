@@ -0,0 +1,29 @@
+import { TextDecoder } from 'util';
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Git's heuristic (a NUL byte in the first 8000 bytes), plus anything that isn't valid UTF-8,
+ * since those files can't round-trip through a text diff.
+ */
+export function isBinary(bytes: Uint8Array | undefined): boolean {
+  if (!bytes || bytes.length === 0) return false;
+  if (bytes.subarray(0, 8000).includes(0)) return true;
+  try { utf8.decode(bytes); return false; } catch { return true; }
+}
+
+export function formatSize(n: number | undefined): string {
+  if (n === undefined) return '?';
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** One-line description used instead of a diff, e.g. "binary file changed (1.2 KB, ab12cd34 → 3.4 KB, ef567890)". */
+export function describeBinaryChange(
+  before: { size?: number; hash?: string } | undefined,
+  after: { size?: number; hash?: string } | undefined
+): string {
+  const side = (x?: { size?: number; hash?: string }) => x ? `${formatSize(x.size)}${x.hash ? `, ${x.hash.slice(0, 8)}` : ''}` : 'absent';
+  return `binary file changed (${side(before)} → ${side(after)})`;
+}
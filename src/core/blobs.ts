@@ -0,0 +1,181 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { fileURLToPath, pathToFileURL } from 'url';
+
+import { layout } from './layout';
+import { exists, readDirMaybe, removeMaybe } from './fsutil';
+import { readStoreFile, vaultFor, writeStoreFile } from './vault';
+import { DiffEntry, updateEventsFile } from './events';
+import { PromptEvent } from '../types';
+
+export function hashBytes(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * Content-addressed snapshot store under `.promptreplay/blobs/<aa>/<name>`.
+ * A file that is identical across many events is stored exactly once. Names are the SHA-256 of
+ * the contents; in an encrypted store the contents are sealed and named by a keyed HMAC instead
+ * (see Vault.blobName), and converting the store renames them.
+ */
+export class BlobStore {
+  constructor(private repoRoot: string) {}
+
+  dirPath(): string {
+    return layout(this.repoRoot).blobs;
+  }
+
+  pathFor(hash: string): string {
+    return path.join(this.dirPath(), hash.slice(0, 2), hash);
+  }
+
+  /** `file:` URI string of a blob, used for the viewable `left`/`right` fields of events. */
+  uriFor(hash: string): string {
+    return pathToFileURL(this.pathFor(hash)).href;
+  }
+
+  has(hash: string): Promise<boolean> {
+    return exists(this.pathFor(hash));
+  }
+
+  /** True when blobs are sealed at rest, the only case in which unmasked originals are kept. */
+  get sealed(): boolean {
+    return vaultFor(this.pathFor('00')).encrypted;
+  }
+
+  /** Name the store gives these contents. */
+  nameFor(bytes: Uint8Array): string {
+    return vaultFor(this.pathFor('00')).blobName(bytes);
+  }
+
+  /**
+   * Store bytes (if not already present) and return their name. A reused blob is touched, so the
+   * garbage collector's grace period also covers an event that is about to reference it.
+   */
+  async put(bytes: Uint8Array): Promise<string> {
+    const hash = this.nameFor(bytes);
+    const now = new Date();
+    try { await fsp.utimes(this.pathFor(hash), now, now); return hash; } catch {}
+    await writeStoreFile(this.pathFor(hash), bytes);
+    return hash;
+  }
+
+  async get(hash: string | undefined): Promise<Uint8Array | undefined> {
+    if (!hash) return undefined;
+    return readStoreFile(this.pathFor(hash));
+  }
+}
+
+/** Read one side of an event's file entry: blob store first, then the legacy snapshot file. */
+export async function readSnapshot(root: string, d: DiffEntry, side: 'before' | 'after'): Promise<Uint8Array | undefined> {
+  const hash = side === 'before' ? d.leftHash : d.rightHash;
+  const bytes = await new BlobStore(root).get(hash);
+  if (bytes !== undefined) return bytes;
+  const uri = side === 'before' ? d.left : d.right;
+  if (!uri || !uri.startsWith('file:')) return undefined;
+  let file: string;
+  try { file = fileURLToPath(uri); } catch { return undefined; }
+  return readStoreFile(file);
+}
+
+/**
+ * True when one side of `d` was stored with secrets masked and no unmasked copy was kept (the
+ * store is not encrypted, or the event predates originals). Writing it back would put the masks
+ * into files.
+ */
+export function snapshotMasked(ev: PromptEvent, d: DiffEntry, side: 'before' | 'after'): boolean {
+  if (side === 'before' ? d.leftRawHash : d.rightRawHash) return false;
+  const target = `${side === 'before' ? d.oldPath ?? d.path : d.path} (${side})`;
+  return !!ev.redactions?.some(r => r.target === target);
+}
+
+/**
+ * Read one side as it was on disk, for writing it back: the unmasked copy when redaction changed
+ * the snapshot. Undefined when the snapshot is missing or only a masked copy exists.
+ */
+export async function readOriginalSnapshot(root: string, ev: PromptEvent, d: DiffEntry, side: 'before' | 'after'): Promise<Uint8Array | undefined> {
+  const raw = side === 'before' ? d.leftRawHash : d.rightRawHash;
+  if (raw) return new BlobStore(root).get(raw);
+  if (snapshotMasked(ev, d, side)) return undefined;
+  return readSnapshot(root, d, side);
+}
+
+/* ---------------- Migration from per-event snapshot folders ---------------- */
+
+type Side = 'before' | 'after';
+
+/**
+ * Move the files of a legacy `snapshots/<id>/__before__|__after__` folder into the blob store
+ * and point the event's diff entries at the resulting hashes. Returns true if the event changed.
+ */
+async function migrateEventSnapshots(ev: PromptEvent, snapsDir: string, blobs: BlobStore): Promise<boolean> {
+  let changed = false;
+  for (const d of ev.diffUris || []) {
+    for (const side of ['before', 'after'] as Side[]) {
+      const hashKey = side === 'before' ? 'leftHash' : 'rightHash';
+      const uriKey = side === 'before' ? 'left' : 'right';
+      if (d[hashKey]) continue;
+      const bytes = await readStoreFile(path.join(snapsDir, `__${side}__`, d.path));
+      if (bytes === undefined) continue;
+      const hash = await blobs.put(bytes);
+      d[hashKey] = hash;
+      d[uriKey] = blobs.uriFor(hash);
+      changed = true;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Convert every `snapshots/<id>` folder (live events and trashed events) into blobs.
+ * Folders are only removed after their event record has been rewritten to reference hashes.
+ */
+export async function migrateSnapshotFolders(root: string): Promise<number> {
+  const L = layout(root);
+  const blobs = new BlobStore(root);
+  let migrated = 0;
+
+  const hasSnapshots = await exists(L.snapshots);
+  if (hasSnapshots) {
+    const done: string[] = [];
+    await updateEventsFile(root, async events => {
+      for (const ev of events) {
+        const dir = path.join(L.snapshots, ev.id);
+        if (!(await exists(dir))) continue;
+        await migrateEventSnapshots(ev, dir, blobs);
+        done.push(dir);
+        migrated++;
+      }
+    });
+    for (const dir of done) await removeMaybe(dir);
+  }
+
+  // Trashed events keep their snapshots in trash/<stamp>-<id>/snapshots
+  for (const entry of await readDirMaybe(L.trash)) {
+    if (!entry.isDir) continue;
+    const dir = path.join(L.trash, entry.name);
+    const snaps = path.join(dir, 'snapshots');
+    if (!(await exists(snaps))) continue;
+
+    const meta = (await readDirMaybe(dir)).find(ent => ent.name.startsWith('event-') && ent.name.endsWith('.json'));
+    if (!meta) continue;
+
+    const jsonPath = path.join(dir, meta.name);
+    try {
+      const ev = JSON.parse(String(await readStoreFile(jsonPath))) as PromptEvent;
+      if (await migrateEventSnapshots(ev, snaps, blobs)) {
+        await writeStoreFile(jsonPath, JSON.stringify(ev, null, 2));
+      }
+      await removeMaybe(snaps);
+      migrated++;
+    } catch (e) {
+      console.error('[Prompt Replay] trash snapshot migration failed:', entry.name, e);
+    }
+  }
+
+  // Remove the snapshots root once it no longer holds anything
+  if (hasSnapshots && (await readDirMaybe(L.snapshots)).length === 0) await removeMaybe(L.snapshots);
+
+  return migrated;
+}
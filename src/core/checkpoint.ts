@@ -0,0 +1,73 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Each checkpoint commit is kept reachable from its own ref, so `git gc` can't prune the commit a
+ * logged event's `beforeRef` names when a later checkpoint is taken.
+ */
+export const CHECKPOINT_REFS = 'refs/prompt-replay/checkpoints/';
+
+async function git(repoRoot: string, args: string[], env?: NodeJS.ProcessEnv): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, { cwd: repoRoot, env: { ...process.env, ...env }, maxBuffer: 64 * 1024 * 1024 });
+  return stdout.trim();
+}
+
+const IDENTITY = {
+  GIT_AUTHOR_NAME: 'Prompt Replay', GIT_AUTHOR_EMAIL: 'prompt-replay@localhost',
+  GIT_COMMITTER_NAME: 'Prompt Replay', GIT_COMMITTER_EMAIL: 'prompt-replay@localhost'
+};
+
+/**
+ * Tree of the working tree as it is now (tracked edits, staged changes and untracked, non-ignored
+ * files), staged into a copy of the index so the real index is left alone.
+ */
+async function workingTree(repoRoot: string): Promise<string> {
+  const tmpIndex = path.join(os.tmpdir(), `prompt-replay-index-${process.pid}-${Date.now()}`);
+  try {
+    const indexPath = path.resolve(repoRoot, await git(repoRoot, ['rev-parse', '--git-path', 'index']));
+    try { await fsp.copyFile(indexPath, tmpIndex); } catch {} // no index yet: start empty
+    const env = { GIT_INDEX_FILE: tmpIndex };
+    await git(repoRoot, ['add', '-A', '--', '.', ':(exclude,glob)**/.promptreplay/**'], env);
+    return await git(repoRoot, ['write-tree'], env);
+  } finally {
+    try { await fsp.rm(tmpIndex, { force: true }); } catch {}
+  }
+}
+
+/**
+ * Freeze the working tree as a commit whose parent is HEAD, without touching the real index,
+ * HEAD or stash, and keep it under CHECKPOINT_REFS.
+ */
+export async function snapshotWorkingTree(repoRoot: string): Promise<string | undefined> {
+  try {
+    const tree = await workingTree(repoRoot);
+    let head: string | undefined;
+    try { head = await git(repoRoot, ['rev-parse', '--verify', '-q', 'HEAD']); } catch {} // unborn branch
+    const commit = await git(repoRoot, ['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', 'Prompt Replay checkpoint'], IDENTITY);
+    await git(repoRoot, ['update-ref', CHECKPOINT_REFS + commit, commit]);
+    return commit;
+  } catch (e) {
+    console.error('[Prompt Replay] working-tree snapshot failed:', repoRoot, e);
+    return undefined;
+  }
+}
+
+/**
+ * Paths, relative to the repository, whose content on disk differs from `commit`: edited, added
+ * or deleted since the checkpoint, by the editor or anything else.
+ */
+export async function filesChangedSince(repoRoot: string, commit: string): Promise<string[]> {
+  const tree = await workingTree(repoRoot);
+  const out = await git(repoRoot, ['diff-tree', '-r', '--name-only', '-z', '--no-renames', commit, tree]);
+  return out.split('\0').filter(Boolean);
+}
+
+/** Let go of a checkpoint no event was logged against. */
+export async function dropCheckpoint(repoRoot: string, commit: string): Promise<void> {
+  try { await git(repoRoot, ['update-ref', '-d', CHECKPOINT_REFS + commit]); } catch {} // a HEAD fallback has no ref
+}
@@ -0,0 +1,276 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+import { layout } from './layout';
+import { readDirMaybe, readMaybe, removeMaybe, writeFileAtomic, writeFileEnsuringDir } from './fsutil';
+import { lockEvents } from './events';
+import { BlobStore } from './blobs';
+import { EncryptionError, Kdf, StoreKey, Vault, keyFromPassphrase, setVault, storeKey } from './vault';
+import { PromptEvent } from '../types';
+
+/**
+ * Contents of encryption.json. `kdf` is set for passphrase keys. `previous` names the key being
+ * replaced while a rotation runs, so an interrupted rotation can still read everything.
+ */
+export type EncryptionInfo = { version: 1; keyId: string; kdf?: Kdf; previous?: { keyId: string; kdf?: Kdf } };
+
+/** Keys needed to open a store: the current one first, then the one a rotation replaces. */
+export type KeySpec = { keyId: string; kdf?: Kdf };
+
+export async function readEncryptionInfo(root: string): Promise<EncryptionInfo | undefined> {
+  const buf = await readMaybe(layout(root).encryption);
+  if (!buf) return undefined;
+  try { return JSON.parse(buf.toString('utf8')); }
+  catch { throw new EncryptionError('.promptreplay/encryption.json is unreadable; the store cannot be opened'); }
+}
+
+export function requiredKeys(info: EncryptionInfo): KeySpec[] {
+  return info.previous ? [{ keyId: info.keyId, kdf: info.kdf }, info.previous] : [{ keyId: info.keyId, kdf: info.kdf }];
+}
+
+/** Register the keys of an encrypted store with the vault; throws if one is missing or wrong. */
+export function unlockStore(root: string, info: EncryptionInfo, keys: StoreKey[]) {
+  for (const spec of requiredKeys(info)) {
+    if (!keys.some(k => k.id === spec.keyId)) throw new EncryptionError(`missing or wrong key for the Prompt Replay store (needs key ${spec.keyId})`);
+  }
+  setVault(root, new Vault(keys.find(k => k.id === info.keyId), keys.filter(k => k.id !== info.keyId)));
+}
+
+/**
+ * Keys from the environment, for the CLI: PROMPT_REPLAY_KEY (base64, as copied from VS Code)
+ * or PROMPT_REPLAY_PASSPHRASE.
+ */
+export async function keysFromEnv(info: EncryptionInfo, env: NodeJS.ProcessEnv = process.env): Promise<StoreKey[]> {
+  const keys: StoreKey[] = [];
+  for (const k of (env.PROMPT_REPLAY_KEY ?? '').split(',').map(s => s.trim()).filter(Boolean)) keys.push(storeKey(Buffer.from(k, 'base64')));
+  if (env.PROMPT_REPLAY_PASSPHRASE) {
+    for (const spec of requiredKeys(info)) if (spec.kdf) keys.push(await keyFromPassphrase(env.PROMPT_REPLAY_PASSPHRASE, spec.kdf));
+  }
+  return keys;
+}
+
+/* ---------------- Converting a store ---------------- */
+
+// Never encrypted: the lock, the line count, the encryption settings, the ingest address (git-ignored
+// through .gitignore, which git has to read) and user-requested exports
+const CLEAR = new Set(['events.lock', 'events.count', 'encryption.json', 'ingest.json', '.gitignore']);
+
+async function storeFiles(dir: string, rel = ''): Promise<string[]> {
+  const out: string[] = [];
+  for (const e of await readDirMaybe(path.join(dir, rel))) {
+    const r = rel ? `${rel}/${e.name}` : e.name;
+    if (e.isDir) { if (r !== 'exports') out.push(...await storeFiles(dir, r)); }
+    else if (!CLEAR.has(r) && !e.name.endsWith('.tmp')) out.push(r);
+  }
+  return out;
+}
+
+/** A damaged line is kept as it is, for `repair` to deal with like any other unreadable line. */
+function openLineMaybe(vault: Vault, line: string): { text: string; ok: boolean } {
+  try { return { text: vault.openLine(line), ok: true }; }
+  catch (e) { if (e instanceof EncryptionError) throw e; return { text: line, ok: false }; }
+}
+
+/**
+ * .jsonl files are sealed per line (they are appended to), everything else as a whole.
+ * `remap` rewrites the opened text of event records.
+ */
+function convertFile(from: Vault, to: Vault | undefined, rel: string, buf: Buffer, remap?: (text: string) => string): Buffer {
+  if (!rel.endsWith('.jsonl')) {
+    const plain = remap ? Buffer.from(remap(from.open(buf).toString('utf8')), 'utf8') : from.open(buf);
+    return to ? to.seal(plain) : plain;
+  }
+  return Buffer.from(buf.toString('utf8').split('\n').map(l => {
+    if (!l) return l;
+    const { text, ok } = openLineMaybe(from, l);
+    if (!ok) return text;
+    const next = remap ? remap(text) : text;
+    return to ? to.sealLine(next) : next;
+  }).join('\n'), 'utf8');
+}
+
+/* ---------------- Blob names ---------------- */
+
+const isBlob = (rel: string) => rel.startsWith('blobs/');
+
+/** Files holding event records: the log, the archive and trashed events. */
+const isEventFile = (rel: string) =>
+  rel === 'events.jsonl' || (rel.startsWith('archive/') && rel.endsWith('.jsonl')) || /^trash\/[^/]+\/event-[^/]+\.json$/.test(rel);
+
+const REF_KEYS = [['leftHash', 'left'], ['rightHash', 'right'], ['leftRawHash'], ['rightRawHash']] as const;
+
+/**
+ * One event record (JSON text) with its blob references renamed and, with `dropRaw`, without its
+ * unmasked originals; other text is returned as is.
+ */
+function renameRefs(text: string, renames: Map<string, string>, blobs: BlobStore, pretty: boolean, dropRaw = false): string {
+  let ev: PromptEvent;
+  try { ev = JSON.parse(text); } catch { return text; }
+  let changed = false;
+  for (const d of Array.isArray(ev?.diffUris) ? ev.diffUris : []) {
+    if (dropRaw && (d.leftRawHash || d.rightRawHash)) {
+      delete d.leftRawHash;
+      delete d.rightRawHash;
+      changed = true;
+    }
+    for (const [hashKey, uriKey] of REF_KEYS) {
+      const old = d[hashKey], next = old && renames.get(old);
+      if (!old || !next) continue;
+      d[hashKey] = next;
+      if (uriKey && d[uriKey] === blobs.uriFor(old)) d[uriKey] = blobs.uriFor(next);
+      changed = true;
+    }
+  }
+  return changed ? (pretty ? JSON.stringify(ev, null, 2) : JSON.stringify(ev)) : text;
+}
+
+/**
+ * Blobs the store's events only reference as unmasked originals. They are only kept sealed, so
+ * they are dropped rather than decrypted. Event files that can't be read are passed over.
+ */
+async function rawOnlyBlobs(dir: string, files: string[], vault: Vault): Promise<Set<string>> {
+  const raw = new Set<string>(), shown = new Set<string>();
+  for (const rel of files.filter(isEventFile)) {
+    let text: string;
+    try { text = convertFile(vault, undefined, rel, await fsp.readFile(path.join(dir, rel))).toString('utf8'); }
+    catch (e) { if (e instanceof EncryptionError) throw e; continue; }
+    for (const line of rel.endsWith('.jsonl') ? text.split('\n') : [text]) {
+      let ev: PromptEvent;
+      try { ev = JSON.parse(line); } catch { continue; }
+      for (const d of Array.isArray(ev?.diffUris) ? ev.diffUris : []) {
+        for (const h of [d.leftRawHash, d.rightRawHash]) if (h) raw.add(h);
+        for (const h of [d.leftHash, d.rightHash]) if (h) shown.add(h);
+      }
+    }
+  }
+  for (const h of shown) raw.delete(h);
+  return raw;
+}
+
+export type RecryptResult = { files: number; failed: string[] };
+
+/**
+ * Rewrite every file of the store with `vault`: open with any of its keys, seal with its current
+ * key (or write plaintext). Blobs are stored under the names `vault` gives them and event records
+ * are pointed at those; the old names are removed last, and only if everything converted, so an
+ * interrupted run leaves every event readable. Writing plaintext drops the unmasked originals.
+ * Runs under the events lock; files that can't be opened are left as is.
+ */
+async function recrypt(root: string, vault: Vault): Promise<RecryptResult> {
+  const dir = layout(root).dir;
+  const blobs = new BlobStore(root);
+  const result: RecryptResult = { files: 0, failed: [] };
+  const files = await storeFiles(dir);
+  const renames = new Map<string, string>();
+  const dropRaw = !vault.encrypted;
+  const rawOnly = dropRaw ? await rawOnlyBlobs(dir, files, vault) : new Set<string>();
+  const fail = (rel: string, e: unknown) => {
+    if (e instanceof EncryptionError) throw e;
+    result.failed.push(`${rel}: ${e instanceof Error ? e.message : String(e)}`);
+  };
+
+  for (const rel of files.filter(isBlob)) {
+    if (rawOnly.has(path.basename(rel))) continue;
+    try {
+      const plain = vault.open(await fsp.readFile(path.join(dir, rel)));
+      const name = vault.blobName(plain);
+      await writeFileAtomic(blobs.pathFor(name), vault.seal(plain));
+      if (name !== path.basename(rel)) renames.set(path.basename(rel), name);
+      result.files++;
+    } catch (e) { fail(rel, e); }
+  }
+
+  for (const rel of files.filter(r => !isBlob(r))) {
+    const file = path.join(dir, rel);
+    const remap = (renames.size || dropRaw) && isEventFile(rel)
+      ? (text: string) => renameRefs(text, renames, blobs, !rel.endsWith('.jsonl'), dropRaw)
+      : undefined;
+    try {
+      await writeFileAtomic(file, convertFile(vault, vault, rel, await fsp.readFile(file), remap));
+      result.files++;
+    } catch (e) { fail(rel, e); }
+  }
+
+  if (!result.failed.length) for (const old of [...renames.keys(), ...rawOnly]) await removeMaybe(blobs.pathFor(old));
+  return result;
+}
+
+async function writeInfo(root: string, info: EncryptionInfo) {
+  await writeFileAtomic(layout(root).encryption, JSON.stringify(info, null, 2) + '\n');
+}
+
+/** Turn encryption on: record the key, then encrypt every existing file with it. */
+export async function encryptStore(root: string, key: StoreKey, kdf?: Kdf): Promise<RecryptResult> {
+  if (await readEncryptionInfo(root)) throw new EncryptionError('the Prompt Replay store is already encrypted');
+  return lockEvents(root, async () => {
+    await writeInfo(root, { version: 1, keyId: key.id, kdf });
+    const vault = new Vault(key);
+    setVault(root, vault);
+    return recrypt(root, vault);
+  });
+}
+
+/**
+ * Re-encrypt everything with `key`. `keys` must open the store as it is now. Until every file
+ * is converted, encryption.json keeps naming the old key as `previous`.
+ */
+export async function rotateStoreKey(root: string, keys: StoreKey[], key: StoreKey, kdf?: Kdf): Promise<RecryptResult> {
+  const info = await readEncryptionInfo(root);
+  if (!info) throw new EncryptionError('the Prompt Replay store is not encrypted');
+  unlockStore(root, info, keys);
+  return lockEvents(root, async () => {
+    const old = keys.find(k => k.id === info.keyId)!;
+    await writeInfo(root, { version: 1, keyId: key.id, kdf, previous: { keyId: info.keyId, kdf: info.kdf } });
+    const vault = new Vault(key, [old, ...keys.filter(k => k !== old)]);
+    setVault(root, vault);
+    const result = await recrypt(root, vault);
+    if (!result.failed.length) {
+      await writeInfo(root, { version: 1, keyId: key.id, kdf });
+      setVault(root, new Vault(key));
+    }
+    return result;
+  });
+}
+
+/** Turn encryption off, decrypting every file in place. If some files fail, encryption stays on. */
+export async function decryptStore(root: string, keys: StoreKey[]): Promise<RecryptResult> {
+  const info = await readEncryptionInfo(root);
+  if (!info) throw new EncryptionError('the Prompt Replay store is not encrypted');
+  unlockStore(root, info, keys);
+  return lockEvents(root, async () => {
+    const vault = new Vault(undefined, keys);
+    setVault(root, vault);
+    const result = await recrypt(root, vault);
+    if (result.failed.length) unlockStore(root, info, keys);
+    else {
+      await removeMaybe(layout(root).encryption);
+      setVault(root, undefined);
+    }
+    return result;
+  });
+}
+
+/**
+ * Write a decrypted copy of the store (without exports/) to `outDir`, opening it with `keys`.
+ * Like decrypting, the copy leaves out the unmasked originals.
+ */
+export async function exportDecrypted(root: string, outDir: string, keys: StoreKey[]): Promise<RecryptResult> {
+  const dir = layout(root).dir;
+  const vault = new Vault(undefined, keys);
+  const blobs = new BlobStore(root);
+  const result: RecryptResult = { files: 0, failed: [] };
+  const files = await storeFiles(dir);
+  const rawOnly = await rawOnlyBlobs(dir, files, vault);
+  for (const rel of files) {
+    if (isBlob(rel) && rawOnly.has(path.basename(rel))) continue;
+    const remap = isEventFile(rel) ? (text: string) => renameRefs(text, new Map(), blobs, !rel.endsWith('.jsonl'), true) : undefined;
+    try {
+      await writeFileEnsuringDir(path.join(outDir, rel), convertFile(vault, undefined, rel, await fsp.readFile(path.join(dir, rel)), remap));
+      result.files++;
+    } catch (e) {
+      if (e instanceof EncryptionError) throw e;
+      result.failed.push(`${rel}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,247 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+import { layout } from './layout';
+import { readDirMaybe, readMaybe, writeFileAtomic, writeFileEnsuringDir } from './fsutil';
+import { withLockFile } from './lock';
+import { EncryptionError, SEALED_LINE_PREFIX, Vault, vaultFor } from './vault';
+import { FutureSchemaError, upgradeEvent, validateEvent } from './schema';
+import { PromptEvent } from '../types';
+
+/**
+ * A line of events.jsonl that could not be read (1-based `line`) and why; `salvaged` if a record
+ * was recovered from it.
+ */
+export type BadLine = { line: number; text: string; reason: string; salvaged: boolean };
+
+/**
+ * `future`: raw lines written by a newer Prompt Replay, carried through rewrites untouched.
+ * `migrated`: records stored in an older schema (upgraded in memory).
+ */
+export type EventsRead = { events: PromptEvent[]; bad: BadLine[]; future: string[]; migrated: number };
+
+/** A torn write can leave a fragment glued to the next record; recover the record. */
+function salvage(text: string, vault: Vault): PromptEvent | undefined {
+  for (const marker of [SEALED_LINE_PREFIX, '{"schemaVersion":', '{"id":']) {
+    for (let i = text.indexOf(marker, 1); i > 0; i = text.indexOf(marker, i + 1)) {
+      try { return upgradeEvent(JSON.parse(vault.openLine(text.slice(i)))).event; } catch {}
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse events.jsonl line by line, decrypting and upgrading records; unreadable or invalid
+ * lines are reported rather than hiding the log. Without the lock, an unterminated last line
+ * may be an append in progress and is ignored. A missing key throws EncryptionError.
+ */
+function parseEvents(buf: Buffer | undefined, locked: boolean, vault: Vault): EventsRead {
+  const out: EventsRead = { events: [], bad: [], future: [], migrated: 0 };
+  const lines = buf ? buf.toString('utf8').split('\n') : [];
+  lines.forEach((text, i) => {
+    if (!text.trim()) return;
+    let reason: string;
+    let plain = text;
+    try {
+      plain = vault.openLine(text);
+      const { event, migrated } = upgradeEvent(JSON.parse(plain));
+      out.events.push(event);
+      if (migrated) out.migrated++;
+      return;
+    } catch (e) {
+      if (e instanceof EncryptionError) throw e;
+      if (e instanceof FutureSchemaError) { out.future.push(plain); return; }
+      reason = e instanceof SyntaxError ? `not valid JSON (${e.message})` : e instanceof Error ? e.message : String(e);
+    }
+    if (!locked && i === lines.length - 1) return;
+    const rescued = salvage(text, vault);
+    if (rescued) out.events.push(rescued);
+    out.bad.push({ line: i + 1, text, reason, salvaged: !!rescued });
+  });
+  return out;
+}
+
+/** Records (and raw lines) as .jsonl text, each line sealed if the store is encrypted. */
+function serialize(vault: Vault, events: PromptEvent[], future: string[] = []): string {
+  const lines = events.map(ev => JSON.stringify(ev)).concat(future).map(l => vault.sealLine(l));
+  return lines.join('\n') + (lines.length ? '\n' : '');
+}
+
+function fileStamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+/** Set unreadable lines aside in corrupt/ before a rewrite drops them. */
+async function quarantine(root: string, bad: BadLine[]): Promise<string | undefined> {
+  if (!bad.length) return undefined;
+  const file = path.join(layout(root).corrupt, `events-${fileStamp()}.jsonl`);
+  await writeFileEnsuringDir(file, Buffer.from(serialize(vaultFor(file), [], bad.map(b => b.text))));
+  return file;
+}
+
+/** Serialize writers of events.jsonl across windows and processes. `fn` must not take the lock again. */
+export function lockEvents<T>(root: string, fn: () => Promise<T>): Promise<T> {
+  return withLockFile(layout(root).eventsLock, fn);
+}
+
+export async function readEventsChecked(root: string): Promise<EventsRead> {
+  const file = layout(root).events;
+  return parseEvents(await readMaybe(file), false, vaultFor(file));
+}
+
+export async function readEventsFile(root: string): Promise<PromptEvent[]> {
+  return (await readEventsChecked(root)).events;
+}
+
+/**
+ * Read-modify-write the log under the lock, so events appended meanwhile by another window or
+ * the CLI are not lost. `fn` may mutate the events in place or return a new list.
+ */
+export async function updateEventsFile(
+  root: string,
+  fn: (events: PromptEvent[]) => PromptEvent[] | void | Promise<PromptEvent[] | void>
+): Promise<PromptEvent[]> {
+  const L = layout(root);
+  return lockEvents(root, async () => {
+    const vault = vaultFor(L.events);
+    const { events, bad, future } = parseEvents(await readMaybe(L.events), true, vault);
+    const next = (await fn(events)) ?? events;
+    next.forEach(validateEvent);
+    await quarantine(root, bad);
+    await writeFileAtomic(L.events, serialize(vault, next, future));
+    return next;
+  });
+}
+
+/** Move all but the newest `keep` events to archive/. Caller holds the lock. */
+async function compact(root: string, keep: number) {
+  const L = layout(root);
+  const vault = vaultFor(L.events);
+  const { events, bad, future } = parseEvents(await readMaybe(L.events), true, vault);
+  await quarantine(root, bad);
+  const cut = Math.max(0, events.length - keep);
+  if (cut) await writeFileEnsuringDir(path.join(L.archive, `events-${fileStamp()}.jsonl`), Buffer.from(serialize(vault, events.slice(0, cut))));
+  await writeFileAtomic(L.events, serialize(vault, events.slice(cut), future));
+}
+
+/** Newline count of events.jsonl, valid while the log still has this size and mtime. */
+type LineCount = { size: number; mtimeMs: number; lines: number };
+
+/** Lines of the log from the sidecar count, re-counting only after the log was rewritten. Caller holds the lock. */
+async function countLines(root: string, st: { size: number; mtimeMs: number }): Promise<number> {
+  const L = layout(root);
+  try {
+    const c: LineCount = JSON.parse(await fsp.readFile(L.eventsCount, 'utf8'));
+    if (c.size === st.size && c.mtimeMs === st.mtimeMs) return c.lines;
+  } catch {}
+  let lines = 0;
+  for (const b of (await readMaybe(L.events)) ?? []) if (b === 0x0a) lines++;
+  return lines;
+}
+
+/**
+ * Append one event with a real append under the lock. Only the last byte of the log is read and
+ * the line count is kept in events.count, so an append costs the same however long the log is.
+ * Once the log holds more than `maxEvents` plus some slack, the oldest events are compacted into
+ * archive/ in one rewrite.
+ */
+export async function appendEventToFile(root: string, ev: PromptEvent, maxEvents: number) {
+  const L = layout(root);
+  validateEvent(ev);
+  await lockEvents(root, async () => {
+    const line = vaultFor(L.events).sealLine(JSON.stringify(ev));
+    const h = await fsp.open(L.events, 'a+');
+    let lines: number;
+    try {
+      const st = await h.stat();
+      lines = st.size ? await countLines(root, st) : 0;
+      // never glue this record onto a torn last line
+      const last = Buffer.alloc(1);
+      const sep = st.size && (await h.read(last, 0, 1, st.size - 1)).bytesRead && last[0] !== 0x0a ? '\n' : '';
+      await h.appendFile(sep + line + '\n', 'utf8');
+      lines += sep ? 2 : 1;
+    } finally { await h.close(); }
+
+    if (lines > maxEvents + Math.max(20, Math.ceil(maxEvents / 10))) {
+      await compact(root, maxEvents);
+      await fsp.rm(L.eventsCount, { force: true });
+      return;
+    }
+    const st = await fsp.stat(L.events);
+    const count: LineCount = { size: st.size, mtimeMs: st.mtimeMs, lines };
+    await writeFileAtomic(L.eventsCount, JSON.stringify(count));
+  });
+}
+
+export type ArchiveFile = { file: string; size: number; events: PromptEvent[]; unreadable: number };
+
+/** Archive files, oldest first. */
+export async function readArchive(root: string): Promise<ArchiveFile[]> {
+  const dir = layout(root).archive;
+  const names = (await readDirMaybe(dir)).filter(e => !e.isDir && e.name.endsWith('.jsonl')).map(e => e.name).sort();
+  const out: ArchiveFile[] = [];
+  for (const name of names) {
+    const file = path.join(dir, name);
+    const buf = await readMaybe(file);
+    if (!buf) continue;
+    const { events, bad, future } = parseEvents(buf, true, vaultFor(file));
+    out.push({ file, size: buf.length, events, unreadable: bad.length + future.length });
+  }
+  return out;
+}
+
+/** Contents of an archive file holding `events`, sealed like the rest of its store. */
+export function archiveContent(file: string, events: PromptEvent[]): string {
+  return serialize(vaultFor(file), events);
+}
+
+export type RepairResult = { events: number; bad: BadLine[]; salvaged: number; migrated: number; future: number; quarantined?: string };
+
+/**
+ * Rewrite the log without its unreadable lines (kept in corrupt/ for inspection) and with old
+ * records stored in the current schema. Records from a newer schema are kept as they are.
+ */
+export async function repairEventsFile(root: string): Promise<RepairResult> {
+  const L = layout(root);
+  return lockEvents(root, async () => {
+    const vault = vaultFor(L.events);
+    const { events, bad, future, migrated } = parseEvents(await readMaybe(L.events), true, vault);
+    const result: RepairResult = { events: events.length, bad, salvaged: bad.filter(b => b.salvaged).length, migrated, future: future.length };
+    if (!bad.length && !migrated) return result;
+    result.quarantined = await quarantine(root, bad);
+    await writeFileAtomic(L.events, serialize(vault, events, future));
+    return result;
+  });
+}
+
+/** Find an event by full id or unique id prefix. */
+export function findEvent(events: PromptEvent[], idOrPrefix: string): PromptEvent | undefined {
+  const exact = events.find(e => e.id === idOrPrefix);
+  if (exact) return exact;
+  const matches = idOrPrefix ? events.filter(e => e.id.startsWith(idOrPrefix)) : [];
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+export type DiffEntry = PromptEvent['diffUris'][number];
+
+/** Absolute working-tree path of an entry (entries from other repositories carry their own root). */
+export function entryTarget(root: string, d: Pick<DiffEntry, 'path' | 'repoRoot'>): string {
+  return path.join(d.repoRoot || root, d.path);
+}
+
+/** Every working-tree path an entry touches: its path, plus the rename source. */
+export function entryPaths(d: DiffEntry): Pick<DiffEntry, 'path' | 'repoRoot'>[] {
+  return d.oldPath ? [{ path: d.path, repoRoot: d.repoRoot }, { path: d.oldPath, repoRoot: d.repoRoot }] : [{ path: d.path, repoRoot: d.repoRoot }];
+}
+
+/** Absolute path the entry's before side lived at: the rename source for renamed files. */
+export function entrySource(root: string, d: DiffEntry): string {
+  return path.join(d.repoRoot || root, d.oldPath ?? d.path);
+}
+
+/** Path of an entry as shown to users: relative to the store root, or `<repo>:<path>` outside it. */
+export function entryLabel(root: string, d: Pick<DiffEntry, 'path' | 'repoRoot'>): string {
+  if (!d.repoRoot || d.repoRoot === root) return d.path;
+  const rel = path.relative(root, entryTarget(root, d)).replace(/\\/g, '/');
+  return rel.startsWith('..') || path.isAbsolute(rel) ? `${path.basename(d.repoRoot)}:${d.path}` : rel;
+}
@@ -0,0 +1,94 @@
+import * as path from 'path';
+
+import { layout } from './layout';
+import { writeFileEnsuringDir } from './fsutil';
+import { readSnapshot } from './blobs';
+import { entryLabel } from './events';
+import { isBinary, describeBinaryChange } from './binary';
+import { describeRedactions } from './redact';
+import { buildUnifiedDiff, countDiff } from '../diff';
+import { PromptEvent } from '../types';
+
+export function codeQuote(s: string) {
+  const cleaned = (s || '').replace(/\r/g, '');
+  if (cleaned.includes('\n')) return `\n\n> ${cleaned.split('\n').join('\n> ')}\n`;
+  return `“${cleaned}”`;
+}
+export function truncateSha(ref: string) {
+  if (!ref) return '—';
+  if (ref.startsWith(':working:')) return 'working';
+  return ref.length > 8 ? ref.slice(0, 8) : ref;
+}
+function utf8OrEmpty(bytes: Uint8Array | undefined): string {
+  return bytes ? Buffer.from(bytes).toString('utf8') : '';
+}
+
+/** Human-readable Markdown report of one event: header, file list and per-file diffs. */
+export async function eventMarkdown(root: string, ev: PromptEvent): Promise<string> {
+  const when = new Date(ev.timestamp || Date.now());
+  const dateStr = `${when.toLocaleDateString()} ${when.toLocaleTimeString()}`;
+  const header = [
+    `# Prompt Replay — Event ${ev.id} (${dateStr})`,
+    ``,
+    `**Prompt:** ${codeQuote(ev.prompt || '')}`,
+    ev.tags?.length ? `**Tags:** ${ev.tags.join(', ')}` : ``,
+    ev.redactions?.length ? `**Redacted before storage:** ${describeRedactions(ev.redactions)}` : ``,
+    `**Repo:** ${root}`,
+    `**Before:** ${ev.beforeRef ? truncateSha(ev.beforeRef) : '—'}  |  **After:** working tree at log time`,
+    ``,
+    `---`,
+    ``,
+  ].filter(Boolean).join('\n');
+
+  let filesList: string[] = [];
+  let fileSections: string[] = [];
+
+  for (const d of ev.diffUris || []) {
+    const rel = entryLabel(root, d);
+    const leftBytes  = await readSnapshot(root, d, 'before');
+    const rightBytes = await readSnapshot(root, d, 'after');
+    const status = d.op === 'added' ? 'Added' : d.op === 'deleted' ? 'Deleted' : d.op === 'renamed' ? `Renamed from ${d.oldPath}` : 'Modified';
+
+    if (d.binary || isBinary(leftBytes) || isBinary(rightBytes)) {
+      const note = describeBinaryChange(
+        d.op === 'added' ? undefined : { size: leftBytes?.length, hash: d.leftHash },
+        d.op === 'deleted' ? undefined : { size: rightBytes?.length, hash: d.rightHash }
+      );
+      filesList.push(`- **${rel}** — ${status} (${note})`);
+      fileSections.push([``, `### ${rel} (${status})`, ``, `_${note}_`, ``].join('\n'));
+      continue;
+    }
+
+    const diff = buildUnifiedDiff(utf8OrEmpty(leftBytes), utf8OrEmpty(rightBytes));
+    const counts = countDiff(diff);
+
+    filesList.push(`- **${rel}** — ${status} (+${counts.added} / −${counts.removed})`);
+
+    const section = [
+      ``,
+      `### ${rel} (${status})`,
+      '```diff',
+      ...diff,
+      '```',
+      ``
+    ].join('\n');
+
+    fileSections.push(section);
+  }
+
+  const listBlock = [`## Files changed (${filesList.length})`, ...filesList, ``, `---`, ``].join('\n');
+
+  if (ev.responsePreview) {
+    fileSections.unshift(`**Response preview:**\n\n> ${ev.responsePreview}\n\n`);
+  }
+
+  return [header, listBlock, ...fileSections].join('\n');
+}
+
+/** Write `exports/event-<id>.md` and return its path. */
+export async function writeEventMarkdown(root: string, ev: PromptEvent): Promise<string> {
+  const md = await eventMarkdown(root, ev);
+  const out = path.join(layout(root).exports, `event-${ev.id}.md`);
+  await writeFileEnsuringDir(out, Buffer.from(md, 'utf8'));
+  return out;
+}
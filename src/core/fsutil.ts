@@ -0,0 +1,49 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+export async function exists(p: string): Promise<boolean> {
+  try { await fsp.stat(p); return true; } catch { return false; }
+}
+
+export async function readMaybe(p: string): Promise<Buffer | undefined> {
+  try { return await fsp.readFile(p); } catch { return undefined; }
+}
+
+export async function readDirMaybe(p: string): Promise<{ name: string; isDir: boolean }[]> {
+  try {
+    const entries = await fsp.readdir(p, { withFileTypes: true });
+    return entries.map(e => ({ name: e.name, isDir: e.isDirectory() }));
+  } catch { return []; }
+}
+
+export async function writeFileEnsuringDir(p: string, bytes: Uint8Array) {
+  await fsp.mkdir(path.dirname(p), { recursive: true });
+  await fsp.writeFile(p, bytes);
+}
+
+/** Write via a temporary file and rename, so readers never see a half-written file. */
+export async function writeFileAtomic(p: string, data: Uint8Array | string) {
+  await fsp.mkdir(path.dirname(p), { recursive: true });
+  const tmp = `${p}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    await fsp.writeFile(tmp, data);
+    await fsp.rename(tmp, p);
+  } catch (e) {
+    await fsp.rm(tmp, { force: true }).catch(() => {});
+    throw e;
+  }
+}
+
+export async function removeMaybe(p: string): Promise<boolean> {
+  try { await fsp.rm(p, { recursive: true }); return true; } catch { return false; }
+}
+
+/** Rename, creating the destination's parent directory first. */
+export async function moveMaybe(from: string, to: string): Promise<boolean> {
+  try {
+    await fsp.mkdir(path.dirname(to), { recursive: true });
+    await fsp.rm(to, { recursive: true, force: true });
+    await fsp.rename(from, to);
+    return true;
+  } catch { return false; }
+}
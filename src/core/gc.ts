@@ -0,0 +1,268 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+import { layout } from './layout';
+import { readDirMaybe, removeMaybe, writeFileAtomic } from './fsutil';
+import { archiveContent, lockEvents, readArchive, readEventsChecked } from './events';
+import { listTrash } from './trash';
+import { backupTime } from './restore';
+import { formatSize } from './binary';
+import { PromptEvent } from '../types';
+
+/** Ages in days after which data is removed (0 keeps it forever); `maxSizeMB` 0 means no quota. */
+export type RetentionPolicy = { archiveDays: number; trashDays: number; backupDays: number; exportDays: number; maxSizeMB: number };
+
+export const DEFAULT_RETENTION: RetentionPolicy = { archiveDays: 0, trashDays: 30, backupDays: 14, exportDays: 0, maxSizeMB: 0 };
+
+export type GcKind = 'blob' | 'snapshots' | 'trash' | 'backup' | 'corrupt' | 'export' | 'archive';
+
+/** One thing collected; `path` is relative to `.promptreplay`. */
+export type GcItem = { kind: GcKind; path: string; bytes: number; reason: string };
+
+export type GcReport = {
+  dryRun: boolean;
+  items: GcItem[];
+  freed: number;
+  sizeBefore: number;
+  sizeAfter: number;
+  quota?: number;
+  notes: string[];
+  failed: string[];
+};
+
+const DAY = 86_400_000;
+// Unreferenced blobs younger than this stay: the event that will reference them may not be logged yet
+const BLOB_GRACE_MS = 3_600_000;
+
+async function sizeOf(p: string): Promise<number> {
+  let st;
+  try { st = await fsp.stat(p); } catch { return 0; }
+  if (!st.isDirectory()) return st.size;
+  let total = 0;
+  for (const e of await readDirMaybe(p)) total += await sizeOf(path.join(p, e.name));
+  return total;
+}
+
+async function mtimeOf(p: string): Promise<number> {
+  try { return (await fsp.stat(p)).mtimeMs; } catch { return 0; }
+}
+
+function hashesOf(events: PromptEvent[]): string[] {
+  return events.flatMap(ev => (ev.diffUris || []).flatMap(d => [d.leftHash, d.rightHash, d.leftRawHash, d.rightRawHash])).filter((h): h is string => !!h);
+}
+
+type Blob = { path: string; size: number; mtime: number };
+
+/**
+ * What a collection removes. Blobs are reference-counted across live events, the archive and
+ * the trash; removing a source releases its references, and blobs left without any go too.
+ */
+class Plan {
+  items: GcItem[] = [];
+  private actions: (() => Promise<void>)[] = [];
+  private taken = new Set<string>();
+  private refs = new Map<string, number>();
+
+  constructor(private dir: string, private blobs: Map<string, Blob>, private collectBlobs: boolean, private now: number) {}
+
+  get freed(): number {
+    return this.items.reduce((n, i) => n + i.bytes, 0);
+  }
+
+  has(abs: string): boolean {
+    return this.taken.has(abs);
+  }
+
+  ref(hashes: string[]) {
+    for (const h of hashes) this.refs.set(h, (this.refs.get(h) ?? 0) + 1);
+  }
+
+  /** Schedule a removal; `released` are the blob references that go with it. */
+  remove(kind: GcKind, abs: string, bytes: number, reason: string, apply: () => Promise<unknown>, released: string[] = []) {
+    this.taken.add(abs);
+    this.items.push({ kind, path: path.relative(this.dir, abs).replace(/\\/g, '/'), bytes, reason });
+    this.actions.push(async () => { await apply(); });
+    for (const h of released) this.refs.set(h, (this.refs.get(h) ?? 1) - 1);
+    this.freeBlobs(released);
+  }
+
+  freeUnreferenced() {
+    this.freeBlobs(Array.from(this.blobs.keys()));
+  }
+
+  private freeBlobs(hashes: Iterable<string>) {
+    if (!this.collectBlobs) return;
+    for (const h of hashes) {
+      const b = this.blobs.get(h);
+      if (!b || (this.refs.get(h) ?? 0) > 0 || this.now - b.mtime < BLOB_GRACE_MS) continue;
+      this.blobs.delete(h);
+      this.remove('blob', b.path, b.size, 'no event references it', () => fsp.rm(b.path, { force: true }));
+    }
+  }
+
+  async apply(): Promise<string[]> {
+    const failed: string[] = [];
+    for (const [i, act] of this.actions.entries()) {
+      try { await act(); } catch (e) { failed.push(`${this.items[i].path}: ${e instanceof Error ? e.message : String(e)}`); }
+    }
+    return failed;
+  }
+}
+
+async function listBlobs(dir: string): Promise<Map<string, Blob>> {
+  const out = new Map<string, Blob>();
+  for (const sub of await readDirMaybe(dir)) {
+    if (!sub.isDir) continue;
+    for (const f of await readDirMaybe(path.join(dir, sub.name))) {
+      if (f.isDir || f.name.endsWith('.tmp')) continue;
+      const p = path.join(dir, sub.name, f.name);
+      try {
+        const st = await fsp.stat(p);
+        out.set(f.name, { path: p, size: st.size, mtime: st.mtimeMs });
+      } catch {}
+    }
+  }
+  return out;
+}
+
+/** Files (or folders) directly inside `dir` with their age stamp, oldest first. */
+async function entries(dir: string, stampOf: (name: string, abs: string) => Promise<number>) {
+  const out: { abs: string; name: string; at: number }[] = [];
+  for (const e of await readDirMaybe(dir)) {
+    const abs = path.join(dir, e.name);
+    out.push({ abs, name: e.name, at: await stampOf(e.name, abs) });
+  }
+  return out.sort((a, b) => a.at - b.at);
+}
+
+async function plan(root: string, policy: RetentionPolicy, now: number): Promise<{ plan: Plan; sizeBefore: number; notes: string[] }> {
+  const L = layout(root);
+  const notes: string[] = [];
+  const expired = (days: number, at: number) => days > 0 && now - at > days * DAY;
+  const sizeBefore = await sizeOf(L.dir);
+
+  const live = await readEventsChecked(root);
+  const archive = await readArchive(root);
+  const trash = await listTrash(root);
+
+  // Lines that can't be read may reference blobs too; don't guess
+  const unreadable = live.bad.length + live.future.length + archive.reduce((n, a) => n + a.unreadable, 0) + trash.filter(t => !t.event).length;
+  if (unreadable) notes.push(`${unreadable} unreadable event record(s) (run repair); snapshot blobs were not collected.`);
+
+  const p = new Plan(L.dir, await listBlobs(L.blobs), !unreadable, now);
+  p.ref(hashesOf(live.events));
+  for (const a of archive) p.ref(hashesOf(a.events));
+  for (const t of trash) p.ref(hashesOf(t.event ? [t.event] : []));
+
+  // Legacy per-event snapshot folders whose event is gone everywhere
+  const known = new Set([...live.events, ...archive.flatMap(a => a.events)].map(e => e.id).concat(trash.map(t => t.id)));
+  for (const e of await readDirMaybe(L.snapshots)) {
+    const abs = path.join(L.snapshots, e.name);
+    if (e.isDir && !known.has(e.name)) p.remove('snapshots', abs, await sizeOf(abs), 'its event no longer exists', () => removeMaybe(abs));
+  }
+
+  const drop = async (kind: GcKind, abs: string, reason: string, released?: string[]) => {
+    if (!p.has(abs)) p.remove(kind, abs, await sizeOf(abs), reason, () => removeMaybe(abs), released);
+  };
+
+  const trashed = await entries(L.trash, async name => Number(name.split('-')[0]) || 0);
+  const trashHashes = new Map(trash.map(t => [t.dir, hashesOf(t.event ? [t.event] : [])]));
+  for (const t of trashed) if (expired(policy.trashDays, t.at)) await drop('trash', t.abs, `deleted more than ${policy.trashDays} day(s) ago`, trashHashes.get(t.abs));
+
+  const backups = await entries(L.restoreBackups, async name => backupTime(name));
+  for (const b of backups) if (expired(policy.backupDays, b.at)) await drop('backup', b.abs, `older than ${policy.backupDays} day(s)`);
+
+  const corrupt = await entries(L.corrupt, (_, abs) => mtimeOf(abs));
+  for (const c of corrupt) if (expired(policy.trashDays, c.at)) await drop('corrupt', c.abs, `set aside more than ${policy.trashDays} day(s) ago`);
+
+  const exportsList = await entries(L.exports, (_, abs) => mtimeOf(abs));
+  for (const x of exportsList) if (expired(policy.exportDays, x.at)) await drop('export', x.abs, `older than ${policy.exportDays} day(s)`);
+
+  // Archived events past their age; a file with unreadable lines is left alone
+  for (const a of archive) {
+    if (a.unreadable) continue;
+    const keep = a.events.filter(ev => !expired(policy.archiveDays, ev.timestamp));
+    if (keep.length === a.events.length) continue;
+    const gone = a.events.filter(ev => !keep.includes(ev));
+    const reason = `${gone.length} archived event(s) older than ${policy.archiveDays} day(s)`;
+    if (!keep.length) {
+      p.remove('archive', a.file, a.size, reason, () => fsp.rm(a.file, { force: true }), hashesOf(gone));
+    } else {
+      const content = archiveContent(a.file, keep);
+      p.remove('archive', a.file, a.size - Buffer.byteLength(content), reason, () => writeFileAtomic(a.file, content), hashesOf(gone));
+      a.events = keep;
+      a.size = Buffer.byteLength(content);
+    }
+  }
+
+  p.freeUnreferenced();
+
+  // Over quota: oldest backups, trash, set-aside lines, exports, then archive files. Live events stay.
+  if (policy.maxSizeMB > 0) {
+    const quota = policy.maxSizeMB * 1024 * 1024;
+    const reason = `over the ${policy.maxSizeMB} MB quota`;
+    const steps: (() => Promise<void>)[] = [
+      ...backups.map(b => () => drop('backup', b.abs, reason)),
+      ...trashed.map(t => () => drop('trash', t.abs, reason, trashHashes.get(t.abs))),
+      ...corrupt.map(c => () => drop('corrupt', c.abs, reason)),
+      ...exportsList.map(x => () => drop('export', x.abs, reason)),
+      // files trimmed by age above are left for the next run
+      ...archive.filter(a => !a.unreadable && !p.has(a.file)).map(a => () => drop('archive', a.file, reason, hashesOf(a.events)))
+    ];
+    for (const step of steps) {
+      if (sizeBefore - p.freed <= quota) break;
+      await step();
+    }
+    if (sizeBefore - p.freed > quota) notes.push(`still over the ${policy.maxSizeMB} MB quota: live events and the snapshots they use are never removed.`);
+  }
+
+  return { plan: p, sizeBefore, notes };
+}
+
+/**
+ * Apply a retention policy to the store. With `dryRun` nothing is removed and the report says
+ * what would be freed. A real run holds the events lock, so nothing is logged meanwhile.
+ */
+export async function collectGarbage(
+  root: string, policy: RetentionPolicy, opts: { dryRun?: boolean; now?: number } = {}
+): Promise<GcReport> {
+  const now = opts.now ?? Date.now();
+  const quota = policy.maxSizeMB > 0 ? policy.maxSizeMB * 1024 * 1024 : undefined;
+  if (opts.dryRun) {
+    const { plan: p, sizeBefore, notes } = await plan(root, policy, now);
+    return { dryRun: true, items: p.items, freed: p.freed, sizeBefore, sizeAfter: sizeBefore - p.freed, quota, notes, failed: [] };
+  }
+  return lockEvents(root, async () => {
+    const { plan: p, sizeBefore, notes } = await plan(root, policy, now);
+    const failed = await p.apply();
+    return { dryRun: false, items: p.items, freed: p.freed, sizeBefore, sizeAfter: await sizeOf(layout(root).dir), quota, notes, failed };
+  });
+}
+
+const KIND_LABELS: Record<GcKind, string> = {
+  blob: 'unreferenced snapshot blobs',
+  snapshots: 'orphaned snapshot folders',
+  trash: 'trashed events',
+  backup: 'restore backups',
+  corrupt: 'set-aside unreadable lines',
+  export: 'exports',
+  archive: 'archive files'
+};
+
+/** Plain-text report: totals per kind, then every item except individual blobs. */
+export function gcReportLines(r: GcReport): string[] {
+  const verb = r.dryRun ? 'Would free' : 'Freed';
+  const out = [
+    `${verb} ${formatSize(r.freed)} (${r.items.length} item(s)); store size ${formatSize(r.sizeBefore)} → ${formatSize(r.sizeAfter)}` +
+      (r.quota ? `, quota ${formatSize(r.quota)}` : '')
+  ];
+  for (const kind of Object.keys(KIND_LABELS) as GcKind[]) {
+    const items = r.items.filter(i => i.kind === kind);
+    if (!items.length) continue;
+    out.push('', `${KIND_LABELS[kind]}: ${items.length}, ${formatSize(items.reduce((n, i) => n + i.bytes, 0))}`);
+    if (kind !== 'blob') for (const i of items) out.push(`  ${i.path}  ${formatSize(i.bytes)}  (${i.reason})`);
+  }
+  for (const n of r.notes) out.push('', `Note: ${n}`);
+  for (const f of r.failed) out.push('', `Failed: ${f}`);
+  return out;
+}
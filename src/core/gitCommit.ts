@@ -0,0 +1,122 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+import * as os from 'os';
+import { spawn } from 'node:child_process';
+
+import { readOriginalSnapshot, snapshotMasked } from './blobs';
+import { DiffEntry } from './events';
+import { eventCommitMessage } from './patch';
+import { PromptEvent } from '../types';
+
+export const DEFAULT_NOTES_REF = 'refs/notes/prompt-replay';
+
+/** Run git, optionally feeding `input` on stdin; rejects with git's stderr on a non-zero exit. */
+function git(cwd: string, args: string[], opts: { input?: Uint8Array; env?: NodeJS.ProcessEnv } = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, { cwd, env: { ...process.env, ...opts.env } });
+    const out: Buffer[] = [], err: Buffer[] = [];
+    child.stdout.on('data', d => out.push(d));
+    child.stderr.on('data', d => err.push(d));
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) resolve(Buffer.concat(out).toString('utf8').trim());
+      else reject(new Error(`git ${args[0]} failed: ${Buffer.concat(err).toString('utf8').trim() || `exit ${code}`}`));
+    });
+    child.stdin.on('error', () => {}); // git may exit before reading stdin; the exit code decides
+    if (opts.input) child.stdin.end(opts.input);
+    else child.stdin.end();
+  });
+}
+
+async function tryGit(cwd: string, args: string[]): Promise<string | undefined> {
+  try { return await git(cwd, args); } catch { return undefined; }
+}
+
+/** Full commit message for an event: prompt subject/body, then the Prompt-Replay trailers. */
+export function eventCommitText(ev: PromptEvent): string {
+  const { subject, body, trailers } = eventCommitMessage(ev);
+  return [subject, body, trailers.join('\n')].filter(Boolean).join('\n\n') + '\n';
+}
+
+// oldRel: rename source, relative to the repository top level
+type RepoFiles = { top: string; entries: { rel: string; oldRel?: string; d: DiffEntry }[] };
+
+/** Group an event's files by the repository (top level) they belong to. */
+async function filesByRepo(root: string, ev: PromptEvent): Promise<Map<string, RepoFiles>> {
+  const repos = new Map<string, RepoFiles>();
+  for (const d of ev.diffUris || []) {
+    const base = d.repoRoot || root;
+    const top = await tryGit(base, ['rev-parse', '--show-toplevel']);
+    if (!top) throw new Error(`not a git repository: ${base}`);
+    const relTo = (p: string) => path.relative(top, path.join(base, p)).replace(/\\/g, '/');
+    const key = path.resolve(top);
+    if (!repos.has(key)) repos.set(key, { top: key, entries: [] });
+    repos.get(key)!.entries.push({ rel: relTo(d.path), oldRel: d.oldPath ? relTo(d.oldPath) : undefined, d });
+  }
+  return repos;
+}
+
+/**
+ * Commit exactly the event's after snapshots of its files on top of HEAD, without touching other
+ * staged or unstaged work. The commit is built in a temporary index; afterwards the real index is
+ * reset for the committed paths only, so they don't show up as staged reverts.
+ */
+async function commitInRepo(root: string, ev: PromptEvent, repo: RepoFiles, message: string): Promise<string> {
+  const head = await tryGit(repo.top, ['rev-parse', '--verify', '-q', 'HEAD']);
+  const tmpIndex = path.join(os.tmpdir(), `prompt-replay-commit-${process.pid}-${Date.now()}`);
+  const env = { GIT_INDEX_FILE: tmpIndex };
+  try {
+    if (head) await git(repo.top, ['read-tree', head], { env });
+
+    for (const { rel, oldRel, d } of repo.entries) {
+      if (oldRel) await git(repo.top, ['update-index', '--force-remove', '--', oldRel], { env });
+      if (d.op === 'deleted') {
+        await git(repo.top, ['update-index', '--force-remove', '--', rel], { env });
+        continue;
+      }
+      // the unmasked bytes: a masked blob in HEAD would differ from the working tree
+      if (snapshotMasked(ev, d, 'after')) throw new Error(`the after snapshot of ${rel} was only kept with secrets masked; not committing it`);
+      const bytes = await readOriginalSnapshot(root, ev, d, 'after');
+      if (bytes === undefined) throw new Error(`after snapshot missing for ${rel}`);
+      const blob = await git(repo.top, ['hash-object', '-w', '--stdin'], { input: bytes });
+      const lsTree = head ? await tryGit(repo.top, ['ls-tree', head, '--', oldRel ?? rel]) : undefined;
+      const mode = lsTree?.split(/\s/)[0] || '100644';
+      await git(repo.top, ['update-index', '--add', '--cacheinfo', `${mode},${blob},${rel}`], { env });
+    }
+
+    const tree = await git(repo.top, ['write-tree'], { env });
+    const commit = await git(repo.top, ['commit-tree', tree, ...(head ? ['-p', head] : []), '-F', '-'], { input: Buffer.from(message, 'utf8') });
+    await git(repo.top, ['update-ref', '-m', `prompt-replay: ${ev.id}`, 'HEAD', commit, ...(head ? [head] : [])]);
+    await tryGit(repo.top, ['reset', '-q', commit, '--', ...repo.entries.flatMap(e => e.oldRel ? [e.rel, e.oldRel] : [e.rel])]);
+    return commit;
+  } finally {
+    await fsp.rm(tmpIndex, { force: true }).catch(() => {});
+  }
+}
+
+/**
+ * Create one commit per repository holding the event's files, with the prompt as message and
+ * Prompt-Replay trailers, and attach the full event as a git note under `notesRef`.
+ * Sets `ev.afterRef` (commit in the store's repository) and `ev.commits`; returns the commits.
+ */
+export async function commitEvent(root: string, ev: PromptEvent, notesRef = DEFAULT_NOTES_REF): Promise<Record<string, string>> {
+  const repos = await filesByRepo(root, ev);
+  if (repos.size === 0) throw new Error('event has no files to commit');
+
+  const message = eventCommitText(ev);
+  const commits: Record<string, string> = {};
+  for (const repo of repos.values()) {
+    commits[repo.top] = await commitInRepo(root, ev, repo, message);
+  }
+
+  const rootTop = await tryGit(root, ['rev-parse', '--show-toplevel']);
+  ev.commits = commits;
+  ev.afterRef = (rootTop && commits[path.resolve(rootTop)]) || Object.values(commits)[0];
+
+  // Notes are written last so they carry the final afterRef/commits
+  const note = Buffer.from(JSON.stringify(ev, null, 2) + '\n', 'utf8');
+  for (const [top, commit] of Object.entries(commits)) {
+    await git(top, ['notes', '--ref', notesRef, 'add', '-f', '-F', '-', commit], { input: note });
+  }
+  return commits;
+}
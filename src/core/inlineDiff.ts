@@ -0,0 +1,114 @@
+import * as path from 'path';
+
+import { readSnapshot } from './blobs';
+import { DiffEntry, entryLabel } from './events';
+import { describeBinaryChange, formatSize, isBinary } from './binary';
+import { Hunk, Span, diffHunks, hunkHeader, wordChanges } from '../diff';
+import { FileOp, PromptEvent } from '../types';
+
+/** One diff line; `a`/`b` are 1-based line numbers on the before/after side, `marks` the changed words. */
+export type InlineLine = { t: ' ' | '+' | '-'; s: string; a?: number; b?: number; marks?: Span[] };
+export type InlineHunk = { header: string; lines: InlineLine[] };
+
+/** Everything the timeline needs to draw one file of an event inline. */
+export type InlineFileDiff = {
+  label: string;
+  op: FileOp;
+  oldPath?: string;
+  /** File extension without the dot, used to pick a highlighter. */
+  lang: string;
+  added: number;
+  removed: number;
+  hunks: InlineHunk[];
+  /** Shown instead of (or after) the hunks: binary change, missing snapshot, size limits. */
+  note?: string;
+};
+
+/** Larger snapshots are left to the editor's diff. */
+const MAX_BYTES = 1024 * 1024;
+/** Lines drawn per file; the rest is summarized. */
+const MAX_LINES = 3000;
+
+function toLines(bytes: Uint8Array | undefined): string[] {
+  if (!bytes || bytes.length === 0) return [];
+  const lines = Buffer.from(bytes).toString('utf8').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/** Line numbers, plus word marks for each removed line paired with the added line at the same position. */
+function annotate(h: Hunk): InlineLine[] {
+  let a = h.aStart, b = h.bStart;
+  const lines: InlineLine[] = h.lines.map(l => ({
+    t: l.t,
+    s: l.s.replace(/\r$/, ''),
+    a: l.t === '+' ? undefined : a++,
+    b: l.t === '-' ? undefined : b++
+  }));
+  for (let i = 0; i < lines.length;) {
+    if (lines[i].t !== '-') { i++; continue; }
+    let j = i;
+    while (j < lines.length && lines[j].t === '-') j++;
+    let k = j;
+    while (k < lines.length && lines[k].t === '+') k++;
+    for (let n = 0; n < Math.min(j - i, k - j); n++) {
+      const del = lines[i + n], add = lines[j + n];
+      const w = wordChanges(del.s, add.s);
+      del.marks = w.a;
+      add.marks = w.b;
+    }
+    i = k;
+  }
+  return lines;
+}
+
+/** Hunks of one file entry, read from the event's snapshots. */
+export async function inlineFileDiff(root: string, d: DiffEntry, context = 3): Promise<InlineFileDiff> {
+  const base: InlineFileDiff = {
+    label: entryLabel(root, d),
+    op: d.op,
+    oldPath: d.oldPath,
+    lang: path.extname(d.path).slice(1).toLowerCase(),
+    added: 0,
+    removed: 0,
+    hunks: []
+  };
+  const before = d.op === 'added' ? undefined : await readSnapshot(root, d, 'before');
+  const after = d.op === 'deleted' ? undefined : await readSnapshot(root, d, 'after');
+  if (d.binary || isBinary(before) || isBinary(after)) {
+    return { ...base, note: describeBinaryChange(
+      d.op === 'added' ? undefined : { size: before?.length ?? d.leftSize, hash: d.leftHash },
+      d.op === 'deleted' ? undefined : { size: after?.length ?? d.rightSize, hash: d.rightHash }
+    ) };
+  }
+  const missing = [d.op !== 'added' && !before ? 'BEFORE' : '', d.op !== 'deleted' && !after ? 'AFTER' : ''].filter(Boolean);
+  if ((before?.length ?? 0) > MAX_BYTES || (after?.length ?? 0) > MAX_BYTES) {
+    return { ...base, note: `too large to show inline (${formatSize(Math.max(before?.length ?? 0, after?.length ?? 0))}); use View Diff` };
+  }
+
+  const out: InlineFileDiff = { ...base };
+  let shown = 0, hidden = 0;
+  for (const h of diffHunks(toLines(before), toLines(after), context)) {
+    for (const l of h.lines) {
+      if (l.t === '+') out.added++;
+      else if (l.t === '-') out.removed++;
+    }
+    if (shown + h.lines.length > MAX_LINES) { hidden += h.lines.length; continue; }
+    shown += h.lines.length;
+    out.hunks.push({ header: hunkHeader(h), lines: annotate(h) });
+  }
+  const notes = [
+    missing.length ? `${missing.join(' and ')} snapshot missing; shown as empty` : '',
+    hidden ? `${hidden} more diff line(s) not shown; use View Diff` : '',
+    !out.hunks.length && !hidden && !missing.length ? (d.op === 'renamed' ? 'renamed without changes' : 'no changes') : ''
+  ].filter(Boolean);
+  if (notes.length) out.note = notes.join('; ');
+  return out;
+}
+
+/** Inline diffs of every file of an event, in the event's order. */
+export async function eventInlineDiffs(root: string, ev: PromptEvent, context = 3): Promise<InlineFileDiff[]> {
+  const files: InlineFileDiff[] = [];
+  for (const d of ev.diffUris || []) files.push(await inlineFileDiff(root, d, context));
+  return files;
+}
@@ -0,0 +1,134 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+import { readSnapshot } from './blobs';
+import { entryLabel, entryTarget } from './events';
+import { isBinary } from './binary';
+import { fileHistory, attributeText } from './provenance';
+import { buildUnifiedDiff, countDiff } from '../diff';
+import { PromptEvent } from '../types';
+
+const execFileAsync = promisify(execFile);
+
+/** What "still present" is measured against. */
+export type SurvivalSource = 'working' | 'head';
+
+type Counts = { events: number; added: number; removed: number };
+
+export type Insights = {
+  source: SurvivalSource;
+  totals: Counts & { files: number; surviving: number; survivalRate: number };
+  perDay: ({ day: string } & Counts)[];
+  perEvent: { id: string; prompt: string; timestamp: number; tags: string[]; files: number; added: number; removed: number; surviving: number }[];
+  perTag: ({ tag: string; surviving: number; survivalRate: number } & Counts)[];
+  perFile: ({ file: string; surviving: number } & Counts)[];
+};
+
+function dayOf(ts: number): string {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+async function readCurrent(target: string, source: SurvivalSource): Promise<string | undefined> {
+  try {
+    if (source === 'working') return await fsp.readFile(target, 'utf8');
+    // `HEAD:./name` resolves relative to cwd, so no need to find the repository root
+    const { stdout } = await execFileAsync('git', ['show', `HEAD:./${path.basename(target)}`], { cwd: path.dirname(target), maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+  } catch {
+    return undefined;
+  }
+}
+
+function rate(part: number, whole: number): number {
+  return whole ? part / whole : 0;
+}
+
+/**
+ * Aggregate the event log: +/− lines per event, day, tag and file (same counting as the diff
+ * views), and survival — how many AI-added lines are still attributed to their event in the
+ * working tree (or HEAD), following lines through later events and user edits.
+ */
+export async function computeInsights(root: string, events: PromptEvent[], source: SurvivalSource = 'working'): Promise<Insights> {
+  const perEvent = new Map<string, Insights['perEvent'][number]>();
+  const perDay = new Map<string, Counts>();
+  const perTag = new Map<string, Counts & { surviving: number }>();
+  const perFile = new Map<string, Counts & { surviving: number }>();
+  const targets = new Map<string, string>(); // absolute path -> label used in perFile
+  const bump = <T extends Counts>(m: Map<string, T>, key: string, init: () => T, added: number, removed: number) => {
+    const c = m.get(key) ?? init();
+    c.added += added; c.removed += removed;
+    m.set(key, c);
+    return c;
+  };
+
+  const sorted = events.slice().sort((a, b) => a.timestamp - b.timestamp);
+  for (const ev of sorted) {
+    const evRoot = ev.repoRoot || root;
+    let added = 0, removed = 0;
+    for (const d of ev.diffUris || []) {
+      const file = entryLabel(evRoot, d);
+      const target = path.resolve(entryTarget(evRoot, d));
+      if (!targets.has(target)) targets.set(target, file);
+      let a = 0, r = 0;
+      if (!d.binary) {
+        const before = await readSnapshot(evRoot, d, 'before');
+        const after = await readSnapshot(evRoot, d, 'after');
+        if (!isBinary(before) && !isBinary(after)) {
+          const c = countDiff(buildUnifiedDiff(Buffer.from(before ?? []).toString('utf8'), Buffer.from(after ?? []).toString('utf8')));
+          a = c.added; r = c.removed;
+        }
+      }
+      added += a; removed += r;
+      bump(perFile, file, () => ({ events: 0, added: 0, removed: 0, surviving: 0 }), a, r).events++;
+    }
+    perEvent.set(ev.id, {
+      id: ev.id, prompt: ev.prompt, timestamp: ev.timestamp, tags: ev.tags ?? [],
+      files: (ev.diffUris || []).length, added, removed, surviving: 0
+    });
+    bump(perDay, dayOf(ev.timestamp), () => ({ events: 0, added: 0, removed: 0 }), added, removed).events++;
+    for (const t of ev.tags ?? []) bump(perTag, t, () => ({ events: 0, added: 0, removed: 0, surviving: 0 }), added, removed).events++;
+  }
+
+  // Survival: attribute the current text of every touched file and credit the owning events
+  for (const [target, label] of targets) {
+    const text = await readCurrent(target, source);
+    if (text === undefined) continue;
+    const owners = attributeText(await fileHistory(sorted, target, root), text);
+    let owned = 0;
+    for (const id of owners) {
+      const e = id ? perEvent.get(id) : undefined;
+      if (!e) continue;
+      e.surviving++;
+      owned++;
+    }
+    const f = perFile.get(label);
+    if (f) f.surviving = owned;
+  }
+  for (const ev of sorted) {
+    const e = perEvent.get(ev.id)!;
+    for (const t of ev.tags ?? []) perTag.get(t)!.surviving += e.surviving;
+  }
+
+  const all = Array.from(perEvent.values());
+  const totalAdded = all.reduce((n, e) => n + e.added, 0);
+  const surviving = all.reduce((n, e) => n + e.surviving, 0);
+
+  return {
+    source,
+    totals: {
+      events: all.length,
+      added: totalAdded,
+      removed: all.reduce((n, e) => n + e.removed, 0),
+      files: perFile.size,
+      surviving,
+      survivalRate: rate(surviving, totalAdded)
+    },
+    perDay: Array.from(perDay, ([day, c]) => ({ day, ...c })).sort((a, b) => a.day.localeCompare(b.day)),
+    perEvent: all.sort((a, b) => b.timestamp - a.timestamp),
+    perTag: Array.from(perTag, ([tag, c]) => ({ tag, ...c, survivalRate: rate(c.surviving, c.added) })).sort((a, b) => b.events - a.events),
+    perFile: Array.from(perFile, ([file, c]) => ({ file, ...c })).sort((a, b) => b.events - a.events || b.added - a.added)
+  };
+}
@@ -0,0 +1,22 @@
+import * as path from 'path';
+
+/** On-disk layout of a `.promptreplay` directory, shared by the extension and the CLI. */
+export function layout(root: string) {
+  const dir = path.join(root, '.promptreplay');
+  return {
+    dir,
+    events: path.join(dir, 'events.jsonl'),
+    eventsLock: path.join(dir, 'events.lock'),
+    eventsCount: path.join(dir, 'events.count'), // line count of events.jsonl, so appends don't re-read it
+    archive: path.join(dir, 'archive'),   // events compacted out of events.jsonl
+    corrupt: path.join(dir, 'corrupt'),   // unreadable lines set aside by repair
+    sessions: path.join(dir, 'sessions.json'),
+    blobs: path.join(dir, 'blobs'),
+    snapshots: path.join(dir, 'snapshots'), // legacy per-event copies, migrated into blobs
+    exports: path.join(dir, 'exports'),
+    trash: path.join(dir, 'trash'),
+    restoreBackups: path.join(dir, 'restore_backups'),
+    index: path.join(dir, 'index'),
+    encryption: path.join(dir, 'encryption.json') // present when the store is encrypted
+  };
+}
@@ -0,0 +1,90 @@
+import { promises as fsp } from 'node:fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+
+export class LockTimeoutError extends Error {}
+
+type Holder = { pid?: number; host?: string; at?: number; token?: string };
+
+function alive(pid: number): boolean {
+  try { process.kill(pid, 0); return true; } catch (e) { return (e as NodeJS.ErrnoException).code === 'EPERM'; }
+}
+
+async function readMaybe(file: string): Promise<string | undefined> {
+  try { return await fsp.readFile(file, 'utf8'); } catch { return undefined; }
+}
+
+/**
+ * The lock's contents if it is stale: its process is gone (same host), or it was not touched for
+ * `staleMs` — also when it is empty or half-written, which a crashed holder leaves behind.
+ * Undefined while the lock looks live or has vanished.
+ */
+async function staleContent(lockPath: string, staleMs: number): Promise<string | undefined> {
+  let mtime: number;
+  try { mtime = (await fsp.stat(lockPath)).mtimeMs; } catch { return undefined; }
+  const content = await readMaybe(lockPath);
+  if (content === undefined) return undefined;
+  if (Date.now() - mtime > staleMs) return content;
+  let holder: Holder;
+  try { holder = JSON.parse(content); } catch { return undefined; } // the holder may still be writing it
+  return holder.host === os.hostname() && typeof holder.pid === 'number' && !alive(holder.pid) ? content : undefined;
+}
+
+/**
+ * Remove a stale lock without racing another waiter: move it aside under a unique name, and only
+ * delete it if it is still the holder that was judged stale. A lock taken meanwhile is put back.
+ */
+async function breakLock(lockPath: string, stale: string) {
+  const aside = `${lockPath}.${process.pid}-${randomBytes(4).toString('hex')}.stale`;
+  try { await fsp.rename(lockPath, aside); } catch { return; } // gone already: someone else broke it
+  if ((await readMaybe(aside)) !== stale) await fsp.link(aside, lockPath).catch(() => {});
+  await fsp.rm(aside, { force: true });
+}
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+/**
+ * Run `fn` while holding `lockPath`, a file created exclusively (O_EXCL) so that VS Code
+ * windows and CLI processes sharing a `.promptreplay` folder take turns. Not re-entrant.
+ * The lock is touched while held, so long operations are not mistaken for a crashed holder.
+ */
+export async function withLockFile<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  opts: { timeoutMs?: number; staleMs?: number } = {}
+): Promise<T> {
+  const timeoutMs = opts.timeoutMs ?? 10_000;
+  const staleMs = opts.staleMs ?? 60_000;
+  await fsp.mkdir(path.dirname(lockPath), { recursive: true });
+
+  const content = JSON.stringify({ pid: process.pid, host: os.hostname(), at: Date.now(), token: randomBytes(8).toString('hex') });
+  const deadline = Date.now() + timeoutMs;
+  for (let delay = 5; ; delay = Math.min(delay * 2, 200)) {
+    try {
+      const h = await fsp.open(lockPath, 'wx');
+      try { await h.writeFile(content); }
+      finally { await h.close(); }
+      break;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+    }
+    const stale = await staleContent(lockPath, staleMs);
+    if (stale !== undefined) { await breakLock(lockPath, stale); continue; }
+    if (Date.now() > deadline) throw new LockTimeoutError(`${path.basename(lockPath)} is held by another process; try again`);
+    await sleep(delay);
+  }
+
+  const heartbeat = setInterval(() => {
+    const now = new Date();
+    fsp.utimes(lockPath, now, now).catch(() => {});
+  }, Math.max(1000, staleMs / 4));
+  heartbeat.unref?.();
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    // only our own lock: after a long stall it may have been broken and taken by someone else
+    if ((await readMaybe(lockPath)) === content) await fsp.rm(lockPath, { force: true }).catch(() => {});
+  }
+}
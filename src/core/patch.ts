@@ -0,0 +1,222 @@
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+import { layout } from './layout';
+import { writeFileEnsuringDir } from './fsutil';
+import { readSnapshot } from './blobs';
+import { entrySource, entryTarget } from './events';
+import { isBinary } from './binary';
+import { diffHunks, hunkHeader } from '../diff';
+import { PromptEvent } from '../types';
+
+const execFileAsync = promisify(execFile);
+
+/* ---------------- Per-file git diffs ---------------- */
+
+/** Object id git would give these bytes (`git hash-object`). */
+export function gitBlobId(bytes: Uint8Array): string {
+  return createHash('sha1').update(`blob ${bytes.length}\0`).update(bytes).digest('hex');
+}
+
+/** Lines including their `\n`, so a missing newline at EOF counts as a change. */
+function splitKeepingEol(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function textHunks(before: Uint8Array, after: Uint8Array): string[] {
+  const out: string[] = [];
+  const a = splitKeepingEol(Buffer.from(before).toString('utf8'));
+  const b = splitKeepingEol(Buffer.from(after).toString('utf8'));
+  for (const h of diffHunks(a, b)) {
+    out.push(hunkHeader(h));
+    for (const l of h.lines) {
+      if (l.s.endsWith('\n')) out.push(l.t + l.s.slice(0, -1));
+      else out.push(l.t + l.s, '\\ No newline at end of file');
+    }
+  }
+  return out;
+}
+
+const B85 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz!#$%&()*+-;<=>?@^_`{|}~';
+
+/** One `literal` hunk of a GIT binary patch: zlib-deflated bytes in git's base85 lines. */
+function binaryLiteral(bytes: Uint8Array): string[] {
+  const data = deflateSync(bytes);
+  const out = [`literal ${bytes.length}`];
+  for (let off = 0; off < data.length; off += 52) {
+    const chunk = data.subarray(off, off + 52);
+    const n = chunk.length;
+    let line = n <= 26 ? String.fromCharCode(64 + n) : String.fromCharCode(96 + n - 26);
+    for (let i = 0; i < n; i += 4) {
+      let acc = 0;
+      for (let k = 0; k < 4; k++) acc = acc * 256 + (chunk[i + k] ?? 0);
+      const group = new Array<string>(5);
+      for (let k = 4; k >= 0; k--) { group[k] = B85[acc % 85]; acc = Math.floor(acc / 85); }
+      line += group.join('');
+    }
+    out.push(line);
+  }
+  out.push('');
+  return out;
+}
+
+/**
+ * `diff --git` section for one file. `before`/`after` are undefined when the file didn't exist
+ * on that side; `oldRelPath` is the rename source. Returns undefined when nothing changed.
+ */
+export function filePatch(relPath: string, before: Uint8Array | undefined, after: Uint8Array | undefined, oldRelPath?: string): string | undefined {
+  const a = before ?? new Uint8Array(), b = after ?? new Uint8Array();
+  const oldId = before ? gitBlobId(a) : '0'.repeat(40);
+  const newId = after ? gitBlobId(b) : '0'.repeat(40);
+  const p = relPath.replace(/\\/g, '/');
+  const o = (oldRelPath ?? relPath).replace(/\\/g, '/');
+  const renamed = o !== p;
+  if (before && after && oldId === newId && !renamed) return;
+
+  const binary = isBinary(a) || isBinary(b);
+  const lines = [`diff --git a/${o} b/${p}`];
+  if (!before) lines.push('new file mode 100644');
+  if (!after) lines.push('deleted file mode 100644');
+  if (renamed) {
+    if (oldId === newId) lines.push('similarity index 100%');
+    lines.push(`rename from ${o}`, `rename to ${p}`);
+    if (oldId === newId) return lines.join('\n') + '\n';
+  }
+  // binary patches need full object ids; text patches use the abbreviated form like git does
+  const ids = binary ? `${oldId}..${newId}` : `${oldId.slice(0, 7)}..${newId.slice(0, 7)}`;
+  lines.push(`index ${ids}`);
+
+  if (binary) {
+    lines.push('GIT binary patch', ...binaryLiteral(b), ...binaryLiteral(a));
+  } else {
+    lines.push(before ? `--- a/${o}` : '--- /dev/null', after ? `+++ b/${p}` : '+++ /dev/null', ...textHunks(a, b));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/* ---------------- Events as patches ---------------- */
+
+/** Path of a file relative to the store root, or undefined when it lives outside it. */
+function patchPath(root: string, abs: string): string | undefined {
+  const rel = path.relative(root, abs).replace(/\\/g, '/');
+  return rel.startsWith('..') || path.isAbsolute(rel) ? undefined : rel;
+}
+
+/** All file diffs of an event, plus the labels of files that couldn't be expressed as a patch. */
+export async function eventDiff(root: string, ev: PromptEvent): Promise<{ diff: string; omitted: string[] }> {
+  const parts: string[] = [];
+  const omitted: string[] = [];
+  for (const d of ev.diffUris || []) {
+    const rel = patchPath(root, entryTarget(root, d));
+    if (!rel) { omitted.push(`${d.repoRoot}:${d.path}`); continue; }
+    const op = d.op;
+    const before = op === 'added' ? undefined : await readSnapshot(root, d, 'before');
+    const after = op === 'deleted' ? undefined : await readSnapshot(root, d, 'after');
+    if ((op !== 'added' && before === undefined) || (op !== 'deleted' && after === undefined)) { omitted.push(rel); continue; }
+    const oldRel = d.oldPath ? patchPath(root, entrySource(root, d)) : undefined;
+    const part = filePatch(rel, before, after, oldRel);
+    if (part) parts.push(part);
+  }
+  return { diff: parts.join(''), omitted };
+}
+
+export type PatchAuthor = { name: string; email: string };
+
+/** `user.name`/`user.email` from git config at `root`, else a generic Prompt Replay identity. */
+export async function patchAuthor(root: string): Promise<PatchAuthor> {
+  const get = async (key: string) => {
+    try { return (await execFileAsync('git', ['config', key], { cwd: root })).stdout.trim(); } catch { return ''; }
+  };
+  return { name: (await get('user.name')) || 'Prompt Replay', email: (await get('user.email')) || 'prompt-replay@localhost' };
+}
+
+/**
+ * Commit subject and body for an event: first prompt line, then the rest of the prompt and the
+ * response. Trailers tie the commit back to the event.
+ */
+export function eventCommitMessage(ev: PromptEvent): { subject: string; body: string; trailers: string[] } {
+  const promptLines = (ev.prompt || '').replace(/\r/g, '').trim().split('\n');
+  const subject = promptLines[0].trim() || `Prompt Replay event ${ev.id.slice(0, 8)}`;
+  const rest = promptLines.slice(1).join('\n').trim();
+  const body = [rest, (ev.responsePreview || '').replace(/\r/g, '').trim()].filter(Boolean).join('\n\n');
+  const trailers = [
+    `Prompt-Replay-Id: ${ev.id}`,
+    ev.tags?.length ? `Prompt-Replay-Tags: ${ev.tags.join(', ')}` : '',
+    ev.sessionId ? `Prompt-Replay-Session: ${ev.sessionId}` : ''
+  ].filter(Boolean);
+  return { subject, body, trailers };
+}
+
+function rfc2822(ts: number): string {
+  const d = new Date(ts);
+  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const off = -d.getTimezoneOffset();
+  const zone = `${off >= 0 ? '+' : '-'}${pad(Math.floor(Math.abs(off) / 60))}${pad(Math.abs(off) % 60)}`;
+  return `${days[d.getDay()]}, ${d.getDate()} ${months[d.getMonth()]} ${d.getFullYear()} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())} ${zone}`;
+}
+
+/** Body lines that would end the message or start a new one in an mbox are defused. */
+function mboxSafe(text: string): string {
+  return text.split('\n').map(l => (l === '---' || l.startsWith('diff -') || l.startsWith('From ')) ? ` ${l}` : l).join('\n');
+}
+
+/**
+ * One event as a `git format-patch` style message. `git am` applies it as a commit; `git apply`
+ * skips the mail header and applies the diff.
+ */
+export async function eventPatch(root: string, ev: PromptEvent, author: PatchAuthor, index?: { n: number; of: number }): Promise<string> {
+  const { diff, omitted } = await eventDiff(root, ev);
+  const { subject, body, trailers } = eventCommitMessage(ev);
+  const tag = index && index.of > 1 ? `[PATCH ${index.n}/${index.of}]` : '[PATCH]';
+  const notes = omitted.length ? `${body ? '\n\n' : ''}Not included (outside ${path.basename(root)} or snapshot missing):\n${omitted.map(o => `  ${o}`).join('\n')}` : '';
+
+  return [
+    `From ${'0'.repeat(40)} Mon Sep 17 00:00:00 2001`,
+    `From: ${author.name} <${author.email}>`,
+    `Date: ${rfc2822(ev.timestamp)}`,
+    `Subject: ${tag} ${subject}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    mboxSafe(`${body}${notes}${body || notes ? '\n\n' : ''}${trailers.join('\n')}`),
+    '---',
+    '',
+    diff + '-- ',
+    'prompt-replay',
+    '',
+    ''
+  ].join('\n');
+}
+
+/** Several events, oldest first, as an mbox series for `git am`. */
+export async function eventsMbox(root: string, events: PromptEvent[]): Promise<string> {
+  const ordered = events.slice().sort((a, b) => a.timestamp - b.timestamp);
+  const author = await patchAuthor(root);
+  const parts: string[] = [];
+  for (let i = 0; i < ordered.length; i++) {
+    parts.push(await eventPatch(root, ordered[i], author, { n: i + 1, of: ordered.length }));
+  }
+  return parts.join('');
+}
+
+/** Write `exports/event-<id>.patch` and return its path. */
+export async function writeEventPatch(root: string, ev: PromptEvent): Promise<string> {
+  const text = await eventPatch(root, ev, await patchAuthor(root));
+  const out = path.join(layout(root).exports, `event-${ev.id}.patch`);
+  await writeFileEnsuringDir(out, Buffer.from(text, 'utf8'));
+  return out;
+}
+
+/** Write `exports/<name>.mbox` for a series of events and return its path. */
+export async function writeEventsMbox(root: string, events: PromptEvent[], name: string): Promise<string> {
+  const text = await eventsMbox(root, events);
+  const out = path.join(layout(root).exports, `${name}.mbox`);
+  await writeFileEnsuringDir(out, Buffer.from(text, 'utf8'));
+  return out;
+}
@@ -0,0 +1,70 @@
+import * as path from 'path';
+
+import { readSnapshot } from './blobs';
+import { entrySource, entryTarget } from './events';
+import { isBinary } from './binary';
+import { matchLines } from '../diff';
+import { PromptEvent } from '../types';
+
+/** Lines of a file together with the id of the event that introduced each one (undefined: not from a prompt). */
+export type AttributedLines = { lines: string[]; owners: (string | undefined)[] };
+
+/** Lines of a text; the empty string after a final newline is not a line. */
+export function splitLines(text: string): string[] {
+  if (!text) return [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+function toLines(bytes: Uint8Array | undefined): string[] {
+  return bytes ? splitLines(Buffer.from(bytes).toString('utf8')) : [];
+}
+
+/** Carry owners from `from` onto `to`: matched lines keep theirs, the rest get `fresh`. */
+function carry(from: AttributedLines, to: string[], fresh: string | undefined): AttributedLines {
+  const match = matchLines(from.lines, to);
+  const owners: (string | undefined)[] = new Array(to.length).fill(fresh);
+  match.forEach((j, i) => { if (j >= 0) owners[j] = from.owners[i]; });
+  return { lines: to, owners };
+}
+
+/** Events touching `target` (absolute path), oldest first, with the matching file entry. */
+export function eventsTouching(events: PromptEvent[], target: string, fallbackRoot: string) {
+  const norm = path.resolve(target);
+  const out: { ev: PromptEvent; root: string; entry: PromptEvent['diffUris'][number] }[] = [];
+  for (const ev of events) {
+    const root = ev.repoRoot || fallbackRoot;
+    const entry = (ev.diffUris || []).find(d => path.resolve(entryTarget(root, d)) === norm);
+    if (entry) out.push({ ev, root, entry });
+  }
+  return out.sort((a, b) => a.ev.timestamp - b.ev.timestamp);
+}
+
+/**
+ * Replay the history of one file through the event log: lines an event added are owned by it;
+ * lines survive later events and user edits as long as the line diff keeps matching them.
+ * Returns the state after the newest event (map it onto the current text with `attributeText`).
+ */
+export async function fileHistory(events: PromptEvent[], target: string, fallbackRoot: string): Promise<AttributedLines> {
+  let state: AttributedLines = { lines: [], owners: [] };
+  for (const { ev, root, entry } of eventsTouching(events, target, fallbackRoot)) {
+    if (entry.binary) { state = { lines: [], owners: [] }; continue; }
+    const op = entry.op;
+    // a renamed file continues the history of its source up to this event
+    if (op === 'renamed') state = await fileHistory(events.filter(e => e.timestamp < ev.timestamp), entrySource(root, entry), fallbackRoot);
+    const before = op === 'added' ? undefined : await readSnapshot(root, entry, 'before');
+    const after = op === 'deleted' ? undefined : await readSnapshot(root, entry, 'after');
+    if (isBinary(before) || isBinary(after)) { state = { lines: [], owners: [] }; continue; }
+
+    // edits between the previous event and this one's before side belong to nobody
+    state = carry(state, toLines(before), undefined);
+    state = carry(state, toLines(after), ev.id);
+  }
+  return state;
+}
+
+/** Owners of the lines of `text` (the file as it is now), given the file's history. */
+export function attributeText(history: AttributedLines, text: string): (string | undefined)[] {
+  return carry(history, splitLines(text), undefined).owners;
+}
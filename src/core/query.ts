@@ -0,0 +1,97 @@
+import * as path from 'path';
+
+import { entryLabel } from './events';
+import { PromptEvent } from '../types';
+
+/*
+ * Timeline query syntax. Terms are ANDed; a leading `-` negates a term.
+ *   tag:refactor   file:src/**\/*.ts   op:deleted   session:<id>   id:<prefix>
+ *   after:2026-09-01   before:2026-10-01       (local dates; `before` is exclusive)
+ *   word   "exact phrase"   /regex/flags       (prompt, response, files, tags and diff content)
+ */
+
+export class QueryError extends Error {}
+
+export type Term = { neg: boolean } & (
+  | { kind: 'tag' | 'op' | 'session' | 'id'; value: string }
+  | { kind: 'file'; re: RegExp; basename: boolean }
+  | { kind: 'after' | 'before'; time: number }
+  | { kind: 'text'; value: string }
+  | { kind: 'regex'; re: RegExp }
+);
+
+const KEYS = new Set(['tag', 'file', 'op', 'session', 'id', 'after', 'before']);
+const OPS = new Set(['added', 'modified', 'deleted', 'renamed']);
+
+/** `**` spans directories, `*` and `?` stay within one path segment. */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') { re += '(?:.*/)?'; i += 2; } else { re += '.*'; i++; }
+    } else if (c === '*') re += '[^/]*';
+    else if (c === '?') re += '[^/]';
+    else re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${re}$`, 'i');
+}
+
+function parseDate(key: string, s: string): number {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
+  const t = m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])).getTime() : Date.parse(s);
+  if (Number.isNaN(t)) throw new QueryError(`${key}: expects a date like 2026-09-01, got “${s}”`);
+  return t;
+}
+
+export function parseQuery(q: string): Term[] {
+  const terms: Term[] = [];
+  const re = /(-?)(?:([a-z]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|\/((?:\\.|[^/\\])+)\/([a-z]*)|(\S+))/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(q || ''))) {
+    const neg = m[1] === '-';
+    const [key, quoted, bare, phrase, regex, flags, word] = [m[2]?.toLowerCase(), m[3], m[4], m[5], m[6], m[7], m[8]];
+
+    if (key && KEYS.has(key)) {
+      const value = quoted ?? bare ?? '';
+      if (key === 'after' || key === 'before') terms.push({ neg, kind: key, time: parseDate(key, value) });
+      else if (key === 'file') terms.push({ neg, kind: 'file', re: globToRegExp(value.replace(/\\/g, '/')), basename: !value.includes('/') });
+      else if (key === 'op') {
+        if (!OPS.has(value)) throw new QueryError(`op: expects added, modified, deleted or renamed, got “${value}”`);
+        terms.push({ neg, kind: 'op', value });
+      } else terms.push({ neg, kind: key as 'tag' | 'session' | 'id', value });
+    } else if (key) {
+      terms.push({ neg, kind: 'text', value: m[0].slice(neg ? 1 : 0) }); // e.g. a URL or "foo:bar"
+    } else if (phrase !== undefined) {
+      if (phrase) terms.push({ neg, kind: 'text', value: phrase });
+    } else if (regex !== undefined) {
+      try { terms.push({ neg, kind: 'regex', re: new RegExp(regex, flags) }); }
+      catch (e) { throw new QueryError(`invalid regex /${regex}/: ${e instanceof Error ? e.message : String(e)}`); }
+    } else if (word) {
+      terms.push({ neg, kind: 'text', value: word });
+    }
+  }
+  return terms;
+}
+
+/** Does an event pass the structured (non-text) terms? Text terms are checked against the index. */
+export function matchesFilters(ev: PromptEvent, terms: Term[], root: string): boolean {
+  for (const t of terms) {
+    let hit: boolean;
+    switch (t.kind) {
+      case 'tag': hit = (ev.tags ?? []).some(x => x.toLowerCase() === t.value.toLowerCase()); break;
+      case 'session': hit = !!ev.sessionId && ev.sessionId.startsWith(t.value); break;
+      case 'id': hit = ev.id.startsWith(t.value); break;
+      case 'after': hit = ev.timestamp >= t.time; break;
+      case 'before': hit = ev.timestamp < t.time; break;
+      case 'op': hit = (ev.diffUris || []).some(d => d.op === t.value); break;
+      case 'file': hit = (ev.diffUris || []).some(d =>
+        // the label of entries from other repositories is `<repo>:<path>`, so also try the bare path
+        [entryLabel(ev.repoRoot || root, d), d.path, ...(d.oldPath ? [d.oldPath] : [])].some(p => t.re.test(t.basename ? path.posix.basename(p) : p))
+      ); break;
+      default: continue;
+    }
+    if (hit === t.neg) return false;
+  }
+  return true;
+}
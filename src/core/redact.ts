@@ -0,0 +1,128 @@
+import { isBinary } from './binary';
+import { Redaction } from '../types';
+
+/** A detector; when the pattern has a `secret` named group only that part is masked. */
+export type RedactionRule = { id: string; pattern: RegExp };
+
+/** User rules as written in settings (`promptReplay.redaction.rules`). */
+export type CustomRule = { name: string; pattern: string; flags?: string };
+
+export const BUILTIN_RULES: RedactionRule[] = [
+  { id: 'private-key', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+  { id: 'aws-access-key', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  { id: 'aws-secret-key', pattern: /aws.{0,20}?(?:secret|key).{0,20}?[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi },
+  { id: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { id: 'slack-token', pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g },
+  { id: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { id: 'api-key', pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}\b/g },
+  { id: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{5,}/g },
+  { id: 'url-credentials', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?<secret>[^\s@/]+)@/gi },
+  { id: 'password-assignment', pattern: /\b(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key)["']?\s*[:=]\s*["'](?<secret>[^"'\s]{8,})["']/gi },
+  { id: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}\b/g }
+];
+
+const mask = (id: string) => `[REDACTED:${id}]`;
+
+function entropy(s: string): number {
+  const counts = new Map<string, number>();
+  for (const c of s) counts.set(c, (counts.get(c) ?? 0) + 1);
+  let h = 0;
+  for (const n of counts.values()) h -= (n / s.length) * Math.log2(n / s.length);
+  return h;
+}
+
+/** Long random-looking tokens: mixed case and digits, high Shannon entropy. Hex digests don't qualify. */
+function looksRandom(token: string): boolean {
+  return token.length >= 24 && /[a-z]/.test(token) && /[A-Z]/.test(token) && /[0-9]/.test(token) && entropy(token) >= 4.2;
+}
+
+/**
+ * Random-looking but not secret: subresource-integrity digests (`sha512-…`), values of
+ * integrity/sha/hash/checksum/digest fields (lockfiles) and base64 `data:` URIs. `before` is the
+ * text just ahead of the token.
+ */
+function isDigestOrData(token: string, before: string): boolean {
+  return /^sha(?:1|256|384|512)-/i.test(token)
+    || /(?:integrity|sha\d*|hash|checksum|digest)["']?\s*[:=]\s*["']?$/i.test(before)
+    || /\bdata:[\w.+-]+\/[\w.+-]+(?:;[\w.+-]+=[\w.+-]+)*;base64,$/i.test(before);
+}
+
+/**
+ * Masks secrets and personal data in text and keeps a per-target count of what it masked, for
+ * the event's redaction report. One redactor is used per event.
+ */
+export class Redactor {
+  private found = new Map<string, Redaction>();
+
+  constructor(private rules: RedactionRule[], private entropyCheck = false) {}
+
+  /**
+   * Built-in detectors minus `disabled`, plus valid custom rules; `errors` lists rules that don't compile.
+   * The high-entropy check also catches generated ids and long identifiers, so it is only on when asked for.
+   */
+  static create(disabled: string[] = [], custom: CustomRule[] = [], highEntropy = false): { redactor: Redactor; errors: string[] } {
+    const errors: string[] = [];
+    const rules = BUILTIN_RULES.filter(r => !disabled.includes(r.id));
+    for (const c of custom) {
+      try {
+        const flags = Array.from(new Set(((c.flags ?? '') + 'g').split(''))).join('');
+        rules.push({ id: c.name || 'custom', pattern: new RegExp(c.pattern, flags) });
+      } catch (e) {
+        errors.push(`${c.name || c.pattern}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    return { redactor: new Redactor(rules, highEntropy), errors };
+  }
+
+  private count(target: string, rule: string) {
+    const key = `${target}\0${rule}`;
+    const r = this.found.get(key) ?? { target, rule, count: 0 };
+    r.count++;
+    this.found.set(key, r);
+  }
+
+  /** `text` with every detected secret replaced by `[REDACTED:<rule>]`. */
+  text(text: string, target: string): string {
+    let out = text;
+    for (const rule of this.rules) {
+      rule.pattern.lastIndex = 0;
+      out = out.replace(rule.pattern, (match: string, ...rest: any[]) => {
+        const groups = typeof rest[rest.length - 1] === 'object' ? rest[rest.length - 1] : undefined;
+        if (!match) return match;
+        this.count(target, rule.id);
+        const secret: string | undefined = groups?.secret;
+        return secret ? match.replace(secret, mask(rule.id)) : mask(rule.id);
+      });
+    }
+    if (this.entropyCheck) {
+      out = out.replace(/[A-Za-z0-9+/_=-]{24,}/g, (token: string, offset: number, whole: string) => {
+        if (!looksRandom(token) || isDigestOrData(token, whole.slice(Math.max(0, offset - 80), offset))) return token;
+        this.count(target, 'high-entropy');
+        return mask('high-entropy');
+      });
+    }
+    return out;
+  }
+
+  /** Redact file contents; binary data is returned as is. */
+  bytes(bytes: Uint8Array, target: string): Uint8Array;
+  bytes(bytes: Uint8Array | undefined, target: string): Uint8Array | undefined;
+  bytes(bytes: Uint8Array | undefined, target: string): Uint8Array | undefined {
+    if (!bytes || isBinary(bytes)) return bytes;
+    const text = Buffer.from(bytes).toString('utf8');
+    const redacted = this.text(text, target);
+    return redacted === text ? bytes : Buffer.from(redacted, 'utf8');
+  }
+
+  /** What was masked so far, by target and rule. */
+  report(): Redaction[] {
+    return Array.from(this.found.values());
+  }
+}
+
+/** One-line summary of a redaction report, e.g. "prompt: 1× api-key; .env (after): 2× aws-access-key". */
+export function describeRedactions(rs: Redaction[]): string {
+  const byTarget = new Map<string, string[]>();
+  for (const r of rs) byTarget.set(r.target, [...(byTarget.get(r.target) ?? []), `${r.count}× ${r.rule}`]);
+  return Array.from(byTarget, ([target, parts]) => `${target}: ${parts.join(', ')}`).join('; ');
+}
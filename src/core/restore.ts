@@ -0,0 +1,369 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+import { layout } from './layout';
+import { readDirMaybe, readMaybe, removeMaybe, writeFileAtomic } from './fsutil';
+import { hashBytes, readOriginalSnapshot, snapshotMasked } from './blobs';
+import { isBinary } from './binary';
+import { DiffEntry, entrySource, entryTarget } from './events';
+import { EncryptionError, readStoreFile, writeStoreFile } from './vault';
+import { buildUnifiedDiff } from '../diff';
+import { PromptEvent } from '../types';
+
+export type Side = 'before' | 'after';
+// repoRoot/backupPath are only set for files outside the store root (multi-repo events);
+// existedAfter is recorded when the restore is undone, for redo
+export type BackupEntry = { path: string; existed: boolean; repoRoot?: string; backupPath?: string; existedAfter?: boolean };
+
+/**
+ * manifest.json of a restore backup: `before/` holds the files as they were before the restore.
+ * While the restore is undone (`undoneAt`), `after/` holds what it had written, for redo.
+ * Backups written before the history existed only have the file list.
+ */
+export type RestoreManifest = { eventId?: string; side?: Side; createdAt: number; undoneAt?: number; files: BackupEntry[] };
+export type RestoreRecord = RestoreManifest & { backupId: string };
+export type RestoreSummary = { backupId: string; restored: number; deleted: number; skipped: number };
+export type FileRef = Pick<DiffEntry, 'path' | 'repoRoot'>;
+
+/* ---------------- Preview ---------------- */
+
+/**
+ * How a working copy compares with the event: it matches the `after` or `before` snapshot, has
+ * `drifted` since (edited after the event), or is `unknown` because the snapshots are missing.
+ */
+export type FileState = 'after' | 'before' | 'drifted' | 'unknown';
+
+export type PreviewFile = {
+  entry: DiffEntry;
+  state: FileState;
+  /** Restoring writes nothing: the working copy already is the requested side. */
+  upToDate: boolean;
+  /** The requested side's snapshot is gone from the store (or `masked`), so the file would be skipped. */
+  missing: boolean;
+  /** Only a copy with secrets masked exists for the requested side; restoring it would write the masks. */
+  masked: boolean;
+  binary: boolean;
+  /** Drifted text files: working copy → restored content. Lines marked `-` are lost by restoring. */
+  lost?: string[];
+};
+
+export type RestorePreview = { side: Side; files: PreviewFile[] };
+
+function sameBytes(a: Uint8Array | undefined, b: Uint8Array | undefined): boolean {
+  return a === undefined ? b === undefined : b !== undefined && Buffer.compare(a, b) === 0;
+}
+
+function entryMatches(ref: FileRef, d: DiffEntry): boolean {
+  return d.path === ref.path && (d.repoRoot || '') === (ref.repoRoot || '');
+}
+
+/**
+ * Content of one side as it should be on disk: undefined for an absent file, null when the
+ * snapshot is missing or only masked.
+ */
+async function sideContent(root: string, ev: PromptEvent, d: DiffEntry, side: Side): Promise<Uint8Array | undefined | null> {
+  if ((side === 'after' && d.op === 'deleted') || (side === 'before' && d.op === 'added')) return undefined;
+  return (await readOriginalSnapshot(root, ev, d, side)) ?? null;
+}
+
+/** Compare the working copies of an event's files (or just `only`) with its snapshots, without writing. */
+export async function previewRestore(root: string, ev: PromptEvent, side: Side, only?: FileRef[]): Promise<RestorePreview> {
+  const files: PreviewFile[] = [];
+  for (const d of ev.diffUris || []) {
+    if (only && !only.some(o => entryMatches(o, d))) continue;
+    const renamed = d.op === 'renamed';
+    const atTarget = await readMaybe(entryTarget(root, d));
+    const atSource = renamed ? await readMaybe(entrySource(root, d)) : atTarget;
+    const snaps = { after: await sideContent(root, ev, d, 'after'), before: await sideContent(root, ev, d, 'before') };
+    // a renamed file is only at one side when the other name is gone
+    const at = (s: Side) => snaps[s] !== null && (s === 'after'
+      ? sameBytes(atTarget, snaps.after!) && (!renamed || atSource === undefined)
+      : sameBytes(atSource, snaps.before!) && (!renamed || atTarget === undefined));
+
+    const other: Side = side === 'after' ? 'before' : 'after';
+    const state: FileState = at(side) ? side : at(other) ? other : snaps.after === null && snaps.before === null ? 'unknown' : 'drifted';
+    const wanted = snaps[side];
+    const current = side === 'after' ? atTarget : atSource;
+    const binary = !!d.binary || isBinary(current) || (wanted ? isBinary(wanted) : false);
+    const masked = wanted === null && snapshotMasked(ev, d, side);
+    const file: PreviewFile = { entry: d, state, upToDate: state === side, missing: wanted === null, masked, binary };
+    if (state === 'drifted' && current !== undefined && !binary && wanted !== null) {
+      file.lost = buildUnifiedDiff(Buffer.from(current).toString('utf8'), wanted ? Buffer.from(wanted).toString('utf8') : '');
+    }
+    files.push(file);
+  }
+  return { side, files };
+}
+
+/** One line per state, e.g. "matches the AFTER snapshot". */
+export function describeFileState(f: PreviewFile, side: Side): string {
+  if (f.upToDate) return `already at the ${side.toUpperCase()} snapshot, nothing to do`;
+  if (f.masked) return `${side.toUpperCase()} snapshot only kept with secrets masked, will be skipped`;
+  if (f.missing) return `${side.toUpperCase()} snapshot missing, will be skipped`;
+  switch (f.state) {
+    case 'after': return 'matches the AFTER snapshot';
+    case 'before': return 'matches the BEFORE snapshot';
+    case 'unknown': return 'snapshots missing, cannot compare';
+    default: {
+      if (!f.lost) return 'drifted since the event';
+      const removed = f.lost.filter(l => l.startsWith('-')).length;
+      return `drifted since the event, ${removed} line(s) would be lost`;
+    }
+  }
+}
+
+/* ---------------- Engine ---------------- */
+
+/** A restore, undo or redo that was refused or failed. Nothing in the working tree was left changed. */
+export class RestoreError extends Error {}
+
+/** One file to write, or to remove when `bytes` is undefined. */
+export type FileWrite = { ref: FileRef; bytes: Uint8Array | undefined };
+export type WriteSummary = { written: number; removed: number; absent: number };
+
+/**
+ * Absolute path of `ref`, refusing anything that leaves its root: absolute paths, `..` segments,
+ * and symlinks (the file itself or a parent folder) that resolve outside it.
+ */
+export async function containedTarget(root: string, ref: FileRef): Promise<string> {
+  const base = path.resolve(ref.repoRoot || root);
+  const rel = ref.path.replace(/\\/g, '/');
+  if (!rel || path.isAbsolute(rel) || path.win32.isAbsolute(rel) || rel.split('/').includes('..')) {
+    throw new RestoreError(`refusing to write outside the repository: ${ref.path}`);
+  }
+  let realBase: string;
+  try { realBase = await fsp.realpath(base); }
+  catch { throw new RestoreError(`repository not found: ${base}`); }
+
+  const target = path.resolve(base, rel);
+  // the nearest part of the path that exists decides where a write really lands
+  for (let probe = target; ; probe = path.dirname(probe)) {
+    let real: string;
+    try { real = await fsp.realpath(probe); }
+    catch (e) {
+      const dangling = await fsp.lstat(probe).then(() => true, () => false);
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT' || dangling) {
+        throw new RestoreError(`cannot check ${ref.path}: ${dangling ? 'dangling symlink' : e instanceof Error ? e.message : String(e)}`);
+      }
+      continue;
+    }
+    if (real !== realBase && !real.startsWith(realBase + path.sep)) {
+      throw new RestoreError(`refusing to write through a symlink that leaves the repository: ${ref.path}`);
+    }
+    return target;
+  }
+}
+
+async function readOriginal(target: string): Promise<{ bytes: Buffer; mode: number } | undefined> {
+  try { return { bytes: await fsp.readFile(target), mode: (await fsp.stat(target)).mode & 0o7777 }; }
+  catch (e) { if ((e as NodeJS.ErrnoException).code === 'ENOENT') return undefined; throw e; }
+}
+
+async function writeKeepingMode(target: string, bytes: Uint8Array, mode: number | undefined) {
+  await writeFileAtomic(target, bytes);
+  if (mode !== undefined) await fsp.chmod(target, mode);
+}
+
+/**
+ * Apply `writes` all or nothing. Every target is checked first, files are replaced atomically
+ * (keeping their mode), and if one write fails every change made so far is reverted from the
+ * originals held in memory. Throws RestoreError.
+ */
+export async function applyWrites(root: string, writes: FileWrite[]): Promise<WriteSummary> {
+  const targets: string[] = [];
+  for (const w of writes) targets.push(await containedTarget(root, w.ref));
+
+  const done: { target: string; original?: { bytes: Buffer; mode: number } }[] = [];
+  const summary: WriteSummary = { written: 0, removed: 0, absent: 0 };
+  for (let i = 0; i < writes.length; i++) {
+    const target = targets[i], bytes = writes[i].bytes;
+    try {
+      const original = await readOriginal(target);
+      if (bytes === undefined && !original) { summary.absent++; continue; }
+      done.push({ target, original });
+      if (bytes === undefined) { await fsp.rm(target); summary.removed++; }
+      else { await writeKeepingMode(target, bytes, original?.mode); summary.written++; }
+    } catch (e) {
+      const stuck: string[] = [];
+      for (const d of done.reverse()) {
+        try {
+          if (d.original) await writeKeepingMode(d.target, d.original.bytes, d.original.mode);
+          else await fsp.rm(d.target, { force: true });
+        } catch { stuck.push(path.relative(root, d.target)); }
+      }
+      const reverted = stuck.length ? `could not revert ${stuck.join(', ')}` : 'no files were changed';
+      throw new RestoreError(`could not write ${path.relative(root, target)} (${e instanceof Error ? e.message : String(e)}); ${reverted}`);
+    }
+  }
+  return summary;
+}
+
+/* ---------------- Restore and undo ---------------- */
+
+/** Where a backup keeps its copy of a file: `before/` (pre-restore) or `after/` (what the restore wrote). */
+export function backupCopyPath(root: string, backupId: string, entry: BackupEntry, copy: 'before' | 'after'): string {
+  return path.join(layout(root).restoreBackups, backupId, copy, entry.backupPath ?? entry.path);
+}
+
+/** Copy the current contents of `entries` into `<backup>/<copy>/`; returns which files existed. */
+async function copyWorkingFiles(root: string, backupId: string, entries: BackupEntry[], copy: 'before' | 'after'): Promise<boolean[]> {
+  const targets: string[] = [];
+  for (const entry of entries) targets.push(await containedTarget(root, entry));
+  const existed: boolean[] = [];
+  for (let i = 0; i < entries.length; i++) {
+    const current = await readMaybe(targets[i]);
+    if (current !== undefined) await writeStoreFile(backupCopyPath(root, backupId, entries[i], copy), current);
+    existed.push(current !== undefined);
+  }
+  return existed;
+}
+
+async function writeManifest(root: string, backupId: string, manifest: RestoreManifest) {
+  await writeStoreFile(path.join(layout(root).restoreBackups, backupId, 'manifest.json'), JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Copy the current contents of `files` into `restore_backups/backup-<ts>-<random>/before` and write a
+ * manifest recording which files existed and, if given, the event and side being restored.
+ * Returns the backup id.
+ */
+export async function backupFiles(root: string, files: FileRef[], source?: { eventId: string; side: Side }): Promise<string> {
+  const createdAt = Date.now();
+  // two restores in the same millisecond must not share a backup
+  const backupId = `backup-${createdAt}-${randomUUID().slice(0, 8)}`;
+  const entries = files.map(f => {
+    const entry: BackupEntry = { path: f.path, existed: false };
+    if (f.repoRoot && f.repoRoot !== root) {
+      entry.repoRoot = f.repoRoot;
+      entry.backupPath = `_repos/${hashBytes(Buffer.from(f.repoRoot)).slice(0, 12)}/${f.path}`;
+    }
+    return entry;
+  });
+  for (const entry of entries) await containedTarget(root, entry);
+
+  await fsp.mkdir(path.join(layout(root).restoreBackups, backupId, 'before'), { recursive: true });
+  const existed = await copyWorkingFiles(root, backupId, entries, 'before');
+  entries.forEach((e, i) => { e.existed = existed[i]; });
+  await writeManifest(root, backupId, { ...source, createdAt, files: entries });
+  return backupId;
+}
+
+/** When a backup was taken, from its id (`backup-<ts>` or `backup-<ts>-<random>`); 0 if unknown. */
+export function backupTime(backupId: string): number {
+  return parseInt(backupId.replace(/^backup-/, ''), 10) || 0;
+}
+
+export async function readRestoreManifest(root: string, backupId: string): Promise<RestoreManifest> {
+  const raw = await readStoreFile(path.join(layout(root).restoreBackups, backupId, 'manifest.json'));
+  if (!raw) throw new Error(`backup ${backupId} not found`);
+  const parsed = JSON.parse(raw.toString('utf8'));
+  return Array.isArray(parsed) ? { createdAt: backupTime(backupId), files: parsed } : parsed;
+}
+
+/** Every restore backup, newest first. Backups whose manifest can't be read are left out. */
+export async function listRestores(root: string): Promise<RestoreRecord[]> {
+  const out: RestoreRecord[] = [];
+  for (const e of await readDirMaybe(layout(root).restoreBackups)) {
+    if (!e.isDir || !e.name.startsWith('backup-')) continue;
+    try { out.push({ backupId: e.name, ...await readRestoreManifest(root, e.name) }); }
+    catch (err) { if (err instanceof EncryptionError) throw err; }
+  }
+  return out.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Restore the files of an event (or just `only`, e.g. the ones picked in a preview) to its before
+ * or after snapshot. A backup of the current working copies is written first so the restore can
+ * be undone; if any file can't be written, none are changed.
+ */
+export async function restoreEvent(root: string, ev: PromptEvent, side: Side, only?: FileRef[]): Promise<RestoreSummary> {
+  const entries = (ev.diffUris || []).filter(d => !only || only.some(o => entryMatches(o, d)));
+  const writes: FileWrite[] = [];
+  let skipped = 0;
+  for (const d of entries) {
+    // a renamed file's before side lives at the rename source
+    const source: FileRef = { path: d.oldPath ?? d.path, repoRoot: d.repoRoot };
+    const ref = side === 'before' ? source : d;
+    // After: a deleted file is removed; Before: an added file is removed; else write the snapshot
+    if ((side === 'after' && d.op === 'deleted') || (side === 'before' && d.op === 'added')) { writes.push({ ref, bytes: undefined }); continue; }
+    // never a masked snapshot: that would write [REDACTED:…] into the file
+    const bytes = await readOriginalSnapshot(root, ev, d, side);
+    if (bytes === undefined) { skipped++; continue; }
+    writes.push({ ref, bytes });
+    // and the other name of a renamed file goes away
+    if (d.op === 'renamed') writes.push({ ref: side === 'before' ? d : source, bytes: undefined });
+  }
+
+  const r = await applyWithBackup(root, writes, { eventId: ev.id, side });
+  return { backupId: r.backupId, restored: r.written, deleted: r.removed, skipped: skipped + r.absent };
+}
+
+/**
+ * Back up the targets of `writes`, then apply them all or nothing. The backup is dropped again
+ * when the writes fail, so only changes that happened can be undone. Throws RestoreError.
+ */
+export async function applyWithBackup(root: string, writes: FileWrite[], source?: { eventId: string; side: Side }): Promise<WriteSummary & { backupId: string }> {
+  const backupId = await backupFiles(root, writes.map(w => w.ref), source);
+  try {
+    return { backupId, ...await applyWrites(root, writes) };
+  } catch (e) {
+    await removeMaybe(path.join(layout(root).restoreBackups, backupId));
+    throw e;
+  }
+}
+
+export type UndoSummary = { restored: number; deleted: number };
+
+/** The writes that put back the `copy` of every backed-up file, removing files that didn't exist then. */
+async function backupWrites(root: string, backupId: string, manifest: RestoreManifest, copy: 'before' | 'after'): Promise<FileWrite[]> {
+  const writes: FileWrite[] = [];
+  for (const entry of manifest.files) {
+    if (!(copy === 'before' ? entry.existed : entry.existedAfter)) { writes.push({ ref: entry, bytes: undefined }); continue; }
+    const bytes = await readStoreFile(backupCopyPath(root, backupId, entry, copy));
+    if (!bytes) throw new RestoreError(`backup copy of ${entry.path} is missing`);
+    writes.push({ ref: entry, bytes });
+  }
+  return writes;
+}
+
+/**
+ * Put every file recorded in a backup manifest back the way it was, all or nothing. What the
+ * restore had written is kept in `after/` first, so the restore can be redone.
+ */
+export async function undoRestore(root: string, backupId: string): Promise<UndoSummary> {
+  const manifest = await readRestoreManifest(root, backupId);
+  if (manifest.undoneAt) throw new RestoreError(`restore ${backupId} is already undone`);
+  const writes = await backupWrites(root, backupId, manifest, 'before');
+  const existed = await copyWorkingFiles(root, backupId, manifest.files, 'after');
+  manifest.files.forEach((e, i) => { e.existedAfter = existed[i]; });
+  const r = await applyWrites(root, writes);
+  await writeManifest(root, backupId, { ...manifest, undoneAt: Date.now() });
+  return { restored: r.written, deleted: r.removed };
+}
+
+/** Apply an undone restore again, from the contents it had written, all or nothing. */
+export async function redoRestore(root: string, backupId: string): Promise<UndoSummary> {
+  const manifest = await readRestoreManifest(root, backupId);
+  if (!manifest.undoneAt) throw new RestoreError(`restore ${backupId} is not undone`);
+  const r = await applyWrites(root, await backupWrites(root, backupId, manifest, 'after'));
+  await writeManifest(root, backupId, { ...manifest, undoneAt: undefined });
+  return { restored: r.written, deleted: r.removed };
+}
+
+/**
+ * What undoing a restore (or redoing it, once undone) would do to each file, as a diff from the
+ * working copy to the backed-up contents. Binary files get no diff.
+ */
+export async function undoDiff(root: string, record: RestoreRecord): Promise<{ entry: BackupEntry; binary: boolean; lines?: string[] }[]> {
+  const copy = record.undoneAt ? 'after' : 'before';
+  const out: { entry: BackupEntry; binary: boolean; lines?: string[] }[] = [];
+  for (const entry of record.files) {
+    const current = await readMaybe(entryTarget(root, entry));
+    const existed = copy === 'before' ? entry.existed : entry.existedAfter;
+    const next = existed ? await readStoreFile(backupCopyPath(root, record.backupId, entry, copy)) : undefined;
+    const binary = isBinary(current) || isBinary(next);
+    out.push({ entry, binary, lines: binary ? undefined : buildUnifiedDiff(Buffer.from(current ?? []).toString('utf8'), Buffer.from(next ?? []).toString('utf8')) });
+  }
+  return out;
+}
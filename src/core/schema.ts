@@ -0,0 +1,103 @@
+import { FileOp, PromptEvent } from '../types';
+
+/** Current on-disk version of events. Bump it and add a step to MIGRATIONS when the format changes. */
+export const EVENT_SCHEMA_VERSION = 2;
+
+/** A record that is not a valid event; the message names the event and the offending field. */
+export class SchemaError extends Error {}
+
+/** A record written by a newer Prompt Replay. It is left in the log untouched. */
+export class FutureSchemaError extends SchemaError {}
+
+const OPS: FileOp[] = ['added', 'modified', 'deleted', 'renamed'];
+
+/** A parsed JSON object whose fields are not checked yet. */
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (x: unknown): x is RawRecord => !!x && typeof x === 'object' && !Array.isArray(x);
+
+/**
+ * v1 (unversioned): the file operation was an untyped extra field that very old records lack
+ * (they only recorded modifications), and `filesChanged` could be missing.
+ */
+function v1to2(raw: RawRecord): RawRecord {
+  const diffUris = Array.isArray(raw.diffUris)
+    ? raw.diffUris.map((d: unknown) => (isRecord(d) && d.op === undefined ? { ...d, op: 'modified' } : d))
+    : raw.diffUris;
+  const filesChanged = raw.filesChanged ?? (Array.isArray(diffUris) ? diffUris.map(d => (isRecord(d) ? d.path : undefined)) : undefined);
+  return { ...raw, schemaVersion: 2, diffUris, filesChanged };
+}
+
+/** MIGRATIONS[n] turns a version-n record into a version n+1 record. */
+const MIGRATIONS: Record<number, (raw: RawRecord) => RawRecord> = { 1: v1to2 };
+
+/* ---------------- Validation ---------------- */
+
+const isString = (x: unknown): x is string => typeof x === 'string';
+const isStringArray = (x: unknown) => Array.isArray(x) && x.every(isString);
+const isStringMap = (x: unknown) => isRecord(x) && Object.values(x).every(isString);
+const isSize = (x: unknown) => Number.isInteger(x) && (x as number) >= 0;
+const isHash = (x: unknown) => isString(x) && /^[0-9a-f]{64}$/.test(x);
+const isOp = (x: unknown): x is FileOp => OPS.some(op => op === x);
+
+/** Throws a SchemaError describing the first problem with `ev`. */
+export function validateEvent(ev: unknown): asserts ev is PromptEvent {
+  if (!isRecord(ev)) throw new SchemaError('record is not a JSON object');
+  const where = `event ${isString(ev.id) && ev.id ? ev.id : '(no id)'}`;
+  function check(ok: boolean, field: string, expected: string): asserts ok {
+    if (!ok) throw new SchemaError(`${where}: ${field} must be ${expected}`);
+  }
+  const optional = (rec: RawRecord, field: string, test: (x: unknown) => boolean, expected: string) => {
+    if (rec[field] !== undefined) check(test(rec[field]), field, expected);
+  };
+
+  check(ev.schemaVersion === EVENT_SCHEMA_VERSION, 'schemaVersion', String(EVENT_SCHEMA_VERSION));
+  check(isString(ev.id) && ev.id.length > 0, 'id', 'a non-empty string');
+  check(Number.isFinite(ev.timestamp), 'timestamp', 'a number (ms since epoch)');
+  check(isString(ev.prompt), 'prompt', 'a string');
+  check(isString(ev.repoRoot), 'repoRoot', 'a string');
+  check(isStringArray(ev.filesChanged), 'filesChanged', 'an array of strings');
+  for (const f of ['responsePreview', 'beforeRef', 'afterRef', 'rerunOf', 'sessionId']) optional(ev, f, isString, 'a string');
+  for (const f of ['tags', 'folders', 'repos']) optional(ev, f, isStringArray, 'an array of strings');
+  for (const f of ['metadata', 'commits']) optional(ev, f, isStringMap, 'an object of strings');
+
+  if (ev.redactions !== undefined) {
+    check(Array.isArray(ev.redactions) && ev.redactions.every((r: unknown) => isRecord(r) && isString(r.target) && isString(r.rule) && isSize(r.count)),
+      'redactions', 'an array of { target, rule, count }');
+  }
+
+  check(Array.isArray(ev.diffUris), 'diffUris', 'an array');
+  ev.diffUris.forEach((d: unknown, i: number) => {
+    const at = `diffUris[${i}]`;
+    check(isRecord(d), at, 'an object');
+    check(isString(d.path) && d.path.length > 0, `${at}.path`, 'a non-empty string');
+    check(isOp(d.op), `${at}.op`, `one of ${OPS.join(', ')} (got ${JSON.stringify(d.op)})`);
+    if (d.op === 'renamed') check(isString(d.oldPath) && d.oldPath.length > 0, `${at}.oldPath`, 'the rename source path');
+    else check(d.oldPath === undefined, `${at}.oldPath`, 'absent unless op is renamed');
+    for (const f of ['left', 'right', 'repoRoot']) if (d[f] !== undefined) check(isString(d[f]), `${at}.${f}`, 'a string');
+    for (const f of ['leftHash', 'rightHash', 'leftRawHash', 'rightRawHash']) if (d[f] !== undefined) check(isHash(d[f]), `${at}.${f}`, 'a blob name (64 hex digits)');
+    for (const f of ['leftSize', 'rightSize']) if (d[f] !== undefined) check(isSize(d[f]), `${at}.${f}`, 'a byte count');
+    if (d.binary !== undefined) check(typeof d.binary === 'boolean', `${at}.binary`, 'a boolean');
+  });
+}
+
+/**
+ * Bring a parsed record up to EVENT_SCHEMA_VERSION and validate it. `migrated` tells whether the
+ * stored form is outdated. Throws SchemaError (FutureSchemaError for newer records).
+ */
+export function upgradeEvent(raw: unknown): { event: PromptEvent; migrated: boolean } {
+  if (!isRecord(raw)) throw new SchemaError('record is not a JSON object');
+  let rec = raw;
+  let version = rec.schemaVersion ?? 1;
+  const where = `event ${isString(rec.id) ? rec.id : '(no id)'}`;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new SchemaError(`${where}: schemaVersion must be a positive integer`);
+  }
+  if (version > EVENT_SCHEMA_VERSION) {
+    throw new FutureSchemaError(`${where}: written with schema ${version}, but this Prompt Replay reads up to ${EVENT_SCHEMA_VERSION}`);
+  }
+  const migrated = version < EVENT_SCHEMA_VERSION;
+  for (; version < EVENT_SCHEMA_VERSION; version++) rec = MIGRATIONS[version](rec);
+  validateEvent(rec);
+  return { event: rec, migrated };
+}
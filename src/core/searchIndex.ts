@@ -0,0 +1,178 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+import { layout } from './layout';
+import { readMaybe, writeFileAtomic } from './fsutil';
+import { vaultFor } from './vault';
+import { readEventsFile, entryLabel } from './events';
+import { readSnapshot } from './blobs';
+import { isBinary } from './binary';
+import { splitLines } from './provenance';
+import { parseQuery, matchesFilters, Term } from './query';
+import { diffHunks } from '../diff';
+import { PromptEvent } from '../types';
+
+/** Indexed text of one event. `key` changes when any indexed field of the event changes. */
+type Doc = { id: string; key: string; text: string };
+
+/** In memory, words and phrases are matched case-insensitively; regexes use their own flags. */
+type LoadedDoc = Doc & { lower: string };
+
+const INDEX_FILE = 'search-v1.jsonl';
+const MAX_DIFF_CHARS = 256 * 1024; // per event
+const TOKEN = /[\p{L}\p{N}_$]+/gu;
+
+function docKey(ev: PromptEvent): string {
+  const basis = JSON.stringify([ev.prompt, ev.responsePreview, ev.tags, (ev.diffUris || []).map(d => [d.path, d.repoRoot, d.leftHash, d.rightHash])]);
+  return createHash('sha1').update(basis).digest('hex').slice(0, 16);
+}
+
+/** Prompt, response, tags, file labels and the changed hunks (with context) of every text file. */
+async function buildDoc(root: string, ev: PromptEvent): Promise<Doc> {
+  const evRoot = ev.repoRoot || root;
+  const parts = [ev.prompt || '', ev.responsePreview || '', (ev.tags ?? []).join(' ')];
+  let diffChars = 0;
+  for (const d of ev.diffUris || []) {
+    parts.push(entryLabel(evRoot, d));
+    if (d.binary || diffChars > MAX_DIFF_CHARS) continue;
+    if (d.oldPath) parts.push(d.oldPath);
+    const before = d.op === 'added' ? undefined : await readSnapshot(evRoot, d, 'before');
+    const after = d.op === 'deleted' ? undefined : await readSnapshot(evRoot, d, 'after');
+    if (isBinary(before) || isBinary(after)) continue;
+    const text = (b?: Uint8Array) => splitLines(b ? Buffer.from(b).toString('utf8') : '');
+    for (const h of diffHunks(text(before), text(after))) {
+      for (const l of h.lines) { parts.push(l.s); diffChars += l.s.length; }
+    }
+  }
+  return { id: ev.id, key: docKey(ev), text: parts.join('\n') };
+}
+
+/**
+ * Full-text index over events, kept in `.promptreplay/index/search-v1.jsonl`. New or changed
+ * events are appended as they are first searched; the file is compacted once it holds mostly
+ * stale entries. In memory, a token → event ids map narrows word lookups before the final
+ * substring check.
+ */
+export class SearchIndex {
+  private docs = new Map<string, LoadedDoc>();
+  private postings = new Map<string, Set<string>>();
+  private loaded = false;
+  private torn = false;
+  private events: PromptEvent[] = [];
+  private eventsStamp = '';
+
+  constructor(private root: string) {}
+
+  private file(): string {
+    return path.join(layout(this.root).index, INDEX_FILE);
+  }
+
+  private remove(id: string) {
+    const old = this.docs.get(id);
+    if (!old) return;
+    for (const tok of new Set(old.lower.match(TOKEN) ?? [])) this.postings.get(tok)?.delete(id);
+    this.docs.delete(id);
+  }
+
+  private add(doc: Doc) {
+    this.remove(doc.id);
+    const lower = doc.text.toLowerCase();
+    this.docs.set(doc.id, { ...doc, lower });
+    for (const tok of new Set(lower.match(TOKEN) ?? [])) {
+      let ids = this.postings.get(tok);
+      if (!ids) this.postings.set(tok, ids = new Set());
+      ids.add(doc.id);
+    }
+  }
+
+  private async load() {
+    if (this.loaded) return;
+    this.loaded = true;
+    const vault = vaultFor(this.file());
+    const buf = await readMaybe(this.file());
+    this.torn = !!buf?.length && buf[buf.length - 1] !== 0x0a;
+    for (const line of buf ? buf.toString('utf8').split('\n') : []) {
+      if (!line) continue;
+      try { this.add(JSON.parse(vault.openLine(line))); } catch {} // a torn last line is simply re-indexed
+    }
+  }
+
+  /** Events, re-read only when events.jsonl changed. */
+  private async currentEvents(): Promise<PromptEvent[]> {
+    let stamp = '';
+    try { const st = await fsp.stat(layout(this.root).events); stamp = `${st.mtimeMs}:${st.size}`; } catch {}
+    if (stamp !== this.eventsStamp) {
+      this.events = await readEventsFile(this.root);
+      this.eventsStamp = stamp;
+    }
+    return this.events;
+  }
+
+  /** Index events that are new or changed since last time; compact the file when mostly stale. */
+  async update(): Promise<PromptEvent[]> {
+    await this.load();
+    const events = await this.currentEvents();
+    const fresh: Doc[] = [];
+    for (const ev of events) {
+      const doc = this.docs.get(ev.id);
+      if (doc && doc.key === docKey(ev)) continue;
+      const next = await buildDoc(this.root, ev);
+      this.add(next);
+      fresh.push(next);
+    }
+
+    const vault = vaultFor(this.file());
+    const live = new Set(events.map(e => e.id));
+    const stale = Array.from(this.docs.keys()).filter(id => !live.has(id));
+    await fsp.mkdir(path.dirname(this.file()), { recursive: true });
+    // rewritten rather than appended to after a torn last line, which the next line would run into
+    if (stale.length > live.size || (this.torn && fresh.length)) {
+      stale.forEach(id => this.remove(id));
+      const all = Array.from(this.docs.values()).map(({ id, key, text }) => vault.sealLine(JSON.stringify({ id, key, text }))).join('\n');
+      await writeFileAtomic(this.file(), all ? all + '\n' : '');
+      this.torn = false;
+    } else if (fresh.length) {
+      await fsp.appendFile(this.file(), fresh.map(d => vault.sealLine(JSON.stringify(d))).join('\n') + '\n', 'utf8');
+    }
+    return events;
+  }
+
+  /** Candidate ids for one lowercase word: every indexed token containing it. */
+  private candidates(word: string): Set<string> | undefined {
+    if (!/^[\p{L}\p{N}_$]+$/u.test(word)) return; // needs a full scan
+    const out = new Set<string>();
+    for (const [tok, ids] of this.postings) if (tok.includes(word)) for (const id of ids) out.add(id);
+    return out;
+  }
+
+  private textMatches(doc: LoadedDoc | undefined, t: Term): boolean {
+    if (!doc) return false;
+    if (t.kind === 'text') return doc.lower.includes(t.value.toLowerCase());
+    if (t.kind === 'regex') { t.re.lastIndex = 0; return t.re.test(doc.text); }
+    return true;
+  }
+
+  /** Events matching `query`, in log order. Throws QueryError for malformed queries. */
+  async search(query: string): Promise<PromptEvent[]> {
+    const terms = parseQuery(query);
+    const events = await this.update();
+    const textTerms = terms.filter(t => t.kind === 'text' || t.kind === 'regex');
+
+    // narrow with the postings of positive single-word terms
+    let allowed: Set<string> | undefined;
+    for (const t of textTerms) {
+      if (t.neg || t.kind !== 'text') continue;
+      const c = this.candidates(t.value.toLowerCase());
+      if (!c) continue;
+      allowed = allowed ? new Set(Array.from(allowed).filter(id => c.has(id))) : c;
+    }
+
+    return events.filter(ev => {
+      if (allowed && !allowed.has(ev.id)) return false;
+      if (!matchesFilters(ev, terms, this.root)) return false;
+      const doc = this.docs.get(ev.id);
+      return textTerms.every(t => this.textMatches(doc, t) !== t.neg);
+    });
+  }
+}
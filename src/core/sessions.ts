@@ -0,0 +1,136 @@
+import * as path from 'path';
+
+import { layout } from './layout';
+import { writeFileEnsuringDir } from './fsutil';
+import { readStoreFile, writeStoreFile } from './vault';
+import { readSnapshot } from './blobs';
+import { entryLabel } from './events';
+import { isBinary } from './binary';
+import { codeQuote, truncateSha } from './exportMarkdown';
+import { buildUnifiedDiff, countDiff } from '../diff';
+import { PromptEvent, SessionInfo } from '../types';
+
+export async function readSessionsFile(root: string): Promise<SessionInfo[]> {
+  const buf = await readStoreFile(layout(root).sessions);
+  if (!buf) return [];
+  try {
+    const parsed = JSON.parse(buf.toString('utf8'));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function writeSessionsFile(root: string, sessions: SessionInfo[]) {
+  await writeStoreFile(layout(root).sessions, JSON.stringify(sessions, null, 2) + '\n');
+}
+
+/** Insert or replace a session by id. */
+export async function saveSession(root: string, session: SessionInfo) {
+  const sessions = (await readSessionsFile(root)).filter(s => s.id !== session.id);
+  sessions.push(session);
+  sessions.sort((a, b) => a.startedAt - b.startedAt);
+  await writeSessionsFile(root, sessions);
+}
+
+/** Find a session by full id, unique id prefix or exact name. */
+export function findSession(sessions: SessionInfo[], key: string): SessionInfo | undefined {
+  const exact = sessions.find(s => s.id === key) ?? sessions.find(s => s.name === key);
+  if (exact) return exact;
+  const matches = key ? sessions.filter(s => s.id.startsWith(key)) : [];
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+export function eventsOfSession(events: PromptEvent[], sessionId: string): PromptEvent[] {
+  return events.filter(e => e.sessionId === sessionId).sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Wall-clock span of a session: until it ended, or until its last event while still open. */
+export function sessionDuration(session: SessionInfo, events: PromptEvent[]): number {
+  const end = session.endedAt ?? Math.max(session.startedAt, ...events.map(e => e.timestamp));
+  return Math.max(0, end - session.startedAt);
+}
+
+export function formatDuration(ms: number): string {
+  const min = Math.round(ms / 60000);
+  if (min < 60) return `${min} min`;
+  const h = Math.floor(min / 60);
+  return `${h} h ${min % 60} min`;
+}
+
+export type SessionSummary = {
+  events: number;
+  files: string[];
+  added: number;
+  removed: number;
+  tags: string[];
+  durationMs: number;
+};
+
+/** Totals across a session's events; +/− are line counts of the text files each event changed. */
+export async function summarizeSession(root: string, session: SessionInfo, events: PromptEvent[]): Promise<SessionSummary> {
+  const own = eventsOfSession(events, session.id);
+  const files = new Set<string>();
+  const tags = new Set<string>();
+  let added = 0, removed = 0;
+
+  for (const ev of own) {
+    for (const t of ev.tags ?? []) tags.add(t);
+    for (const d of ev.diffUris || []) {
+      files.add(entryLabel(root, d));
+      if (d.binary) continue;
+      const before = await readSnapshot(root, d, 'before');
+      const after = await readSnapshot(root, d, 'after');
+      if (isBinary(before) || isBinary(after)) continue;
+      const c = countDiff(buildUnifiedDiff(Buffer.from(before ?? []).toString('utf8'), Buffer.from(after ?? []).toString('utf8')));
+      added += c.added;
+      removed += c.removed;
+    }
+  }
+
+  return {
+    events: own.length,
+    files: Array.from(files).sort(),
+    added,
+    removed,
+    tags: Array.from(tags).sort(),
+    durationMs: sessionDuration(session, own)
+  };
+}
+
+/** Markdown report of a session: goal, totals and the prompts in the order they were logged. */
+export async function sessionMarkdown(root: string, session: SessionInfo, events: PromptEvent[]): Promise<string> {
+  const s = await summarizeSession(root, session, events);
+  const own = eventsOfSession(events, session.id);
+  const when = (t: number) => new Date(t).toLocaleString();
+
+  const lines = [
+    `# Prompt Replay — Session “${session.name}”`,
+    ``,
+    session.goal ? `**Goal:** ${session.goal}` : ``,
+    session.description ? `**Description:** ${session.description}` : ``,
+    `**Started:** ${when(session.startedAt)}  |  **Ended:** ${session.endedAt ? when(session.endedAt) : 'still active'}  |  **Duration:** ${formatDuration(s.durationMs)}`,
+    `**Prompts:** ${s.events}  |  **Files:** ${s.files.length}  |  **Lines:** +${s.added} / −${s.removed}`,
+    s.tags.length ? `**Tags:** ${s.tags.join(', ')}` : ``,
+    ``,
+    `---`,
+    ``,
+    `## Prompts (${own.length})`,
+    ``
+  ].filter((l, i, all) => l !== `` || all[i - 1] !== ``);
+
+  own.forEach((ev, i) => {
+    lines.push(`${i + 1}. ${new Date(ev.timestamp).toLocaleTimeString()} — ${codeQuote(ev.prompt || '')} (${ev.filesChanged.length} file(s), ${truncateSha(ev.beforeRef ?? '')}, id ${ev.id.slice(0, 8)})`);
+  });
+
+  lines.push(``, `## Files changed (${s.files.length})`, ...s.files.map(f => `- ${f}`), ``);
+  return lines.join('\n');
+}
+
+/** Write `exports/session-<id>.md` and return its path. */
+export async function writeSessionMarkdown(root: string, session: SessionInfo, events: PromptEvent[]): Promise<string> {
+  const md = await sessionMarkdown(root, session, events);
+  const out = path.join(layout(root).exports, `session-${session.id}.md`);
+  await writeFileEnsuringDir(out, Buffer.from(md, 'utf8'));
+  return out;
+}
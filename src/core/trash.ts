@@ -0,0 +1,90 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+import { layout } from './layout';
+import { exists, moveMaybe, readDirMaybe, readMaybe, writeFileAtomic } from './fsutil';
+import { appendEventToFile, lockEvents, readEventsFile } from './events';
+import { upgradeEvent } from './schema';
+import { readStoreFile, vaultFor, writeStoreFile } from './vault';
+import { PromptEvent } from '../types';
+
+export type TrashEntry = { dir: string; name: string; id: string; event?: PromptEvent };
+
+/**
+ * Remove an event from events.jsonl and park its record (plus export and any legacy snapshot
+ * folder) in `trash/<stamp>-<id>/`. Blobs stay in the shared store. Returns the trash folder
+ * name, or undefined if the event was not in the log.
+ */
+export async function trashEvent(root: string, ev: PromptEvent): Promise<string | undefined> {
+  const L = layout(root);
+  const id = ev.id;
+  const stamp = Date.now();
+  const name = `${stamp}-${id}`;
+  const trashEventDir = path.join(L.trash, name);
+  await fsp.mkdir(trashEventDir, { recursive: true });
+
+  const snapsDir = path.join(L.snapshots, id); // legacy, pre-blob events only
+  if (await exists(snapsDir)) await moveMaybe(snapsDir, path.join(trashEventDir, 'snapshots'));
+
+  const exportMd = path.join(L.exports, `event-${id}.md`);
+  if (await exists(exportMd)) await moveMaybe(exportMd, path.join(trashEventDir, `event-${id}.md`));
+
+  // Raw line filter, so unreadable lines stay in the log for `repair` to deal with
+  const removed = await lockEvents(root, async () => {
+    const original = (await readMaybe(L.events)) ?? Buffer.alloc(0);
+    await writeStoreFile(path.join(trashEventDir, 'events.jsonl.bak'), original);
+
+    const vault = vaultFor(L.events);
+    const lines = original.toString('utf8').split('\n').filter(Boolean);
+    const kept: string[] = [];
+    let n = 0;
+    for (const line of lines) {
+      try {
+        const obj = JSON.parse(vault.openLine(line));
+        if (obj && obj.id === id) { n++; continue; }
+      } catch {}
+      kept.push(line);
+    }
+    await writeFileAtomic(L.events, kept.join('\n') + (kept.length ? '\n' : ''));
+    return n;
+  });
+  await writeStoreFile(path.join(trashEventDir, `event-${id}.json`), JSON.stringify(ev, null, 2));
+
+  return removed ? name : undefined;
+}
+
+export async function listTrash(root: string): Promise<TrashEntry[]> {
+  const trashDir = layout(root).trash;
+  const out: TrashEntry[] = [];
+
+  for (const entry of await readDirMaybe(trashDir)) {
+    if (!entry.isDir) continue;
+    const dir = path.join(trashDir, entry.name);
+    const meta = (await readDirMaybe(dir)).find(ent => ent.name.startsWith('event-') && ent.name.endsWith('.json'));
+    if (!meta) continue;
+
+    const id = meta.name.slice('event-'.length, -'.json'.length);
+    let event: PromptEvent | undefined;
+    try { event = upgradeEvent(JSON.parse(String(await readStoreFile(path.join(dir, meta.name))))).event; } catch {}
+    out.push({ dir, name: entry.name, id, event });
+  }
+  return out;
+}
+
+/** Put a trashed event back into the log (unless already present) and move its assets back. */
+export async function restoreFromTrash(root: string, entry: TrashEntry, maxEvents: number): Promise<boolean> {
+  const L = layout(root);
+  const ev = entry.event;
+  if (!ev) return false;
+
+  const existing = (await readEventsFile(root)).some(e => e.id === entry.id);
+  if (!existing) await appendEventToFile(root, ev, maxEvents);
+
+  const srcSnaps = path.join(entry.dir, 'snapshots');
+  if (await exists(srcSnaps)) await moveMaybe(srcSnaps, path.join(L.snapshots, entry.id));
+
+  const srcMd = path.join(entry.dir, `event-${entry.id}.md`);
+  if (await exists(srcMd)) await moveMaybe(srcMd, path.join(L.exports, `event-${entry.id}.md`));
+
+  return true;
+}
@@ -0,0 +1,167 @@
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, scrypt } from 'crypto';
+import { existsSync } from 'node:fs';
+import * as path from 'path';
+
+import { layout } from './layout';
+import { readMaybe, writeFileAtomic } from './fsutil';
+
+/** Encrypted data that can't be read or written: the store is locked or its key is unavailable. */
+export class EncryptionError extends Error {}
+
+/** A 256-bit store key; `id` is a short digest naming it in sealed data and encryption.json. */
+export type StoreKey = { id: string; key: Buffer };
+
+/** Passphrase-derived keys record how to derive them again. */
+export type Kdf = { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+
+// Sealed data: MAGIC | key id (8 bytes) | IV (12) | GCM tag (16) | AES-256-GCM ciphertext
+const MAGIC = Buffer.from('PRENC\x01', 'latin1');
+const ID_LEN = 8, IV_LEN = 12, TAG_LEN = 16;
+const HEADER_LEN = MAGIC.length + ID_LEN + IV_LEN + TAG_LEN;
+
+/** .jsonl files are sealed line by line so they can still be appended to: prefix + base64. */
+export const SEALED_LINE_PREFIX = 'enc1:';
+
+export function storeKey(key: Buffer): StoreKey {
+  if (key.length !== 32) throw new EncryptionError('an encryption key must be 32 bytes (base64 of 32 random bytes)');
+  const id = createHash('sha256').update('prompt-replay key id\0').update(key).digest('hex').slice(0, ID_LEN * 2);
+  return { id, key };
+}
+
+export function generateKey(): StoreKey {
+  return storeKey(randomBytes(32));
+}
+
+export function newKdf(): Kdf {
+  return { name: 'scrypt', salt: randomBytes(16).toString('base64'), N: 1 << 15, r: 8, p: 1 };
+}
+
+export function keyFromPassphrase(passphrase: string, kdf: Kdf): Promise<StoreKey> {
+  const opts = { N: kdf.N, r: kdf.r, p: kdf.p, maxmem: 256 * kdf.N * kdf.r };
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase.normalize('NFC'), Buffer.from(kdf.salt, 'base64'), 32, opts, (err, key) => {
+      if (err) reject(err);
+      else resolve(storeKey(key));
+    });
+  });
+}
+
+export function isSealed(data: Uint8Array): boolean {
+  return data.length >= HEADER_LEN && Buffer.from(data.buffer, data.byteOffset, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * Seals with `current` (or writes plaintext when there is none) and opens data sealed with any
+ * of its keys; plaintext reads through unchanged, so a store can be converted file by file.
+ * A `locked` vault stands for an encrypted store whose key was not supplied: it refuses to write.
+ */
+export class Vault {
+  private nameKey?: Buffer;
+
+  constructor(private current?: StoreKey, private others: StoreKey[] = [], private locked = false) {}
+
+  get encrypted(): boolean {
+    return !!this.current;
+  }
+
+  /**
+   * Name of a blob with these contents: SHA-256 in a plaintext store; with a key, an HMAC under a
+   * key derived from it, so the names don't tell whether a known file version was recorded.
+   */
+  blobName(data: Uint8Array): string {
+    if (!this.current) {
+      if (this.locked) throw new EncryptionError('the Prompt Replay store is encrypted and locked; unlock it first');
+      return createHash('sha256').update(data).digest('hex');
+    }
+    this.nameKey ??= createHmac('sha256', this.current.key).update('prompt-replay blob names').digest();
+    return createHmac('sha256', this.nameKey).update(data).digest('hex');
+  }
+
+  seal(data: Uint8Array): Buffer {
+    if (!this.current) {
+      if (this.locked) throw new EncryptionError('the Prompt Replay store is encrypted and locked; unlock it first');
+      return Buffer.from(data);
+    }
+    const iv = randomBytes(IV_LEN);
+    const cipher = createCipheriv('aes-256-gcm', this.current.key, iv);
+    const body = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([MAGIC, Buffer.from(this.current.id, 'hex'), iv, cipher.getAuthTag(), body]);
+  }
+
+  open(data: Uint8Array): Buffer {
+    if (!isSealed(data)) return Buffer.from(data);
+    const buf = Buffer.from(data);
+    let at = MAGIC.length;
+    const id = buf.subarray(at, at += ID_LEN).toString('hex');
+    const iv = buf.subarray(at, at += IV_LEN);
+    const tag = buf.subarray(at, at += TAG_LEN);
+    const key = [this.current, ...this.others].find(k => k?.id === id);
+    if (!key) {
+      throw new EncryptionError(this.locked
+        ? 'the Prompt Replay store is encrypted and locked; unlock it first'
+        : `data is encrypted with key ${id}, which is not available`);
+    }
+    try {
+      const decipher = createDecipheriv('aes-256-gcm', key.key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(buf.subarray(at)), decipher.final()]);
+    } catch {
+      throw new Error('encrypted data is damaged (authentication failed)'); // not an EncryptionError: the key is fine
+    }
+  }
+
+  sealLine(line: string): string {
+    const sealed = this.seal(Buffer.from(line, 'utf8'));
+    return this.current ? SEALED_LINE_PREFIX + sealed.toString('base64') : line;
+  }
+
+  openLine(line: string): string {
+    if (!line.startsWith(SEALED_LINE_PREFIX)) return line;
+    return this.open(Buffer.from(line.slice(SEALED_LINE_PREFIX.length), 'base64')).toString('utf8');
+  }
+}
+
+/* ---------------- Vault per store ---------------- */
+
+const PLAIN = new Vault();
+const LOCKED = new Vault(undefined, [], true);
+const vaults = new Map<string, Vault>();
+
+/** `.promptreplay` directory containing `file`, if any. */
+function storeDirOf(file: string): string | undefined {
+  const abs = path.resolve(file);
+  const marker = `${path.sep}.promptreplay${path.sep}`;
+  const i = abs.lastIndexOf(marker);
+  return i < 0 ? undefined : abs.slice(0, i + marker.length - 1);
+}
+
+/** Use `vault` for every file of the store at `root`; undefined goes back to detecting. */
+export function setVault(root: string, vault: Vault | undefined) {
+  const dir = path.resolve(layout(root).dir);
+  if (vault) vaults.set(dir, vault);
+  else vaults.delete(dir);
+}
+
+/** True when `file` lies in a store that has encryption turned on. */
+export function inEncryptedStore(file: string): boolean {
+  const dir = storeDirOf(file);
+  return !!dir && existsSync(layout(path.dirname(dir)).encryption);
+}
+
+/** Vault for a file: the registered one of its store, else plaintext (or locked if the store is encrypted). */
+export function vaultFor(file: string): Vault {
+  const dir = storeDirOf(file);
+  if (!dir) return PLAIN;
+  return vaults.get(dir) ?? (inEncryptedStore(file) ? LOCKED : PLAIN);
+}
+
+/** Read a store file, decrypting it as needed; undefined if it does not exist. */
+export async function readStoreFile(file: string): Promise<Buffer | undefined> {
+  const buf = await readMaybe(file);
+  return buf && vaultFor(file).open(buf);
+}
+
+/** Write a store file atomically, encrypted if its store is. */
+export async function writeStoreFile(file: string, data: Uint8Array | string) {
+  await writeFileAtomic(file, vaultFor(file).seal(typeof data === 'string' ? Buffer.from(data, 'utf8') : data));
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+
+import { ProvenanceService } from './provenance';
+
+type Style = 'gutter' | 'background' | 'both';
+
+const DEFAULT_COLOR = 'rgba(64, 160, 255, 0.8)';
+
+function cfg() {
+  return vscode.workspace.getConfiguration('promptReplay.decorations');
+}
+
+/** Faint variant of a CSS color for line backgrounds (hex and rgb[a] only; anything else is used as-is). */
+function faint(color: string): string {
+  const hex = /^#([0-9a-f]{6})$/i.exec(color);
+  if (hex) return `#${hex[1]}22`;
+  const rgb = /^rgba?\(([^,]+),([^,]+),([^,)]+)/i.exec(color);
+  if (rgb) return `rgba(${rgb[1].trim()}, ${rgb[2].trim()}, ${rgb[3].trim()}, 0.12)`;
+  return color;
+}
+
+function gutterBar(color: string): vscode.Uri {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="4" height="16"><rect width="3" height="16" fill="${color}"/></svg>`;
+  return vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`);
+}
+
+/**
+ * Marks lines introduced by logged prompts in visible editors. Lines edited after the event no
+ * longer match the event's output and lose their mark. One decoration type per color; the color
+ * of a line comes from the first of its event's tags listed in `promptReplay.decorations.tagColors`.
+ */
+export class ProvenanceDecorator implements vscode.Disposable {
+  private types = new Map<string, vscode.TextEditorDecorationType>();
+  private timer?: NodeJS.Timeout;
+  private status: vscode.StatusBarItem;
+  private subs: vscode.Disposable[] = [];
+
+  constructor(private service: ProvenanceService) {
+    this.status = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 50);
+    this.status.command = 'promptReplay.toggleDecorations';
+    this.subs.push(
+      this.status,
+      vscode.window.onDidChangeVisibleTextEditors(() => this.schedule(0)),
+      vscode.window.onDidChangeActiveTextEditor(() => this.schedule(0)),
+      vscode.workspace.onDidChangeTextDocument(e => {
+        if (vscode.window.visibleTextEditors.some(ed => ed.document === e.document)) this.schedule();
+      }),
+      vscode.workspace.onDidChangeConfiguration(e => {
+        if (e.affectsConfiguration('promptReplay.decorations')) { this.disposeTypes(); this.schedule(0); }
+      })
+    );
+    this.schedule(0);
+  }
+
+  get enabled(): boolean {
+    return cfg().get<boolean>('enabled', false);
+  }
+
+  async toggle() {
+    await cfg().update('enabled', !this.enabled, vscode.ConfigurationTarget.Global);
+  }
+
+  /** Recompute after edits settle (or right away with delay 0). */
+  schedule(delay = 300) {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => { void this.update(); }, delay);
+  }
+
+  private typeFor(color: string, style: Style): vscode.TextEditorDecorationType {
+    let t = this.types.get(color);
+    if (!t) {
+      t = vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        gutterIconPath: style !== 'background' ? gutterBar(color) : undefined,
+        gutterIconSize: 'contain',
+        backgroundColor: style !== 'gutter' ? faint(color) : undefined,
+        overviewRulerColor: color,
+        overviewRulerLane: vscode.OverviewRulerLane.Left
+      });
+      this.types.set(color, t);
+    }
+    return t;
+  }
+
+  private colorOf(id: string): string {
+    const tagColors = cfg().get<Record<string, string>>('tagColors', {}) ?? {};
+    const tag = (this.service.event(id)?.tags ?? []).find(t => tagColors[t]);
+    return tag ? tagColors[tag] : (cfg().get<string>('color', DEFAULT_COLOR) || DEFAULT_COLOR);
+  }
+
+  private async update() {
+    if (!this.enabled) {
+      for (const ed of vscode.window.visibleTextEditors) for (const t of this.types.values()) ed.setDecorations(t, []);
+      this.status.hide();
+      return;
+    }
+
+    const style = cfg().get<Style>('style', 'gutter');
+    for (const ed of vscode.window.visibleTextEditors) {
+      let owners: (string | undefined)[] = [];
+      try { owners = await this.service.ownersOf(ed.document); } catch (e) { console.error('[Prompt Replay] decorations:', e); }
+
+      const byColor = new Map<string, vscode.Range[]>();
+      for (const color of this.types.keys()) byColor.set(color, []);
+      let marked = 0;
+      for (let i = 0; i < owners.length && i < ed.document.lineCount; i++) {
+        const id = owners[i];
+        if (!id) continue;
+        const color = this.colorOf(id);
+        if (!byColor.has(color)) byColor.set(color, []);
+        byColor.get(color)!.push(new vscode.Range(i, 0, i, 0));
+        marked++;
+      }
+      for (const [color, ranges] of byColor) ed.setDecorations(this.typeFor(color, style), ranges);
+
+      if (ed === vscode.window.activeTextEditor) {
+        const total = ed.document.lineCount;
+        this.status.text = `$(sparkle) ${total ? Math.round((marked / total) * 100) : 0}% AI`;
+        this.status.tooltip = `Prompt Replay: ${marked} of ${total} lines in this file came from logged prompts and are unchanged since. Click to hide marks.`;
+        this.status.show();
+      }
+    }
+    if (!vscode.window.activeTextEditor) this.status.hide();
+  }
+
+  private disposeTypes() {
+    for (const t of this.types.values()) t.dispose();
+    this.types.clear();
+  }
+
+  dispose() {
+    if (this.timer) clearTimeout(this.timer);
+    this.disposeTypes();
+    for (const s of this.subs) s.dispose();
+  }
+}
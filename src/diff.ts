@@ -0,0 +1,122 @@
+/**
+ * Line matching via LCS. Returns, for every line of `a`, the index of the line of `b`
+ * it is matched with, or -1. Common prefix/suffix are matched up front to keep the table small.
+ */
+export function matchLines(a: string[], b: string[]): number[] {
+  const match: number[] = new Array(a.length).fill(-1);
+  let pre = 0;
+  while (pre < a.length && pre < b.length && a[pre] === b[pre]) { match[pre] = pre; pre++; }
+  let suf = 0;
+  while (suf < a.length - pre && suf < b.length - pre && a[a.length - 1 - suf] === b[b.length - 1 - suf]) {
+    match[a.length - 1 - suf] = b.length - 1 - suf;
+    suf++;
+  }
+
+  const A = a.slice(pre, a.length - suf), B = b.slice(pre, b.length - suf);
+  const n = A.length, m = B.length;
+  if (n === 0 || m === 0) return match;
+
+  const dp: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) for (let j = m - 1; j >= 0; j--) dp[i][j] = A[i] === B[j] ? dp[i+1][j+1]+1 : Math.max(dp[i+1][j], dp[i][j+1]);
+  let i = 0, j = 0;
+  while (i < n && j < m) {
+    if (A[i] === B[j]) { match[pre + i] = pre + j; i++; j++; }
+    else if (dp[i+1][j] >= dp[i][j+1]) i++;
+    else j++;
+  }
+  return match;
+}
+
+export type HunkLine = { t: ' ' | '+' | '-'; s: string };
+export type Hunk = { aStart: number; aLen: number; bStart: number; bLen: number; lines: HunkLine[] };
+
+/** Unified-diff hunks between two line arrays, with `context` lines around each change. */
+export function diffHunks(a: string[], b: string[], context = 3): Hunk[] {
+  const match = matchLines(a, b);
+  const ops: (HunkLine & { i: number; j: number })[] = [];
+  let i = 0, j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && match[i] === -1) ops.push({ t: '-', s: a[i], i: i++, j });
+    else if (j < b.length && (i >= a.length || j < match[i])) ops.push({ t: '+', s: b[j], i, j: j++ });
+    else ops.push({ t: ' ', s: a[i], i: i++, j: j++ });
+  }
+
+  const hunks: Hunk[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].t === ' ') { k++; continue; }
+    const start = Math.max(0, k - context);
+    // extend while the next change is close enough for the hunks to share context
+    let end = k;
+    for (;;) {
+      while (end < ops.length && ops[end].t !== ' ') end++;
+      let next = end;
+      while (next < ops.length && ops[next].t === ' ') next++;
+      if (next < ops.length && next - end <= 2 * context) end = next;
+      else break;
+    }
+    const stop = Math.min(ops.length, end + context);
+    const lines = ops.slice(start, stop);
+    const aLen = lines.filter(l => l.t !== '+').length;
+    const bLen = lines.filter(l => l.t !== '-').length;
+    hunks.push({
+      aStart: aLen ? ops[start].i + 1 : ops[start].i,
+      aLen,
+      bStart: bLen ? ops[start].j + 1 : ops[start].j,
+      bLen,
+      lines: lines.map(l => ({ t: l.t, s: l.s }))
+    });
+    k = stop;
+  }
+  return hunks;
+}
+
+export function hunkHeader(h: Hunk): string {
+  return `@@ -${h.aStart},${h.aLen} +${h.bStart},${h.bLen} @@`;
+}
+
+/** Display diff of two texts: `@@` hunk headers followed by ` `/`+`/`-` prefixed lines. */
+export function buildUnifiedDiff(before: string, after: string): string[] {
+  const out: string[] = [];
+  for (const h of diffHunks((before ?? '').split('\n'), (after ?? '').split('\n'))) {
+    out.push(hunkHeader(h), ...h.lines.map(l => l.t + l.s));
+  }
+  if (out.length === 0) return [' (no changes) '];
+  return out;
+}
+export function countDiff(lines: string[]) {
+  let added = 0, removed = 0;
+  for (const l of lines) { if (l.startsWith('+')) added++; else if (l.startsWith('-')) removed++; }
+  return { added, removed };
+}
+
+/** Character ranges [start, end) of a line that differ from its counterpart. */
+export type Span = [number, number];
+
+const MAX_WORD_TOKENS = 400;
+
+/**
+ * Word-level changes between an old and a new version of one line: LCS over words, runs of
+ * whitespace and single punctuation characters. Adjacent changed tokens form one span.
+ * Returns no spans for very long lines, where the whole line is marked changed anyway.
+ */
+export function wordChanges(a: string, b: string): { a: Span[]; b: Span[] } {
+  const ta = a.match(/\w+|\s+|[^\w\s]/g) ?? [], tb = b.match(/\w+|\s+|[^\w\s]/g) ?? [];
+  if (ta.length > MAX_WORD_TOKENS || tb.length > MAX_WORD_TOKENS) return { a: [], b: [] };
+  const match = matchLines(ta, tb);
+  const kept = new Set(match.filter(j => j >= 0));
+  const spans = (tokens: string[], changed: (i: number) => boolean) => {
+    const out: Span[] = [];
+    let at = 0;
+    tokens.forEach((t, i) => {
+      if (changed(i)) {
+        const last = out[out.length - 1];
+        if (last && last[1] === at) last[1] = at + t.length;
+        else out.push([at, at + t.length]);
+      }
+      at += t.length;
+    });
+    return out;
+  };
+  return { a: spans(ta, i => match[i] === -1), b: spans(tb, j => !kept.has(j)) };
+}
@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { EncryptionError, Kdf, StoreKey, generateKey, inEncryptedStore, keyFromPassphrase, newKdf, readStoreFile, setVault, storeKey } from './core/vault';
+import {
+  EncryptionInfo, KeySpec, RecryptResult, decryptStore, encryptStore, exportDecrypted, readEncryptionInfo, requiredKeys, rotateStoreKey, unlockStore
+} from './core/encryption';
+
+const secretName = (keyId: string) => `promptReplay.storeKey.${keyId}`;
+
+// Keys this window has opened, by id. Passphrase keys only ever live here.
+const known = new Map<string, StoreKey>();
+// Per store root: the key ids its registered vault was built from
+const unlocked = new Map<string, string>();
+const pending = new Map<string, Promise<void>>();
+// Stores whose key prompt was dismissed; only “Unlock Encrypted Store” asks again
+const declined = new Set<string>();
+
+/** A store key: from this window, from secret storage, or (if `ask`) typed or pasted by the user. */
+async function keyFor(ctx: vscode.ExtensionContext, spec: KeySpec, ask: boolean, previous: boolean): Promise<StoreKey | undefined> {
+  const cached = known.get(spec.keyId);
+  if (cached) return cached;
+  if (!spec.kdf) {
+    const stored = await ctx.secrets.get(secretName(spec.keyId));
+    if (stored) return remember(storeKey(Buffer.from(stored, 'base64')));
+  }
+  if (!ask) return undefined;
+
+  const which = previous ? 'the previous' : 'the';
+  let prompt = spec.kdf
+    ? `Passphrase for ${which} encrypted Prompt Replay store key${previous ? ' (a key rotation was interrupted)' : ''}`
+    : `Paste ${which} Prompt Replay store key (base64, from “Prompt Replay: Copy Encryption Key” on another machine)`;
+  for (;;) {
+    const input = await vscode.window.showInputBox({ prompt, password: true, ignoreFocusOut: true });
+    if (!input) return undefined;
+    let key: StoreKey | undefined;
+    try { key = spec.kdf ? await keyFromPassphrase(input, spec.kdf) : storeKey(Buffer.from(input.trim(), 'base64')); } catch {}
+    if (key?.id === spec.keyId) {
+      if (!spec.kdf) await ctx.secrets.store(secretName(key.id), key.key.toString('base64'));
+      return remember(key);
+    }
+    prompt = spec.kdf ? 'Wrong passphrase. Try again:' : 'That is not the key of this store. Try again:';
+  }
+}
+
+function remember(key: StoreKey): StoreKey {
+  known.set(key.id, key);
+  return key;
+}
+
+async function unlock(ctx: vscode.ExtensionContext, root: string, ask: boolean) {
+  const info = await readEncryptionInfo(root);
+  if (!info) {
+    // decrypted meanwhile (e.g. by the CLI): stop encrypting new writes
+    if (unlocked.delete(root)) setVault(root, undefined);
+    return;
+  }
+  const specs = requiredKeys(info);
+  const ids = specs.map(s => s.keyId).join(',');
+  if (unlocked.get(root) === ids) return;
+
+  const keys: StoreKey[] = [];
+  for (const [i, spec] of specs.entries()) {
+    const key = await keyFor(ctx, spec, ask, i > 0);
+    if (!key) {
+      if (ask) declined.add(root);
+      throw new EncryptionError('the Prompt Replay store is encrypted; run “Prompt Replay: Unlock Encrypted Store” to open it');
+    }
+    keys.push(key);
+  }
+  unlockStore(root, info, keys);
+  unlocked.set(root, ids);
+  declined.delete(root);
+}
+
+/**
+ * Make sure the vault of an encrypted store has its keys, asking for a passphrase or pasted key
+ * at most once until the user unlocks explicitly. Throws EncryptionError if it stays locked.
+ */
+export function ensureUnlocked(ctx: vscode.ExtensionContext, root: string): Promise<void> {
+  let p = pending.get(root);
+  if (!p) {
+    p = unlock(ctx, root, !declined.has(root)).finally(() => pending.delete(root));
+    pending.set(root, p);
+  }
+  return p;
+}
+
+/** Keys the store currently needs, after unlocking it. */
+async function currentKeys(ctx: vscode.ExtensionContext, root: string, info: EncryptionInfo): Promise<StoreKey[]> {
+  await ensureUnlocked(ctx, root);
+  return requiredKeys(info).map(s => known.get(s.keyId)!);
+}
+
+/* ---------------- Viewing encrypted snapshots ---------------- */
+
+export const STORE_SCHEME = 'promptreplay-store';
+
+/** Read-only documents for files of an encrypted store (snapshot blobs opened in diffs). */
+export class StoreDocumentProvider implements vscode.TextDocumentContentProvider {
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const bytes = await readStoreFile(uri.fsPath);
+    return bytes ? bytes.toString('utf8') : '';
+  }
+}
+
+/** `uri` itself, or the decrypting view of it when it points into an encrypted store. */
+export function viewableUri(uri: vscode.Uri): vscode.Uri {
+  return uri.scheme === 'file' && inEncryptedStore(uri.fsPath) ? uri.with({ scheme: STORE_SCHEME }) : uri;
+}
+
+/* ---------------- Commands ---------------- */
+
+type NewKey = { key: StoreKey; kdf?: Kdf };
+
+async function pickNewKey(ctx: vscode.ExtensionContext, placeHolder: string): Promise<NewKey | undefined> {
+  const mode = await vscode.window.showQuickPick([
+    { label: 'Key in VS Code secret storage', detail: 'A random key kept in the OS keychain. For the CLI or another machine, use “Copy Encryption Key”.', id: 'secret' },
+    { label: 'Passphrase', detail: 'Asked once per window. The CLI reads it from PROMPT_REPLAY_PASSPHRASE.', id: 'passphrase' }
+  ], { placeHolder });
+  if (!mode) return;
+
+  if (mode.id === 'secret') {
+    const key = generateKey();
+    // stored before anything is encrypted with it
+    await ctx.secrets.store(secretName(key.id), key.key.toString('base64'));
+    return { key: remember(key) };
+  }
+  const pass = await vscode.window.showInputBox({
+    prompt: 'New passphrase for the Prompt Replay store', password: true, ignoreFocusOut: true,
+    validateInput: v => (v.length >= 8 ? undefined : 'Use at least 8 characters')
+  });
+  if (!pass) return;
+  const again = await vscode.window.showInputBox({ prompt: 'Repeat the passphrase', password: true, ignoreFocusOut: true });
+  if (again !== pass) { if (again !== undefined) vscode.window.showWarningMessage('Prompt Replay: the passphrases did not match.'); return; }
+  const kdf = newKdf();
+  return { key: remember(await keyFromPassphrase(pass, kdf)), kdf };
+}
+
+function reportRecrypt(r: RecryptResult, done: string) {
+  if (!r.failed.length) { vscode.window.showInformationMessage(`Prompt Replay: ${done} (${r.files} file(s)).`); return; }
+  for (const f of r.failed) console.error('[Prompt Replay] could not convert', f);
+  vscode.window.showWarningMessage(`Prompt Replay: ${r.failed.length} file(s) could not be converted (see Debug Console): ${r.failed[0]}. Run the command again once they are readable.`);
+}
+
+/** A key leaves secret storage once no store file is sealed with it any more. */
+async function forgetKeys(ctx: vscode.ExtensionContext, ids: string[]) {
+  for (const id of ids) await ctx.secrets.delete(secretName(id));
+}
+
+export async function encryptStoreViaUI(ctx: vscode.ExtensionContext, root: string) {
+  if (await readEncryptionInfo(root)) { vscode.window.showInformationMessage('Prompt Replay: the store is already encrypted.'); return; }
+  const ok = await vscode.window.showWarningMessage(
+    'Encrypt the events, sessions, snapshots, trash and restore backups in .promptreplay? Other windows and the CLI will need the key to read them. Exports stay in plain text.',
+    { modal: true },
+    'Encrypt'
+  );
+  if (ok !== 'Encrypt') return;
+  const made = await pickNewKey(ctx, 'Where should the encryption key come from?');
+  if (!made) return;
+
+  const r = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Prompt Replay: encrypting the store…' },
+    () => encryptStore(root, made.key, made.kdf)
+  );
+  unlocked.set(root, made.key.id);
+  reportRecrypt(r, 'store encrypted');
+}
+
+export async function unlockStoreViaUI(ctx: vscode.ExtensionContext, root: string) {
+  if (!(await readEncryptionInfo(root))) { vscode.window.showInformationMessage('Prompt Replay: the store is not encrypted.'); return; }
+  declined.delete(root);
+  unlocked.delete(root);
+  await ensureUnlocked(ctx, root);
+  vscode.window.showInformationMessage('Prompt Replay: store unlocked.');
+}
+
+export async function rotateKeyViaUI(ctx: vscode.ExtensionContext, root: string) {
+  const info = await readEncryptionInfo(root);
+  if (!info) { vscode.window.showInformationMessage('Prompt Replay: the store is not encrypted.'); return; }
+  const keys = await currentKeys(ctx, root, info);
+  const made = await pickNewKey(ctx, 'Where should the new encryption key come from?');
+  if (!made) return;
+
+  const r = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Prompt Replay: re-encrypting the store with the new key…' },
+    () => rotateStoreKey(root, keys, made.key, made.kdf)
+  );
+  if (r.failed.length) unlocked.set(root, `${made.key.id},${info.keyId}`);
+  else {
+    unlocked.set(root, made.key.id);
+    await forgetKeys(ctx, keys.map(k => k.id).filter(id => id !== made.key.id));
+  }
+  reportRecrypt(r, 'encryption key rotated; the old key no longer opens the store');
+}
+
+export async function decryptStoreViaUI(ctx: vscode.ExtensionContext, root: string) {
+  const info = await readEncryptionInfo(root);
+  if (!info) { vscode.window.showInformationMessage('Prompt Replay: the store is not encrypted.'); return; }
+  const action = await vscode.window.showQuickPick([
+    { label: 'Export a decrypted copy…', detail: 'Write plain-text copies of every store file to a folder you choose; the store stays encrypted.', id: 'export' },
+    { label: 'Turn encryption off', detail: 'Decrypt the store in place.', id: 'off' }
+  ], { placeHolder: 'Decrypt the Prompt Replay store' });
+  if (!action) return;
+  const keys = await currentKeys(ctx, root, info);
+
+  if (action.id === 'export') {
+    const picked = await vscode.window.showOpenDialog({ canSelectFolders: true, canSelectFiles: false, openLabel: 'Export here' });
+    if (!picked?.length) return;
+    const out = path.join(picked[0].fsPath, `promptreplay-decrypted-${new Date().toISOString().replace(/[:.]/g, '-')}`);
+    const r = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'Prompt Replay: exporting a decrypted copy…' },
+      () => exportDecrypted(root, out, keys)
+    );
+    reportRecrypt(r, `decrypted copy written to ${out}`);
+    return;
+  }
+
+  const ok = await vscode.window.showWarningMessage('Decrypt every file in .promptreplay and turn encryption off?', { modal: true }, 'Decrypt');
+  if (ok !== 'Decrypt') return;
+  const r = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: 'Prompt Replay: decrypting the store…' },
+    () => decryptStore(root, keys)
+  );
+  if (!r.failed.length) {
+    unlocked.delete(root);
+    await forgetKeys(ctx, keys.map(k => k.id));
+  }
+  reportRecrypt(r, 'encryption turned off');
+}
+
+export async function copyKeyViaUI(ctx: vscode.ExtensionContext, root: string) {
+  const info = await readEncryptionInfo(root);
+  if (!info) { vscode.window.showInformationMessage('Prompt Replay: the store is not encrypted.'); return; }
+  if (info.kdf) {
+    vscode.window.showInformationMessage('Prompt Replay: this store uses a passphrase. For the CLI, set PROMPT_REPLAY_PASSPHRASE.');
+    return;
+  }
+  const ok = await vscode.window.showWarningMessage(
+    'Copy the store encryption key to the clipboard? Anyone with it can read the store.',
+    { modal: true },
+    'Copy'
+  );
+  if (ok !== 'Copy') return;
+  const [key] = await currentKeys(ctx, root, info);
+  await vscode.env.clipboard.writeText(key.key.toString('base64'));
+  vscode.window.showInformationMessage('Prompt Replay: key copied. For the CLI, set PROMPT_REPLAY_KEY to it; on another machine, paste it into “Unlock Encrypted Store”.');
+}
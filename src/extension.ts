@@ -1,83 +1,160 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { randomUUID } from 'crypto';
 
 import { Store } from './store';
 import { TimelinePanel } from './timelinePanel';
-import { getGitApi, primaryRepo, headSha, collectWorkingDiff, getFileAtRef } from './git';
-import { PromptEvent } from './types';
+import { migrateSnapshotFolders } from './core/blobs';
+import { writeEventMarkdown } from './core/exportMarkdown';
+import { writeSessionMarkdown, eventsOfSession } from './core/sessions';
+import { writeEventPatch, writeEventsMbox } from './core/patch';
+import { commitEvent, DEFAULT_NOTES_REF } from './core/gitCommit';
+import { trashEvent, listTrash, restoreFromTrash } from './core/trash';
+import { repairEventsFile } from './core/events';
+import { RestoreError, restoreEvent, undoRestore } from './core/restore';
+import { eventInlineDiffs } from './core/inlineDiff';
+import { touchedSinceCheckpoint, takeCheckpoint, logPromptEvent } from './recorder';
+import { IngestServer } from './ingest';
+import { replayEventOntoCurrent } from './replay';
+import { rerunEvent } from './rerun';
+import { pickFilesToRestore } from './restorePreview';
+import { restoreHistoryViaUI } from './restoreHistory';
+import { ProvenanceService, ProvenanceHoverProvider, ProvenanceCodeLensProvider } from './provenance';
+import { ProvenanceDecorator } from './decorations';
+import { InsightsPanel } from './insightsPanel';
+import { computeInsights, SurvivalSource } from './core/insights';
+import { SearchIndex } from './core/searchIndex';
+import { QueryError } from './core/query';
+import { collectGarbageViaUI, scheduleGarbageCollection } from './retention';
+import {
+  STORE_SCHEME, StoreDocumentProvider, viewableUri, copyKeyViaUI, decryptStoreViaUI, encryptStoreViaUI, rotateKeyViaUI, unlockStoreViaUI
+} from './encryption';
+import { PromptEvent, SessionInfo } from './types';
 
 console.log('[Prompt Replay] activate()');
 
-const touchedSinceCheckpoint = new Set<string>();
-
-function relPath(uri: vscode.Uri): string {
-  return vscode.workspace.asRelativePath(uri).replace(/\\/g, '/');
-}
-async function exists(uri: vscode.Uri | undefined): Promise<boolean> {
-  if (!uri) return false;
-  try { await vscode.workspace.fs.stat(uri); return true; } catch { return false; }
-}
-async function statMaybe(uri: vscode.Uri): Promise<vscode.FileStat | undefined> {
-  try { return await vscode.workspace.fs.stat(uri); } catch { return undefined; }
-}
-async function readDirMaybe(uri: vscode.Uri): Promise<[string, vscode.FileType][]> {
-  try { return await vscode.workspace.fs.readDirectory(uri); } catch { return [] as [string, vscode.FileType][]; }
-}
-
-/** Read bytes from any URI (file:, git:, untitled:). */
-async function readBytesFlexible(uriStr: string | undefined): Promise<Uint8Array | undefined> {
-  if (!uriStr) return undefined;
-  let uri: vscode.Uri;
-  try { uri = vscode.Uri.parse(uriStr); } catch { return undefined; }
-
-  // Try FS API first
-  try {
-    return await vscode.workspace.fs.readFile(uri);
-  } catch {
-    // Fallback: open as text doc and convert to bytes
-    try {
-      const doc = await vscode.workspace.openTextDocument(uri);
-      return Buffer.from(doc.getText(), 'utf8');
-    } catch {
-      return undefined;
-    }
-  }
-}
-
 export async function activate(context: vscode.ExtensionContext) {
   const store = new Store(context);
 
+  // One-time conversion of legacy snapshots/<id> folders into the blob store
+  const wsRoot = store.rootPath();
+  if (wsRoot) {
+    migrateSnapshotFolders(wsRoot)
+      .then(n => { if (n) console.log(`[Prompt Replay] migrated ${n} snapshot folder(s) to blobs`); })
+      .catch(e => console.error('[Prompt Replay] snapshot migration failed:', e));
+  }
+
   // Track edits while a checkpoint is active
   const editListener = vscode.workspace.onDidChangeTextDocument((e) => {
     if (!store.session.lastCheckpointSha) return;
     if (e.document.uri.scheme !== 'file') return;
-    const rp = relPath(e.document.uri);
-    if (rp) touchedSinceCheckpoint.add(rp);
+    touchedSinceCheckpoint.add(e.document.uri.fsPath);
   });
   context.subscriptions.push(editListener);
 
+  // Full-text index for timeline search, kept for the session and updated incrementally
+  let searchIndex: { root: string; index: SearchIndex } | undefined;
+  // The timeline keeps showing the results of its last search while events change
+  let timelineQuery = '';
+
+  const timelineEvents = async (): Promise<PromptEvent[]> => {
+    const root = store.rootPath();
+    if (!timelineQuery || !root) return store.readEvents();
+    if (!searchIndex || searchIndex.root !== root) searchIndex = { root, index: new SearchIndex(root) };
+    return searchIndex.index.search(timelineQuery);
+  };
+
+  const refreshTimeline = async () => {
+    if (!TimelinePanel.current) return;
+    TimelinePanel.current.setSessions(await store.readSessions());
+    TimelinePanel.current.setEvents(await timelineEvents());
+  };
+
+  // Events logged by this window, the CLI or the ingest endpoint show up without reopening the panel
+  let refreshTimer: NodeJS.Timeout | undefined;
+  const scheduleTimelineRefresh = () => {
+    clearTimeout(refreshTimer);
+    refreshTimer = setTimeout(() => {
+      refreshTimeline().catch(e => console.error('[Prompt Replay] timeline refresh failed:', e));
+    }, 200);
+  };
+  context.subscriptions.push({ dispose: () => clearTimeout(refreshTimer) });
+
   // Commands
   const startSession = vscode.commands.registerCommand('promptReplay.startSession', async () => {
-    const ws = vscode.workspace.workspaceFolders?.[0];
-    if (!ws) {
+    const root = store.rootPath();
+    if (!root) {
       vscode.window.showWarningMessage('Open a folder/workspace first.');
       return;
     }
+    const name = await vscode.window.showInputBox({
+      prompt: 'Session name (e.g. the feature or task you are working on)',
+      validateInput: v => (v.trim() ? undefined : 'Name required')
+    });
+    if (!name) return;
+    const goal = await vscode.window.showInputBox({ prompt: 'Optional: goal of this session' });
+    const description = await vscode.window.showInputBox({ prompt: 'Optional: description' });
+
     await store.ensureDir();
-    store.session = { active: true, repoRoot: ws.uri.fsPath, lastCheckpointSha: undefined };
-    vscode.window.showInformationMessage('Prompt Replay: session started.');
+    await endCurrentSession(store);
+    const session: SessionInfo = {
+      id: randomUUID(),
+      name: name.trim(),
+      goal: goal?.trim() || undefined,
+      description: description?.trim() || undefined,
+      startedAt: Date.now()
+    };
+    await store.saveSession(session);
+    store.session = { active: true, repoRoot: root, lastCheckpointSha: undefined, sessionId: session.id };
+    vscode.window.showInformationMessage(`Prompt Replay: session “${session.name}” started.`);
+    await refreshTimeline();
+  });
+
+  const endSession = vscode.commands.registerCommand('promptReplay.endSession', async () => {
+    const ended = await endCurrentSession(store);
+    if (!ended) {
+      vscode.window.showInformationMessage('Prompt Replay: no named session is active.');
+      return;
+    }
+    store.session = { active: false };
+    vscode.window.showInformationMessage(`Prompt Replay: session “${ended.name}” ended.`, 'Open Report').then(choice => {
+      if (choice === 'Open Report') void openSessionReport(ended.id, store);
+    });
+    await refreshTimeline();
+  });
+
+  const exportPatchSeries = vscode.commands.registerCommand('promptReplay.exportPatchSeries', async () => {
+    const events = (await store.readEvents()).slice().sort((a, b) => b.timestamp - a.timestamp);
+    if (events.length === 0) { vscode.window.showInformationMessage('Prompt Replay: no events to export.'); return; }
+    const picked = await vscode.window.showQuickPick(events.map(ev => ({
+      label: ev.prompt.length > 90 ? ev.prompt.slice(0, 87) + '…' : ev.prompt,
+      description: `${new Date(ev.timestamp).toLocaleString()} • ${ev.filesChanged.length} file(s)`,
+      ev
+    })), { placeHolder: 'Select the events to export as a patch series (applied oldest first)…', canPickMany: true });
+    if (!picked?.length) return;
+    await exportMbox(picked.map(p => p.ev), `series-${Date.now()}`, store);
+  });
+
+  const sessionReport = vscode.commands.registerCommand('promptReplay.sessionReport', async () => {
+    const sessions = (await store.readSessions()).slice().reverse();
+    if (sessions.length === 0) {
+      vscode.window.showInformationMessage('Prompt Replay: no sessions yet. Start one with “Prompt Replay: Start Session”.');
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(sessions.map(s => ({
+      label: s.name,
+      description: `${new Date(s.startedAt).toLocaleString()}${s.endedAt ? '' : ' • active'}`,
+      detail: s.goal,
+      session: s
+    })), { placeHolder: 'Select a session…' });
+    if (picked) await openSessionReport(picked.session.id, store);
   });
 
   const createCheckpoint = vscode.commands.registerCommand('promptReplay.createCheckpoint', async () => {
-    const api = await getGitApi();
-    const repo = primaryRepo(api);
-    const sha = headSha(repo) ?? `:working:${Date.now()}`;
-    if (!store.session.active) {
-      await vscode.commands.executeCommand('promptReplay.startSession');
+    const sha = await takeCheckpoint(store);
+    if (!sha) {
+      vscode.window.showWarningMessage('Open a folder/workspace first.');
+      return;
     }
-    store.session = { ...store.session, lastCheckpointSha: sha };
-    touchedSinceCheckpoint.clear();
     vscode.window.showInformationMessage(`Prompt Replay: checkpoint created (${sha.slice(0, 8)})`);
   });
 
@@ -92,118 +169,32 @@ export async function activate(context: vscode.ExtensionContext) {
     const tagsStr = await vscode.window.showInputBox({ prompt: 'Optional: tags (comma-separated, e.g. bug fix, refactor)' });
     const tags = tagsStr ? tagsStr.split(',').map(s => s.trim()).filter(Boolean) : undefined;
 
-    const cfg = vscode.workspace.getConfiguration('promptReplay');
-    const maxEvents = cfg.get<number>('maxEvents', 2000);
-
-    const api = await getGitApi();
-    const repo = primaryRepo(api);
-    let diffs = await collectWorkingDiff(repo);
-
-    const repoRoot = store.session.repoRoot ?? (vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '');
-    const checkpointRef = store.session.lastCheckpointSha;
-
-    if (checkpointRef) {
-      if (touchedSinceCheckpoint.size === 0) {
-        vscode.window.showInformationMessage('Prompt Replay: no edits detected since checkpoint — nothing to log.');
-        return;
-      }
-      const touched = new Set(Array.from(touchedSinceCheckpoint));
-      diffs = diffs.filter(d => touched.has(d.path.replace(/\\/g, '/')));
-      if (diffs.length === 0) {
-        vscode.window.showInformationMessage('Prompt Replay: no changes detected in touched files — nothing to log.');
-        return;
-      }
-    } else {
-      if (diffs.length === 0) {
-        vscode.window.showInformationMessage('Prompt Replay: no changes in the working tree — nothing to log.');
-        return;
-      }
+    const outcome = await logPromptEvent(store, { prompt, responsePreview, tags });
+    if ('skipped' in outcome) {
+      vscode.window.showInformationMessage(`Prompt Replay: ${outcome.skipped}`);
+      return;
     }
-
-    const ev: PromptEvent = {
-      id: randomUUID(),
-      timestamp: Date.now(),
-      prompt,
-      responsePreview: responsePreview || undefined,
-      repoRoot,
-      beforeRef: checkpointRef,
-      afterRef: 'WORKING',
-      filesChanged: diffs.map(d => d.path),
-      diffUris: [],
-      tags
-    };
-
-    // snapshot directories
-    const snapshotsDir = vscode.Uri.file(path.join(repoRoot, '.promptreplay', 'snapshots', ev.id));
-    try { await vscode.workspace.fs.createDirectory(snapshotsDir); } catch {}
-    const beforeDir = vscode.Uri.file(path.join(snapshotsDir.fsPath, '__before__'));
-    const afterDir  = vscode.Uri.file(path.join(snapshotsDir.fsPath, '__after__'));
-    try { await vscode.workspace.fs.createDirectory(beforeDir); } catch {}
-    try { await vscode.workspace.fs.createDirectory(afterDir); } catch {}
-
-    const leftSnapUris: Record<string, vscode.Uri> = {};
-    const rightSnapUris: Record<string, vscode.Uri> = {};
-    const ops: Record<string, 'added' | 'modified' | 'deleted'> = {};
-
-    for (const d of diffs) {
-      const rel = d.path.replace(/\\/g, '/');
-
-      // left (before)
-      const leftText = checkpointRef ? await getFileAtRef(repoRoot, checkpointRef, rel) : undefined;
-      const leftSnap = vscode.Uri.file(path.join(beforeDir.fsPath, rel));
-      try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(leftSnap.fsPath))); } catch {}
-      if (leftText !== undefined) {
-        await vscode.workspace.fs.writeFile(leftSnap, Buffer.from(leftText, 'utf8'));
-      } else {
-        // represent "no file" as empty; we'll rely on `op` to distinguish
-        await vscode.workspace.fs.writeFile(leftSnap, Buffer.alloc(0));
-      }
-      leftSnapUris[rel] = leftSnap;
-
-      // right (after)
-      const target = vscode.Uri.file(path.join(repoRoot, rel));
-      const rightSnap = vscode.Uri.file(path.join(afterDir.fsPath, rel));
-      try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(rightSnap.fsPath))); } catch {}
-      const targetExists = await exists(target);
-      if (targetExists) {
-        const buf = await vscode.workspace.fs.readFile(target);
-        await vscode.workspace.fs.writeFile(rightSnap, buf);
-        ops[rel] = leftText === undefined ? 'added' : 'modified';
-      } else {
-        await vscode.workspace.fs.writeFile(rightSnap, Buffer.alloc(0));
-        ops[rel] = 'deleted';
-      }
-      rightSnapUris[rel] = rightSnap;
+    if (outcome.commitError) {
+      vscode.window.showWarningMessage(`Prompt Replay: logged prompt, but the commit failed — ${outcome.commitError}`);
+      return;
     }
-
-    ev.diffUris = diffs.map(d => {
-      const rel = d.path.replace(/\\/g, '/');
-      return {
-        path: rel,
-        left: leftSnapUris[rel]?.toString(),
-        right: rightSnapUris[rel]?.toString(),
-        op: ops[rel] as any
-      } as any;
-    });
-
-    await store.appendEvent(ev, maxEvents);
-
-    touchedSinceCheckpoint.clear();
-    store.session = { ...store.session, lastCheckpointSha: undefined };
-
-    vscode.window.showInformationMessage(`Prompt Replay: logged prompt with ${ev.filesChanged.length} changed file(s).`);
+    const committed = outcome.event.commits ? ` and committed ${outcome.event.afterRef?.slice(0, 8)}` : '';
+    vscode.window.showInformationMessage(`Prompt Replay: logged prompt with ${outcome.event.filesChanged.length} changed file(s)${committed}.`);
   });
 
   const openTimeline = vscode.commands.registerCommand('promptReplay.openTimeline', async () => {
+    const existing = TimelinePanel.current;
     const panel = TimelinePanel.createOrShow(context);
-    let eventsAll = await store.readEvents();
-    panel.setEvents(eventsAll);
+    if (existing) { await refreshTimeline(); return; }
+    timelineQuery = '';
+    panel.setSessions(await store.readSessions());
+    panel.setEvents(await store.readEvents());
 
     panel.onMessage(async (message) => {
       try {
         if (message.type === 'openDiff') {
-          const left = message.left ? vscode.Uri.parse(message.left) : undefined;
-          const right = message.right ? vscode.Uri.parse(message.right) : undefined;
+          const left = message.left ? viewableUri(vscode.Uri.parse(message.left)) : undefined;
+          const right = message.right ? viewableUri(vscode.Uri.parse(message.right)) : undefined;
           if (left && right) {
             vscode.commands.executeCommand('vscode.diff', left, right, message.title || 'Diff');
           } else if (right) {
@@ -216,45 +207,99 @@ export async function activate(context: vscode.ExtensionContext) {
           return;
         }
 
+        if (message.type === 'loadDiffs') {
+          const id = String(message.id || '');
+          const ev = (await store.readEvents()).find(e => e.id === id);
+          if (!ev) { panel.showDiffs(id, { error: 'event not found' }); return; }
+          try {
+            panel.showDiffs(id, { files: await eventInlineDiffs(eventRoot(ev, store), ev) });
+          } catch (e) {
+            console.error('[Prompt Replay] inline diffs failed:', e);
+            panel.showDiffs(id, { error: e instanceof Error ? e.message : String(e) });
+          }
+          return;
+        }
+
         if (message.type === 'search') {
-          const q: string = (message.q || '').toLowerCase().trim();
-          eventsAll = await store.readEvents();
-          const filtered = !q ? eventsAll : eventsAll.filter(ev =>
-            ev.prompt.toLowerCase().includes(q) ||
-            ev.filesChanged.some(f => f.toLowerCase().includes(q)) ||
-            (ev.tags ?? []).some(t => t.toLowerCase().includes(q))
-          );
-          TimelinePanel.current?.setEvents(filtered);
+          const previous = timelineQuery;
+          timelineQuery = String(message.q || '').trim();
+          try {
+            TimelinePanel.current?.setEvents(await timelineEvents());
+          } catch (e) {
+            timelineQuery = previous;
+            if (!(e instanceof QueryError)) throw e;
+            vscode.window.showWarningMessage(`Prompt Replay: ${e.message}`);
+          }
+          return;
+        }
+
+        if (message.type === 'sessionReport') {
+          await openSessionReport(String(message.id || ''), store);
+          return;
+        }
+
+        if (message.type === 'exportSessionMbox') {
+          const id = String(message.id || '');
+          await exportMbox(eventsOfSession(await store.readEvents(), id), `session-${id}`, store);
           return;
         }
 
         if (message.type === 'exportEvent') {
-          await exportEventMarkdown(String(message.id || ''), store);
+          const format = await vscode.window.showQuickPick([
+            { label: 'Markdown', description: 'Readable report (.md)', id: 'md' },
+            { label: 'Patch', description: 'git apply / git am (.patch)', id: 'patch' }
+          ], { placeHolder: 'Export format' });
+          if (!format) return;
+          if (format.id === 'patch') await exportEventPatch(String(message.id || ''), store);
+          else await exportEventMarkdown(String(message.id || ''), store);
           return;
         }
 
         if (message.type === 'restoreEvent') {
           // side: 'before' | 'after' (default 'after')
-          await handleRestoreEvent({ ...message }, store);
+          await handleRestore({ id: message.id, side: message.side }, store);
+          return;
+        }
+
+        if (message.type === 'replayEvent') {
+          const ev = (await store.readEvents()).find(e => e.id === String(message.id || ''));
+          if (!ev) { vscode.window.showWarningMessage('Event not found.'); return; }
+          await replayEventOntoCurrent(ev);
+          return;
+        }
+
+        if (message.type === 'rerunEvent') {
+          const ev = (await store.readEvents()).find(e => e.id === String(message.id || ''));
+          if (!ev) { vscode.window.showWarningMessage('Event not found.'); return; }
+          if (await rerunEvent(ev, store)) await refreshTimeline();
+          return;
+        }
+
+        if (message.type === 'commitEvent') {
+          await handleCommitEvent(String(message.id || ''), store);
+          await refreshTimeline();
           return;
         }
 
         if (message.type === 'restoreFile') {
-          await handleRestoreFile({ ...message }, store);
+          await handleRestore({ id: message.id, side: message.side, path: String(message.path || ''), repoRoot: message.repoRoot }, store);
           return;
         }
 
         if (message.type === 'deleteEvent') {
           await deleteEventAndAssets(String(message.id || ''), store);
-          const fresh = await store.readEvents();
-          TimelinePanel.current?.setEvents(fresh);
+          await refreshTimeline();
+          return;
+        }
+
+        if (message.type === 'openRestoreHistory') {
+          await restoreHistoryViaUI(store);
           return;
         }
 
         if (message.type === 'openTrash') {
           await restoreDeletedEventViaUI(store);
-          const fresh = await store.readEvents();
-          TimelinePanel.current?.setEvents(fresh);
+          await refreshTimeline();
           return;
         }
       } catch (e) {
@@ -264,6 +309,150 @@ export async function activate(context: vscode.ExtensionContext) {
     });
   });
 
+  const insights = vscode.commands.registerCommand('promptReplay.insights', async () => {
+    const root = store.rootPath();
+    if (!root) { vscode.window.showWarningMessage('Open a folder/workspace first.'); return; }
+
+    const load = (source: SurvivalSource) => vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: 'Prompt Replay: computing insights…' },
+      async () => computeInsights(root, await store.readEvents(), source)
+    );
+    const fresh = !InsightsPanel.current;
+    const panel = InsightsPanel.createOrShow();
+    panel.setInsights(await load('working'));
+    if (!fresh) return;
+    panel.onMessage(async (message) => {
+      try {
+        if (message.type === 'refresh') {
+          panel.setInsights(await load(message.source === 'head' ? 'head' : 'working'));
+          return;
+        }
+        if (message.type === 'showEvent') {
+          await vscode.commands.executeCommand('promptReplay.showEvent', String(message.id || ''));
+          return;
+        }
+      } catch (e) {
+        console.error('[Prompt Replay] insights error:', e);
+        vscode.window.showErrorMessage('Prompt Replay: could not compute insights (see Debug Console).');
+      }
+    });
+  });
+
+  const showEvent = vscode.commands.registerCommand('promptReplay.showEvent', async (id?: string) => {
+    if (!id) return;
+    if (!TimelinePanel.current) await vscode.commands.executeCommand('promptReplay.openTimeline');
+    TimelinePanel.current?.reveal(String(id));
+  });
+
+  const repairEvents = vscode.commands.registerCommand('promptReplay.repairEvents', async () => {
+    const root = store.rootPath();
+    if (!root) { vscode.window.showWarningMessage('Open a folder/workspace first.'); return; }
+    try {
+      const r = await repairEventsFile(root);
+      const upgraded = r.migrated ? ` Upgraded ${r.migrated} event(s) to the current schema.` : '';
+      if (!r.bad.length) { vscode.window.showInformationMessage(`Prompt Replay: events.jsonl is fine (${r.events} events).${upgraded}`); return; }
+      for (const b of r.bad) console.error(`[Prompt Replay] events.jsonl line ${b.line}: ${b.reason}`);
+      const salvaged = r.salvaged ? `, recovered ${r.salvaged} event(s)` : '';
+      vscode.window.showInformationMessage(`Prompt Replay: removed ${r.bad.length} unreadable line(s)${salvaged}; they are kept in .promptreplay/corrupt.${upgraded}`);
+      await refreshTimeline();
+    } catch (e) {
+      console.error('[Prompt Replay] repair error:', e);
+      vscode.window.showErrorMessage(`Prompt Replay: repair failed — ${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+
+  // Retention: on demand, and in the background
+  const collectGarbage = vscode.commands.registerCommand('promptReplay.collectGarbage', async () => {
+    try {
+      await collectGarbageViaUI(store);
+    } catch (e) {
+      console.error('[Prompt Replay] garbage collection error:', e);
+      vscode.window.showErrorMessage(`Prompt Replay: garbage collection failed — ${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+  context.subscriptions.push(collectGarbage, scheduleGarbageCollection(context, store));
+
+  const restoreHistory = vscode.commands.registerCommand('promptReplay.restoreHistory', async () => {
+    try {
+      await restoreHistoryViaUI(store);
+    } catch (e) {
+      console.error('[Prompt Replay] restore history error:', e);
+      vscode.window.showErrorMessage(`Prompt Replay: restore history failed — ${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+  context.subscriptions.push(restoreHistory);
+
+  // Encryption at rest
+  const encryptionCommand = (id: string, run: (ctx: vscode.ExtensionContext, root: string) => Promise<void>) =>
+    vscode.commands.registerCommand(id, async () => {
+      const root = store.rootPath();
+      if (!root) { vscode.window.showWarningMessage('Open a folder/workspace first.'); return; }
+      try {
+        await run(context, root);
+        await refreshTimeline();
+      } catch (e) {
+        console.error(`[Prompt Replay] ${id} error:`, e);
+        vscode.window.showErrorMessage(`Prompt Replay: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+  context.subscriptions.push(
+    encryptionCommand('promptReplay.encryptStore', encryptStoreViaUI),
+    encryptionCommand('promptReplay.unlockStore', unlockStoreViaUI),
+    encryptionCommand('promptReplay.rotateEncryptionKey', rotateKeyViaUI),
+    encryptionCommand('promptReplay.decryptStore', decryptStoreViaUI),
+    encryptionCommand('promptReplay.copyEncryptionKey', copyKeyViaUI),
+    vscode.workspace.registerTextDocumentContentProvider(STORE_SCHEME, new StoreDocumentProvider())
+  );
+
+  // Line provenance: which prompt introduced a line (hover + CodeLens)
+  const provenance = new ProvenanceService(store);
+  const lenses = new ProvenanceCodeLensProvider(provenance);
+  const decorator = new ProvenanceDecorator(provenance);
+  const toggleDecorations = vscode.commands.registerCommand('promptReplay.toggleDecorations', async () => {
+    await decorator.toggle();
+    vscode.window.showInformationMessage(`Prompt Replay: AI line marks ${decorator.enabled ? 'shown' : 'hidden'}.`);
+  });
+  const fileSelector: vscode.DocumentSelector = { scheme: 'file' };
+  context.subscriptions.push(
+    showEvent,
+    insights,
+    repairEvents,
+    toggleDecorations,
+    decorator,
+    vscode.languages.registerHoverProvider(fileSelector, new ProvenanceHoverProvider(provenance)),
+    vscode.languages.registerCodeLensProvider(fileSelector, lenses)
+  );
+  if (wsRoot) {
+    const eventsWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(wsRoot, '.promptreplay/events.jsonl'));
+    eventsWatcher.onDidChange(() => { lenses.refresh(); decorator.schedule(0); scheduleTimelineRefresh(); });
+    eventsWatcher.onDidCreate(() => { lenses.refresh(); decorator.schedule(0); scheduleTimelineRefresh(); });
+    eventsWatcher.onDidDelete(() => scheduleTimelineRefresh());
+    context.subscriptions.push(eventsWatcher);
+  }
+  const provenanceConfigSub = vscode.workspace.onDidChangeConfiguration(e => {
+    if (e.affectsConfiguration('promptReplay.provenance')) lenses.refresh();
+  });
+  context.subscriptions.push(provenanceConfigSub);
+
+  // Optional: local ingestion endpoint for external agents
+  const ingest = new IngestServer(context, store, scheduleTimelineRefresh);
+  const syncIngest = async () => {
+    await ingest.stop();
+    if (!vscode.workspace.getConfiguration('promptReplay.ingest').get<boolean>('enabled', false)) return;
+    try {
+      const address = await ingest.start();
+      if (address) console.log(`[Prompt Replay] ingest endpoint listening on ${address}`);
+    } catch (e) {
+      console.error('[Prompt Replay] ingest server failed to start:', e);
+      vscode.window.showErrorMessage('Prompt Replay: could not start the ingest endpoint (see Debug Console).');
+    }
+  };
+  void syncIngest();
+  const ingestConfigSub = vscode.workspace.onDidChangeConfiguration(e => {
+    if (e.affectsConfiguration('promptReplay.ingest')) void syncIngest();
+  });
+  context.subscriptions.push(ingestConfigSub, { dispose: () => { void ingest.stop(); } });
+
   // Optional: nudge
   const nudges = vscode.workspace.getConfiguration('promptReplay').get<boolean>('autoNudgeLargeEdit', true);
   const lineThreshold = vscode.workspace.getConfiguration('promptReplay').get<number>('largeEditLineThreshold', 20);
@@ -278,156 +467,141 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   });
 
-  context.subscriptions.push(startSession, createCheckpoint, logPrompt, openTimeline, changeSub);
+  context.subscriptions.push(startSession, endSession, sessionReport, exportPatchSeries, createCheckpoint, logPrompt, openTimeline, changeSub);
 }
 
 export function deactivate() {}
 
 /* ---------------- Export to Markdown ---------------- */
 
+function eventRoot(ev: PromptEvent, store: Store): string {
+  return ev.repoRoot || store.rootPath() || '';
+}
+
 async function exportEventMarkdown(id: string, store: Store) {
   if (!id) { vscode.window.showWarningMessage('Export failed: missing event id.'); return; }
   const events = await store.readEvents();
   const ev = events.find(e => e.id === id);
   if (!ev) { vscode.window.showWarningMessage('Export failed: event not found.'); return; }
 
-  const root = ev.repoRoot || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+  const root = eventRoot(ev, store);
   if (!root) { vscode.window.showWarningMessage('Export failed: workspace root not found.'); return; }
 
-  const snapsDir = path.join(root, '.promptreplay', 'snapshots', id);
-  const beforeDir = path.join(snapsDir, '__before__');
-  const afterDir  = path.join(snapsDir, '__after__');
-
-  const when = new Date(ev.timestamp || Date.now());
-  const dateStr = `${when.toLocaleDateString()} ${when.toLocaleTimeString()}`;
-  const header = [
-    `# Prompt Replay — Event ${id} (${dateStr})`,
-    ``,
-    `**Prompt:** ${codeQuote(ev.prompt || '')}`,
-    ev.tags?.length ? `**Tags:** ${ev.tags.join(', ')}` : ``,
-    `**Repo:** ${root}`,
-    `**Before:** ${ev.beforeRef ? truncateSha(ev.beforeRef) : '—'}  |  **After:** working tree at log time`,
-    ``,
-    `---`,
-    ``,
-  ].filter(Boolean).join('\n');
-
-  let filesList: string[] = [];
-  let fileSections: string[] = [];
-
-  for (const d of ev.diffUris || []) {
-    const rel = d.path;
-    const leftText  = await readUtf8Maybe(vscode.Uri.file(path.join(beforeDir, rel)));
-    const rightText = await readUtf8Maybe(vscode.Uri.file(path.join(afterDir, rel)));
-
-    const diff = buildUnifiedDiff(leftText, rightText);
-    const counts = countDiff(diff);
-    const status = (d as any).op === 'added' ? 'Added' : (d as any).op === 'deleted' ? 'Deleted' : 'Modified';
-
-    filesList.push(`- **${rel}** — ${status} (+${counts.added} / −${counts.removed})`);
-
-    const section = [
-      ``,
-      `### ${rel} (${status})`,
-      '```diff',
-      ...diff,
-      '```',
-      ``
-    ].join('\n');
-
-    fileSections.push(section);
-  }
+  const out = await writeEventMarkdown(root, ev);
 
-  const listBlock = [`## Files changed (${filesList.length})`, ...filesList, ``, `---`, ``].join('\n');
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(out));
+  await vscode.window.showTextDocument(doc, { preview: false });
 
-  if ((ev as any).responsePreview) {
-    fileSections.unshift(`**Response preview:**\n\n> ${(ev as any).responsePreview}\n\n`);
-  }
+  vscode.window.showInformationMessage(`Prompt Replay: exported to ${out}`);
+}
 
-  const md = [header, listBlock, ...fileSections].join('\n');
+/* ---------------- Export as patches ---------------- */
 
-  const exportsDir = vscode.Uri.file(path.join(root, '.promptreplay', 'exports'));
-  try { await vscode.workspace.fs.createDirectory(exportsDir); } catch {}
-  const outUri = vscode.Uri.file(path.join(exportsDir.fsPath, `event-${id}.md`));
-  await vscode.workspace.fs.writeFile(outUri, Buffer.from(md, 'utf8'));
+async function exportEventPatch(id: string, store: Store) {
+  const ev = (await store.readEvents()).find(e => e.id === id);
+  if (!ev) { vscode.window.showWarningMessage('Export failed: event not found.'); return; }
+  const root = eventRoot(ev, store);
+  if (!root) { vscode.window.showWarningMessage('Export failed: workspace root not found.'); return; }
 
-  const doc = await vscode.workspace.openTextDocument(outUri);
+  const out = await writeEventPatch(root, ev);
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(out));
   await vscode.window.showTextDocument(doc, { preview: false });
-
-  vscode.window.showInformationMessage(`Prompt Replay: exported to ${outUri.fsPath}`);
+  vscode.window.showInformationMessage(`Prompt Replay: exported to ${out} (apply with git apply or git am)`);
 }
 
-/* ---------------- Delete event + assets ---------------- */
+async function exportMbox(events: PromptEvent[], name: string, store: Store) {
+  const root = store.rootPath();
+  if (!root) { vscode.window.showWarningMessage('Export failed: workspace root not found.'); return; }
+  if (events.length === 0) { vscode.window.showInformationMessage('Prompt Replay: no events to export.'); return; }
 
-async function deleteEventAndAssets(id: string, store: Store) {
-  if (!id) { vscode.window.showWarningMessage('Delete failed: missing event id.'); return; }
+  const out = await writeEventsMbox(root, events, name);
+  vscode.window.showInformationMessage(`Prompt Replay: exported ${events.length} patch(es) to ${out} (apply with git am)`, 'Open').then(choice => {
+    if (choice === 'Open') void vscode.window.showTextDocument(vscode.Uri.file(out), { preview: false });
+  });
+}
+
+/* ---------------- Commit event ---------------- */
 
+async function handleCommitEvent(id: string, store: Store) {
   const events = await store.readEvents();
   const ev = events.find(e => e.id === id);
-  if (!ev) { vscode.window.showWarningMessage('Delete failed: event not found.'); return; }
+  if (!ev) { vscode.window.showWarningMessage('Event not found.'); return; }
+  if (ev.commits) { vscode.window.showInformationMessage(`Prompt Replay: event already committed (${ev.afterRef?.slice(0, 8)}).`); return; }
 
-  const root = ev.repoRoot || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-  if (!root) { vscode.window.showWarningMessage('Delete failed: workspace root not found.'); return; }
+  const root = eventRoot(ev, store);
+  if (!root) { vscode.window.showWarningMessage('Workspace root not found.'); return; }
 
   const ok = await vscode.window.showWarningMessage(
-    'Delete this prompt event? Snapshots and exports will be moved to .promptreplay/trash.',
+    `Commit the AFTER snapshot of ${ev.filesChanged.length} file(s) from this event on top of HEAD? Other changes stay uncommitted.`,
     { modal: true },
-    'Delete'
+    'Commit'
   );
-  if (ok !== 'Delete') return;
+  if (ok !== 'Commit') return;
 
-  const prDir = path.join(root, '.promptreplay');
-  const eventsUri = vscode.Uri.file(path.join(prDir, 'events.jsonl'));
-  const snapsDir  = vscode.Uri.file(path.join(prDir, 'snapshots', id));
-  const exportMd  = vscode.Uri.file(path.join(prDir, 'exports', `event-${id}.md`));
-
-  const trashBase = vscode.Uri.file(path.join(prDir, 'trash'));
-  try { await vscode.workspace.fs.createDirectory(trashBase); } catch {}
-
-  const stamp = Date.now();
-  const trashEventDir = vscode.Uri.file(path.join(trashBase.fsPath, `${stamp}-${id}`));
-  try { await vscode.workspace.fs.createDirectory(trashEventDir); } catch {}
-
-  if (await exists(snapsDir)) {
-    const dest = vscode.Uri.file(path.join(trashEventDir.fsPath, 'snapshots'));
-    try { await vscode.workspace.fs.rename(snapsDir, dest, { overwrite: false }); } catch {}
+  try {
+    const notesRef = vscode.workspace.getConfiguration('promptReplay').get<string>('notesRef', DEFAULT_NOTES_REF) || DEFAULT_NOTES_REF;
+    await commitEvent(root, ev, notesRef);
+    await store.updateEvents(evs => {
+      const e = evs.find(x => x.id === ev.id);
+      if (e) { e.commits = ev.commits; e.afterRef = ev.afterRef; }
+    });
+    vscode.window.showInformationMessage(`Prompt Replay: committed event as ${ev.afterRef?.slice(0, 8)} (note under ${notesRef}).`);
+  } catch (e) {
+    console.error('[Prompt Replay] commitEvent error:', e);
+    vscode.window.showErrorMessage(`Prompt Replay: commit failed — ${e instanceof Error ? e.message : String(e)}`);
   }
+}
 
-  if (await exists(exportMd)) {
-    const dest = vscode.Uri.file(path.join(trashEventDir.fsPath, `event-${id}.md`));
-    try { await vscode.workspace.fs.rename(exportMd, dest, { overwrite: true }); } catch {}
+/* ---------------- Sessions ---------------- */
+
+/** Stamp the end time of the active named session, if any. */
+async function endCurrentSession(store: Store): Promise<SessionInfo | undefined> {
+  const id = store.session.sessionId;
+  if (!id) return;
+  const session = (await store.readSessions()).find(s => s.id === id);
+  if (!session) return;
+  if (!session.endedAt) {
+    session.endedAt = Date.now();
+    await store.saveSession(session);
   }
+  return session;
+}
 
-  try {
-    const buf = await vscode.workspace.fs.readFile(eventsUri);
-    const original = Buffer.from(buf);
+async function openSessionReport(id: string, store: Store) {
+  const root = store.rootPath();
+  if (!root) { vscode.window.showWarningMessage('Open a folder/workspace first.'); return; }
+  const session = (await store.readSessions()).find(s => s.id === id);
+  if (!session) { vscode.window.showWarningMessage('Session not found.'); return; }
 
-    const backupUri = vscode.Uri.file(path.join(trashEventDir.fsPath, 'events.jsonl.bak'));
-    await vscode.workspace.fs.writeFile(backupUri, original);
+  const out = await writeSessionMarkdown(root, session, await store.readEvents());
+  const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(out));
+  await vscode.window.showTextDocument(doc, { preview: false });
+}
 
-    const lines = original.toString('utf8').split('\n').filter(Boolean);
-    const kept: string[] = [];
-    let removed = 0;
+/* ---------------- Delete event + assets ---------------- */
 
-    for (const line of lines) {
-      try {
-        const obj = JSON.parse(line);
-        if (obj && obj.id === id) { removed++; continue; }
-      } catch {}
-      kept.push(line);
-    }
+async function deleteEventAndAssets(id: string, store: Store) {
+  if (!id) { vscode.window.showWarningMessage('Delete failed: missing event id.'); return; }
 
-    await vscode.workspace.fs.writeFile(
-      eventsUri,
-      Buffer.from(kept.join('\n') + (kept.length ? '\n' : ''), 'utf8')
-    );
+  const events = await store.readEvents();
+  const ev = events.find(e => e.id === id);
+  if (!ev) { vscode.window.showWarningMessage('Delete failed: event not found.'); return; }
 
-    const evJsonUri = vscode.Uri.file(path.join(trashEventDir.fsPath, `event-${id}.json`));
-    await vscode.workspace.fs.writeFile(evJsonUri, Buffer.from(JSON.stringify(ev, null, 2), 'utf8'));
+  const root = eventRoot(ev, store);
+  if (!root) { vscode.window.showWarningMessage('Delete failed: workspace root not found.'); return; }
 
+  const ok = await vscode.window.showWarningMessage(
+    'Delete this prompt event? Its record and export will be moved to .promptreplay/trash (snapshot blobs are kept).',
+    { modal: true },
+    'Delete'
+  );
+  if (ok !== 'Delete') return;
+
+  try {
+    const trashName = await trashEvent(root, ev);
     vscode.window.showInformationMessage(
-      removed ? `Prompt Replay: deleted event ${id}. Assets moved to .promptreplay/trash/${stamp}-${id}/`
-              : `Prompt Replay: event ${id} not found in events.jsonl (already removed?).`
+      trashName ? `Prompt Replay: deleted event ${id}. Assets moved to .promptreplay/trash/${trashName}/`
+                : `Prompt Replay: event ${id} not found in events.jsonl (already removed?).`
     );
   } catch (err) {
     console.error('[Prompt Replay] deleteEvent error:', err);
@@ -438,50 +612,20 @@ async function deleteEventAndAssets(id: string, store: Store) {
 /* ---------------- Restore from Trash ---------------- */
 
 async function restoreDeletedEventViaUI(store: Store) {
-  const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+  const root = store.rootPath() || '';
   if (!root) { vscode.window.showWarningMessage('Open a folder/workspace first.'); return; }
 
-  const prDir = path.join(root, '.promptreplay');
-  const trashDir = vscode.Uri.file(path.join(prDir, 'trash'));
-  if (!(await exists(trashDir))) {
-    vscode.window.showInformationMessage('Prompt Replay: trash is empty.');
-    return;
-  }
-
-  const entries = await readDirMaybe(trashDir);
-  const candidates: { label: string; description: string; detail?: string; dir: vscode.Uri; id: string }[] = [];
-
-  for (const entry of entries) {
-    const name = entry[0];
-    const kind = entry[1];
-    if (kind !== vscode.FileType.Directory) continue;
-
-    const dir = vscode.Uri.file(path.join(trashDir.fsPath, name));
-    const inner = await readDirMaybe(dir);
-
-    const meta = inner.find((ent) => ent[0].startsWith('event-') && ent[0].endsWith('.json'));
-    if (!meta) continue;
-
-    const id = meta[0].slice('event-'.length, -'.json'.length);
-    const jsonUri = vscode.Uri.file(path.join(dir.fsPath, meta[0]));
-
-    let prompt = '';
-    let timestamp = '';
-    try {
-      const raw = await vscode.workspace.fs.readFile(jsonUri);
-      const obj = JSON.parse(Buffer.from(raw).toString('utf8')) as PromptEvent;
-      prompt = (obj.prompt || '').toString();
-      timestamp = new Date(obj.timestamp || Date.now()).toLocaleString();
-    } catch {}
-
-    candidates.push({
+  const entries = await listTrash(root);
+  const candidates = entries.map(entry => {
+    const prompt = (entry.event?.prompt || '').toString();
+    const timestamp = entry.event ? new Date(entry.event.timestamp || Date.now()).toLocaleString() : '';
+    return {
       label: prompt ? (prompt.length > 90 ? prompt.slice(0, 87) + '…' : prompt) : `(no prompt)`,
-      description: `id: ${id} • ${timestamp}`,
-      detail: `Trash folder: ${name}`,
-      dir,
-      id
-    });
-  }
+      description: `id: ${entry.id} • ${timestamp}`,
+      detail: `Trash folder: ${entry.name}`,
+      entry
+    };
+  });
 
   if (candidates.length === 0) {
     vscode.window.showInformationMessage('Prompt Replay: no deleted events found in trash.');
@@ -495,109 +639,29 @@ async function restoreDeletedEventViaUI(store: Store) {
   });
   if (!picked) return;
 
-  await restoreDeletedEventFromDir(picked.dir, picked.id, store);
-}
-
-async function restoreDeletedEventFromDir(trashEventDir: vscode.Uri, id: string, store: Store) {
-  const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-  if (!root) { vscode.window.showWarningMessage('Workspace root not found.'); return; }
-
-  const prDir = path.join(root, '.promptreplay');
-  const jsonUri = vscode.Uri.file(path.join(trashEventDir.fsPath, `event-${id}.json`));
-
-  let ev: PromptEvent | undefined;
-  try {
-    const raw = await vscode.workspace.fs.readFile(jsonUri);
-    ev = JSON.parse(Buffer.from(raw).toString('utf8')) as PromptEvent;
-  } catch { vscode.window.showErrorMessage('Prompt Replay: could not read trashed event JSON.'); return; }
-  if (!ev) return;
-
-  const existing = (await store.readEvents()).some(e => e.id === id);
-  if (!existing) {
-    const maxEvents = vscode.workspace.getConfiguration('promptReplay').get<number>('maxEvents', 2000);
-    await store.appendEvent(ev, maxEvents);
+  const maxEvents = vscode.workspace.getConfiguration('promptReplay').get<number>('maxEvents', 2000);
+  if (!(await restoreFromTrash(root, picked.entry, maxEvents))) {
+    vscode.window.showErrorMessage('Prompt Replay: could not read trashed event JSON.');
+    return;
   }
-
-  const srcSnaps = vscode.Uri.file(path.join(trashEventDir.fsPath, 'snapshots'));
-  const dstSnaps = vscode.Uri.file(path.join(prDir, 'snapshots', id));
-  try {
-    await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.join(prDir, 'snapshots')));
-    if (await exists(srcSnaps)) {
-      await vscode.workspace.fs.rename(srcSnaps, dstSnaps, { overwrite: true });
-    }
-  } catch {}
-
-  const srcMd = vscode.Uri.file(path.join(trashEventDir.fsPath, `event-${id}.md`));
-  const dstMd = vscode.Uri.file(path.join(prDir, 'exports', `event-${id}.md`));
-  try {
-    await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.join(prDir, 'exports')));
-    if (await exists(srcMd)) {
-      await vscode.workspace.fs.rename(srcMd, dstMd, { overwrite: true });
-    }
-  } catch {}
-
-  vscode.window.showInformationMessage(`Prompt Replay: restored event ${id} from trash.`);
+  vscode.window.showInformationMessage(`Prompt Replay: restored event ${picked.entry.id} from trash.`);
 }
 
-/* ---------------- Small helpers for export/diff ---------------- */
+/* ---------------- Restore helpers (supports before/after) ---------------- */
 
-function codeQuote(s: string) {
-  const cleaned = (s || '').replace(/\r/g, '');
-  if (cleaned.includes('\n')) return `\n\n> ${cleaned.split('\n').join('\n> ')}\n`;
-  return `“${cleaned}”`;
-}
-function truncateSha(ref: string) {
-  if (!ref) return '—';
-  if (ref.startsWith(':working:')) return 'working';
-  return ref.length > 8 ? ref.slice(0, 8) : ref;
-}
-async function readUtf8Maybe(uri: vscode.Uri): Promise<string> {
+async function offerUndo(root: string, backupId: string, summary: string) {
+  const choice = await vscode.window.showInformationMessage(summary, 'Undo');
+  if (choice !== 'Undo') return;
   try {
-    const buf = await vscode.workspace.fs.readFile(uri);
-    return Buffer.from(buf).toString('utf8');
-  } catch { return ''; }
-}
-
-type DiffOp = { t: ' ' | '+' | '-', s: string };
-function buildUnifiedDiff(before: string, after: string): string[] {
-  const A = (before ?? '').split('\n');
-  const B = (after ?? '').split('\n');
-  const n = A.length, m = B.length;
-  const dp: number[][] = Array.from({ length: n + 1 }, () => Array(m + 1).fill(0));
-  for (let i = n - 1; i >= 0; i--) for (let j = m - 1; j >= 0; j--) dp[i][j] = A[i] === B[j] ? dp[i+1][j+1]+1 : Math.max(dp[i+1][j], dp[i][j+1]);
-  const ops: DiffOp[] = [];
-  let i = 0, j = 0;
-  while (i < n && j < m) {
-    if (A[i] === B[j]) { ops.push({ t: ' ', s: A[i++] }); j++; }
-    else if (dp[i+1][j] >= dp[i][j+1]) ops.push({ t:'-', s: A[i++] });
-    else ops.push({ t:'+', s: B[j++] });
-  }
-  while (i < n) ops.push({ t:'-', s: A[i++] });
-  while (j < m) ops.push({ t:'+', s: B[j++] });
-  const context = 3, out: string[] = [];
-  let k = 0;
-  while (k < ops.length) {
-    if (ops[k].t !== ' ') {
-      let start = k; while (start > 0 && ops[start-1].t === ' ' && (k-(start-1)) <= context) start--;
-      let end = k; while (end < ops.length && ops[end].t !== ' ') end++;
-      let tail = end; while (tail < ops.length && ops[tail].t === ' ' && (tail-end) <= context) tail++;
-      for (let x = start; x < tail; x++) out.push((ops[x].t === ' ' ? ' ' : ops[x].t) + ops[x].s);
-      if (tail < ops.length) out.push('...');
-      k = tail;
-    } else k++;
+    const u = await undoRestore(root, backupId);
+    vscode.window.showInformationMessage(`Prompt Replay: undo complete — ${u.restored} restored, ${u.deleted} deleted.`);
+  } catch (e) {
+    vscode.window.showErrorMessage(`Prompt Replay: undo failed — ${e instanceof Error ? e.message : String(e)}`);
   }
-  if (out.length === 0 && A.length === B.length && A.every((v, idx) => v === B[idx])) return [' (no changes) '];
-  return out;
 }
-function countDiff(lines: string[]) {
-  let added = 0, removed = 0;
-  for (const l of lines) { if (l.startsWith('+')) added++; else if (l.startsWith('-')) removed++; }
-  return { added, removed };
-}
-
-/* ---------------- Restore helpers (supports before/after) ---------------- */
 
-async function handleRestoreEvent(message: { id: string; side?: 'before' | 'after' }, store: Store) {
+/** Restore a whole event, or one file of it when `path` is given, after the preview. */
+async function handleRestore(message: { id: string; side?: 'before' | 'after'; path?: string; repoRoot?: string }, store: Store) {
   const id = String(message.id || '');
   const side = (message.side === 'before' || message.side === 'after') ? message.side : 'after';
   if (!id) { vscode.window.showWarningMessage('Missing event id.'); return; }
@@ -606,218 +670,31 @@ async function handleRestoreEvent(message: { id: string; side?: 'before' | 'afte
   const ev = all.find(e => e.id === id);
   if (!ev) { vscode.window.showWarningMessage('Event not found.'); return; }
 
-  const confirm = await vscode.window.showWarningMessage(
-    `Restore ${ev.filesChanged.length} file(s) to the ${side.toUpperCase()} snapshot of this event? This will overwrite your working copies.`,
-    { modal: true },
-    'Restore'
-  );
-  if (confirm !== 'Restore') return;
-
-  const root = ev.repoRoot || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-  if (!root) { vscode.window.showWarningMessage('Workspace root not found.'); return; }
-
-  const backupId = `backup-${Date.now()}`;
-  const backupDir = vscode.Uri.file(path.join(root, '.promptreplay', 'restore_backups', backupId));
-  const backupBeforeDir = vscode.Uri.file(path.join(backupDir.fsPath, 'before'));
-  try { await vscode.workspace.fs.createDirectory(backupBeforeDir); } catch {}
-
-  type BackupEntry = { path: string; existed: boolean; };
-  const manifest: BackupEntry[] = [];
-
-  for (const d of ev.diffUris || []) {
-    const rel = d.path;
-    const target = vscode.Uri.file(path.join(root, rel));
-    const entry: BackupEntry = { path: rel, existed: false };
-    const st = await statMaybe(target);
-    if (st) {
-      entry.existed = true;
-      const backupTarget = vscode.Uri.file(path.join(backupBeforeDir.fsPath, rel));
-      try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(backupTarget.fsPath))); } catch {}
-      const buf = await vscode.workspace.fs.readFile(target);
-      await vscode.workspace.fs.writeFile(backupTarget, buf);
-    }
-    manifest.push(entry);
-  }
-
-  const manifestUri = vscode.Uri.file(path.join(backupDir.fsPath, 'manifest.json'));
-  await vscode.workspace.fs.writeFile(manifestUri, Buffer.from(JSON.stringify(manifest, null, 2), 'utf8'));
-
-  let restored = 0, deleted = 0, skipped = 0, errors = 0;
-
-  for (const d of ev.diffUris || []) {
-    const rel = d.path;
-    const target = vscode.Uri.file(path.join(root, rel));
-    const op = (d as any).op as ('added'|'modified'|'deleted'|undefined);
-
-    try {
-      if (side === 'after') {
-        // After: if op === deleted, remove file; else write from right
-        if (op === 'deleted') {
-          try { await vscode.workspace.fs.delete(target, { recursive: false, useTrash: false }); deleted++; }
-          catch { skipped++; }
-        } else {
-          const bytes = await readBytesFlexible(d.right);
-          if (bytes === undefined) { skipped++; }
-          else {
-            try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(target.fsPath))); } catch {}
-            await vscode.workspace.fs.writeFile(target, bytes);
-            restored++;
-          }
-        }
-      } else { // before
-        // Before: if op === added, remove file; else write from left
-        if (op === 'added') {
-          try { await vscode.workspace.fs.delete(target, { recursive: false, useTrash: false }); deleted++; }
-          catch { skipped++; }
-        } else {
-          const bytes = await readBytesFlexible(d.left);
-          if (bytes === undefined) { skipped++; }
-          else {
-            try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(target.fsPath))); } catch {}
-            await vscode.workspace.fs.writeFile(target, bytes);
-            restored++;
-          }
-        }
-      }
-    } catch {
-      errors++;
-    }
-  }
-
-  const undoAction = 'Undo';
-  const summary = `Prompt Replay: restore (${side}) — ${restored} restored, ${deleted} deleted, ${skipped} skipped${errors ? `, ${errors} errors` : ''}.`;
-  const choice = await vscode.window.showInformationMessage(summary, undoAction);
-
-  if (choice === 'Undo') {
-    let uRestored = 0, uDeleted = 0, uErrors = 0;
-    try {
-      const raw = await vscode.workspace.fs.readFile(manifestUri);
-      const manifestParsed = JSON.parse(Buffer.from(raw).toString('utf8')) as BackupEntry[];
-      for (const entry of manifestParsed) {
-        const rel = entry.path;
-        const target = vscode.Uri.file(path.join(root, rel));
-        const backupFile = vscode.Uri.file(path.join(backupBeforeDir.fsPath, rel));
-        try {
-          if (entry.existed) {
-            const buf = await vscode.workspace.fs.readFile(backupFile);
-            try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(target.fsPath))); } catch {}
-            await vscode.workspace.fs.writeFile(target, buf);
-            uRestored++;
-          } else {
-            await vscode.workspace.fs.delete(target, { recursive: false, useTrash: false });
-            uDeleted++;
-          }
-        } catch {
-          uErrors++;
-        }
-      }
-      vscode.window.showInformationMessage(`Prompt Replay: undo complete — ${uRestored} restored, ${uDeleted} deleted${uErrors ? `, ${uErrors} errors` : ''}.`);
-    } catch {
-      vscode.window.showErrorMessage('Prompt Replay: undo failed (could not read backup).');
-    }
+  // a file is looked up among the event's own entries; the webview's path is never used directly
+  let only: PromptEvent['diffUris'] | undefined;
+  if (message.path !== undefined) {
+    const rel = String(message.path), repoRoot = message.repoRoot ? String(message.repoRoot) : '';
+    const fileEntry = (ev.diffUris || []).find(d => d.path === rel && (d.repoRoot || '') === repoRoot);
+    if (!fileEntry) { vscode.window.showWarningMessage('File not part of this event.'); return; }
+    only = [fileEntry];
   }
-}
-
-async function handleRestoreFile(message: { id: string; path: string; side?: 'before' | 'after' }, store: Store) {
-  const id = String(message.id || '');
-  const rel = String(message.path || '');
-  const side = (message.side === 'before' || message.side === 'after') ? message.side : 'after';
-  if (!id || !rel) { vscode.window.showWarningMessage('Missing event id or file path.'); return; }
-
-  const all = await store.readEvents();
-  const ev = all.find(e => e.id === id);
-  if (!ev) { vscode.window.showWarningMessage('Event not found.'); return; }
-
-  const fileEntry = (ev.diffUris || []).find(d => d.path === rel);
-  if (!fileEntry) { vscode.window.showWarningMessage('File not part of this event.'); return; }
-
-  const confirm = await vscode.window.showWarningMessage(
-    `Restore file “${rel}” to the ${side.toUpperCase()} snapshot of this event? This will overwrite your working copy.`,
-    { modal: true },
-    'Restore'
-  );
-  if (confirm !== 'Restore') return;
 
-  const root = ev.repoRoot || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+  const root = eventRoot(ev, store);
   if (!root) { vscode.window.showWarningMessage('Workspace root not found.'); return; }
 
-  const backupId = `backup-${Date.now()}`;
-  const backupDir = vscode.Uri.file(path.join(root, '.promptreplay', 'restore_backups', backupId));
-  const backupBeforeDir = vscode.Uri.file(path.join(backupDir.fsPath, 'before'));
-  try { await vscode.workspace.fs.createDirectory(backupBeforeDir); } catch {}
-
-  type BackupEntry = { path: string; existed: boolean; };
-  const entry: BackupEntry = { path: rel, existed: false };
-  const target = vscode.Uri.file(path.join(root, rel));
-  const st = await statMaybe(target);
-  if (st) {
-    entry.existed = true;
-    const backupTarget = vscode.Uri.file(path.join(backupBeforeDir.fsPath, rel));
-    try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(backupTarget.fsPath))); } catch {}
-    const buf = await vscode.workspace.fs.readFile(target);
-    await vscode.workspace.fs.writeFile(backupTarget, buf);
-  }
-  const manifestUri = vscode.Uri.file(path.join(backupDir.fsPath, 'manifest.json'));
-  await vscode.workspace.fs.writeFile(manifestUri, Buffer.from(JSON.stringify([entry], null, 2), 'utf8'));
+  const picked = await pickFilesToRestore(root, ev, side, only);
+  if (!picked) return;
 
-  let didRestore = 0, didDelete = 0, skipped = 0, errors = 0;
+  let r;
   try {
-    const op = (fileEntry as any).op as ('added'|'modified'|'deleted'|undefined);
-    if (side === 'after') {
-      if (op === 'deleted') {
-        try { await vscode.workspace.fs.delete(target, { recursive: false, useTrash: false }); didDelete++; }
-        catch { skipped++; }
-      } else {
-        const bytes = await readBytesFlexible(fileEntry.right);
-        if (bytes === undefined) { skipped++; }
-        else {
-          try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(target.fsPath))); } catch {}
-          await vscode.workspace.fs.writeFile(target, bytes);
-          didRestore++;
-        }
-      }
-    } else {
-      if (op === 'added') {
-        try { await vscode.workspace.fs.delete(target, { recursive: false, useTrash: false }); didDelete++; }
-        catch { skipped++; }
-      } else {
-        const bytes = await readBytesFlexible(fileEntry.left);
-        if (bytes === undefined) { skipped++; }
-        else {
-          try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(target.fsPath))); } catch {}
-          await vscode.workspace.fs.writeFile(target, bytes);
-          didRestore++;
-        }
-      }
-    }
-  } catch {
-    errors++;
-  }
-
-  const undoAction = 'Undo';
-  const summary = `Prompt Replay: file restore (${side}) — ${didRestore ? 'restored' : didDelete ? 'deleted' : 'skipped'}${errors ? `, ${errors} errors` : ''}.`;
-  const choice = await vscode.window.showInformationMessage(summary, undoAction);
-
-  if (choice === 'Undo') {
-    try {
-      const raw = await vscode.workspace.fs.readFile(manifestUri);
-      const [back] = JSON.parse(Buffer.from(raw).toString('utf8')) as BackupEntry[];
-      const targetUri = vscode.Uri.file(path.join(root, back.path));
-      try {
-        if (back.existed) {
-          const backupFile = vscode.Uri.file(path.join(backupBeforeDir.fsPath, back.path));
-          const buf = await vscode.workspace.fs.readFile(backupFile);
-          try { await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(targetUri.fsPath))); } catch {}
-          await vscode.workspace.fs.writeFile(targetUri, buf);
-        } else {
-          await vscode.workspace.fs.delete(targetUri, { recursive: false, useTrash: false });
-        }
-        vscode.window.showInformationMessage('Prompt Replay: undo complete for file.');
-      } catch {
-        vscode.window.showErrorMessage('Prompt Replay: undo failed for file.');
-      }
-    } catch {
-      vscode.window.showErrorMessage('Prompt Replay: undo failed (could not read backup).');
-    }
+    r = await restoreEvent(root, ev, side, picked.map(f => f.entry));
+  } catch (e) {
+    if (!(e instanceof RestoreError)) throw e;
+    console.error('[Prompt Replay] restore failed:', e);
+    vscode.window.showErrorMessage(`Prompt Replay: restore failed — ${e.message}`);
+    return;
   }
+  await offerUndo(root, r.backupId, only
+    ? `Prompt Replay: file restore (${side}) — ${r.restored ? 'restored' : r.deleted ? 'deleted' : 'skipped'}.`
+    : `Prompt Replay: restore (${side}) — ${r.restored} restored, ${r.deleted} deleted, ${r.skipped} skipped.`);
 }
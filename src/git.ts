@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { execFile } from 'node:child_process';
 import { promisify } from 'node:util';
 const execFileAsync = promisify(execFile);
@@ -8,12 +9,13 @@ export type GitAPI = {
   repositories: any[];
 };
 
-export async function getFileAtRef(repoRoot: string, ref: string, relPath: string): Promise<string | undefined> {
+/** Exact bytes of `relPath` at `ref` (no text decoding, so binary files survive). */
+export async function getFileAtRef(repoRoot: string, ref: string, relPath: string): Promise<Buffer | undefined> {
   try {
-    const { stdout } = await execFileAsync('git', ['show', `${ref}:${relPath}`], { cwd: repoRoot, maxBuffer: 10 * 1024 * 1024 });
+    const { stdout } = await execFileAsync('git', ['show', `${ref}:${relPath}`], { cwd: repoRoot, encoding: 'buffer', maxBuffer: 256 * 1024 * 1024 });
     return stdout;
   } catch {
-    return undefined; // not present at ref, or binary/too large/error
+    return undefined; // not present at ref, too large, or error
   }
 }
 
@@ -30,6 +32,23 @@ export function primaryRepo(api?: GitAPI): any | undefined {
   return api.repositories[0];
 }
 
+export function repoRootOf(repo: any): string | undefined {
+  return repo?.rootUri?.fsPath;
+}
+
+/** The innermost repository containing `fsPath` (nested repos win over their parents). */
+export function repoForPath(api: GitAPI | undefined, fsPath: string): any | undefined {
+  let best: any, bestLen = -1;
+  for (const repo of api?.repositories ?? []) {
+    const root = repoRootOf(repo);
+    if (!root) continue;
+    const rel = path.relative(root, fsPath);
+    if (rel.startsWith('..') || path.isAbsolute(rel)) continue;
+    if (root.length > bestLen) { best = repo; bestLen = root.length; }
+  }
+  return best;
+}
+
 export function headSha(repo: any): string | undefined {
   try {
     return repo?.state?.HEAD?.commit;
@@ -38,22 +57,29 @@ export function headSha(repo: any): string | undefined {
   }
 }
 
-export async function collectWorkingDiff(repo: any): Promise<{ path: string; left?: vscode.Uri; right?: vscode.Uri }[]> {
-  const results: { path: string; left?: vscode.Uri; right?: vscode.Uri }[] = [];
-  const ws = vscode.workspace.workspaceFolders?.[0];
-  if (!ws) return results;
-
-  // Combine un-staged + staged
-  const changes = [
-    ...(repo?.state?.workingTreeChanges ?? []),
-    ...(repo?.state?.indexChanges ?? [])
-  ];
-
-  for (const c of changes) {
-    const left = c.originalUri ?? c.renameResourceUri ?? c.uri;
-    const right = c.uri;
-    const rel = vscode.workspace.asRelativePath(right);
-    results.push({ path: rel, left, right });
+export type WorkingChange = { path: string; repoRoot: string; uri: vscode.Uri };
+
+/**
+ * Staged + unstaged changes of every repository the git extension knows about. Paths are
+ * relative to their own repository; a file reported by both a parent and a nested repo is
+ * attributed to the nested one.
+ */
+export async function collectWorkingChanges(api: GitAPI | undefined): Promise<WorkingChange[]> {
+  const byPath = new Map<string, WorkingChange>();
+
+  for (const repo of api?.repositories ?? []) {
+    const changes = [
+      ...(repo?.state?.workingTreeChanges ?? []),
+      ...(repo?.state?.indexChanges ?? [])
+    ];
+    for (const c of changes) {
+      const uri: vscode.Uri = c.uri;
+      const owner = repoForPath(api, uri.fsPath);
+      const repoRoot = repoRootOf(owner);
+      if (!repoRoot || owner !== repo) continue;
+      const rel = path.relative(repoRoot, uri.fsPath).replace(/\\/g, '/');
+      byPath.set(uri.fsPath, { path: rel, repoRoot, uri });
+    }
   }
-  return results;
+  return Array.from(byPath.values());
 }
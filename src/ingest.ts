@@ -0,0 +1,253 @@
+import * as vscode from 'vscode';
+import * as http from 'node:http';
+import * as path from 'path';
+import { promises as fsp } from 'node:fs';
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+import { Store } from './store';
+import { takeCheckpoint, logPromptEvent, attachMetadata } from './recorder';
+
+/* ---------------- Request schema ---------------- */
+
+export type IngestRequest =
+  | { type: 'checkpoint' }
+  | { type: 'logPrompt'; prompt: string; response?: string; tags?: string[]; files?: string[]; metadata?: Record<string, string> }
+  | { type: 'attachMetadata'; id?: string; metadata: Record<string, string> };
+
+/** JSON Schema for POST /v1/events bodies (also served at GET /v1/schema). */
+export const INGEST_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Prompt Replay ingest request',
+  oneOf: [
+    {
+      type: 'object',
+      properties: { type: { const: 'checkpoint' } },
+      required: ['type'],
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      properties: {
+        type: { const: 'logPrompt' },
+        prompt: { type: 'string', minLength: 1 },
+        response: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        files: { type: 'array', items: { type: 'string' }, description: 'Workspace-relative paths; defaults to files changed on disk since the checkpoint' },
+        metadata: { type: 'object', additionalProperties: { type: 'string' } }
+      },
+      required: ['type', 'prompt'],
+      additionalProperties: false
+    },
+    {
+      type: 'object',
+      properties: {
+        type: { const: 'attachMetadata' },
+        id: { type: 'string', description: 'Event id; defaults to the most recent event' },
+        metadata: { type: 'object', additionalProperties: { type: 'string' } }
+      },
+      required: ['type', 'metadata'],
+      additionalProperties: false
+    }
+  ]
+};
+
+const ALLOWED_KEYS: Record<string, string[]> = {
+  checkpoint: ['type'],
+  logPrompt: ['type', 'prompt', 'response', 'tags', 'files', 'metadata'],
+  attachMetadata: ['type', 'id', 'metadata']
+};
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every(x => typeof x === 'string');
+}
+function isStringMap(v: unknown): v is Record<string, string> {
+  return !!v && typeof v === 'object' && !Array.isArray(v) && Object.values(v as object).every(x => typeof x === 'string');
+}
+
+/** Validate a parsed body against INGEST_SCHEMA. */
+export function validateIngestRequest(input: unknown): { req?: IngestRequest; errors: string[] } {
+  const errors: string[] = [];
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { errors: ['body must be a JSON object'] };
+  const body = input as Record<string, unknown>;
+
+  const allowed = typeof body.type === 'string' ? ALLOWED_KEYS[body.type] : undefined;
+  if (!allowed) return { errors: [`"type" must be one of: ${Object.keys(ALLOWED_KEYS).join(', ')}`] };
+  for (const k of Object.keys(body)) if (!allowed.includes(k)) errors.push(`unknown property "${k}"`);
+
+  if (body.type === 'logPrompt') {
+    if (typeof body.prompt !== 'string' || !body.prompt) errors.push('"prompt" must be a non-empty string');
+    if (body.response !== undefined && typeof body.response !== 'string') errors.push('"response" must be a string');
+    if (body.tags !== undefined && !isStringArray(body.tags)) errors.push('"tags" must be an array of strings');
+    if (body.files !== undefined && !isStringArray(body.files)) errors.push('"files" must be an array of strings');
+    if (body.metadata !== undefined && !isStringMap(body.metadata)) errors.push('"metadata" must be an object of strings');
+  }
+  if (body.type === 'attachMetadata') {
+    if (body.id !== undefined && typeof body.id !== 'string') errors.push('"id" must be a string');
+    if (!isStringMap(body.metadata)) errors.push('"metadata" must be an object of strings');
+  }
+
+  return errors.length ? { errors } : { req: body as IngestRequest, errors };
+}
+
+/* ---------------- Server ---------------- */
+
+const MAX_BODY = 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: string[]) { super(message); }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (b: Buffer) => {
+      size += b.length;
+      if (size > MAX_BODY) { reject(new HttpError(413, 'request body too large')); req.destroy(); return; }
+      chunks.push(b);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function tokenMatches(header: string | undefined, token: string): boolean {
+  const m = /^Bearer\s+(.+)$/i.exec(header ?? '');
+  if (!m) return false;
+  const a = Buffer.from(m[1].trim()), b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Make sure `dir/.gitignore` lists `name`, so the file holding the token is never committed. */
+async function ignoreInGit(dir: string, name: string) {
+  const file = path.join(dir, '.gitignore');
+  const current = await fsp.readFile(file, 'utf8').catch(() => '');
+  if (current.split(/\r?\n/).some(l => l.trim() === name || l.trim() === `/${name}`)) return;
+  await fsp.writeFile(file, `${current}${current && !current.endsWith('\n') ? '\n' : ''}${name}\n`);
+}
+
+/**
+ * Localhost (or Unix-socket) endpoint that lets external agents record events through the
+ * same pipeline as the "Log Prompt…" command. Every request needs `Authorization: Bearer <token>`.
+ */
+export class IngestServer {
+  private server?: http.Server;
+  private queue: Promise<unknown> = Promise.resolve();
+  private discoveryFile?: string;
+
+  constructor(private ctx: vscode.ExtensionContext, private store: Store, private onChange: () => void) {}
+
+  private async token(): Promise<string> {
+    const configured = vscode.workspace.getConfiguration('promptReplay.ingest').get<string>('token', '');
+    if (configured) return configured;
+    let t = await this.ctx.secrets.get('promptReplay.ingestToken');
+    if (!t) {
+      t = randomBytes(24).toString('hex');
+      await this.ctx.secrets.store('promptReplay.ingestToken', t);
+    }
+    return t;
+  }
+
+  /** Serialize store mutations so concurrent agents can't interleave writes. */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(fn, fn);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async dispatch(req: IngestRequest): Promise<object> {
+    if (req.type === 'checkpoint') {
+      const sha = await takeCheckpoint(this.store);
+      if (!sha) throw new HttpError(409, 'no workspace folder open');
+      return { ok: true, checkpoint: sha };
+    }
+    if (req.type === 'logPrompt') {
+      const outcome = await logPromptEvent(this.store, {
+        prompt: req.prompt, responsePreview: req.response, tags: req.tags, files: req.files, metadata: req.metadata
+      });
+      if ('skipped' in outcome) return { ok: true, skipped: outcome.skipped };
+      this.onChange();
+      return {
+        ok: true,
+        event: { id: outcome.event.id, filesChanged: outcome.event.filesChanged, commits: outcome.event.commits },
+        commitError: outcome.commitError
+      };
+    }
+    const ev = await attachMetadata(this.store, req.metadata, req.id);
+    if (!ev) throw new HttpError(404, 'event not found');
+    this.onChange();
+    return { ok: true, event: { id: ev.id, metadata: ev.metadata } };
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse, token: string) {
+    const send = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    try {
+      if (!tokenMatches(req.headers.authorization, token)) throw new HttpError(401, 'missing or invalid bearer token');
+      const url = (req.url ?? '/').split('?')[0];
+
+      if (req.method === 'GET' && url === '/v1/health') return send(200, { ok: true });
+      if (req.method === 'GET' && url === '/v1/schema') return send(200, INGEST_SCHEMA);
+      if (url !== '/v1/events') throw new HttpError(404, 'not found');
+      if (req.method !== 'POST') throw new HttpError(405, 'use POST');
+
+      let body: unknown;
+      try { body = JSON.parse(await readBody(req)); } catch (e) {
+        if (e instanceof HttpError) throw e;
+        throw new HttpError(400, 'body is not valid JSON');
+      }
+      const { req: parsed, errors } = validateIngestRequest(body);
+      if (!parsed) throw new HttpError(400, 'invalid request', errors);
+
+      send(200, await this.exclusive(() => this.dispatch(parsed)));
+    } catch (e) {
+      if (e instanceof HttpError) return send(e.status, { ok: false, error: e.message, details: e.details });
+      console.error('[Prompt Replay] ingest error:', e);
+      send(500, { ok: false, error: 'internal error' });
+    }
+  }
+
+  async start(): Promise<string | undefined> {
+    const cfg = vscode.workspace.getConfiguration('promptReplay.ingest');
+    const root = this.store.rootPath();
+    if (!root) return;
+    const token = await this.token();
+    const socketPath = cfg.get<string>('socketPath', '');
+    const port = cfg.get<number>('port', 0);
+
+    const server = http.createServer((req, res) => { void this.handle(req, res, token); });
+    if (socketPath) { try { await fsp.unlink(socketPath); } catch {} }
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      if (socketPath) server.listen(socketPath, () => resolve());
+      else server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+
+    const addr = server.address();
+    const address = socketPath || (addr && typeof addr === 'object' ? `http://127.0.0.1:${addr.port}` : '');
+
+    // Discovery: env vars for integrated terminals, and a private file for everything else
+    this.ctx.environmentVariableCollection.replace('PROMPT_REPLAY_URL', address);
+    this.ctx.environmentVariableCollection.replace('PROMPT_REPLAY_TOKEN', token);
+    this.discoveryFile = path.join(root, '.promptreplay', 'ingest.json');
+    await this.store.ensureDir();
+    await ignoreInGit(path.dirname(this.discoveryFile), path.basename(this.discoveryFile));
+    // `mode` only applies to a new file: an existing one is narrowed before the token goes in
+    await fsp.chmod(this.discoveryFile, 0o600).catch(() => {});
+    await fsp.writeFile(this.discoveryFile, JSON.stringify({ address, token, pid: process.pid }, null, 2), { mode: 0o600 });
+
+    return address;
+  }
+
+  async stop() {
+    const server = this.server;
+    this.server = undefined;
+    this.ctx.environmentVariableCollection.delete('PROMPT_REPLAY_URL');
+    this.ctx.environmentVariableCollection.delete('PROMPT_REPLAY_TOKEN');
+    if (this.discoveryFile) { try { await fsp.unlink(this.discoveryFile); } catch {} }
+    if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+}
@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+import { Insights } from './core/insights';
+
+export class InsightsPanel {
+  public static current?: InsightsPanel;
+  private panel: vscode.WebviewPanel;
+
+  private constructor(panel: vscode.WebviewPanel) {
+    this.panel = panel;
+  }
+
+  static createOrShow() {
+    const column = vscode.ViewColumn.Active;
+    if (InsightsPanel.current) {
+      InsightsPanel.current.panel.reveal(column);
+      return InsightsPanel.current;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'promptReplay.insights',
+      'Prompt Replay Insights',
+      column,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    const inst = new InsightsPanel(panel);
+    InsightsPanel.current = inst;
+    panel.onDidDispose(() => { InsightsPanel.current = undefined; });
+    return inst;
+  }
+
+  setInsights(data: Insights) {
+    this.panel.webview.html = this.renderHtml(data);
+  }
+
+  onMessage(handler: (msg: any) => void) {
+    this.panel.webview.onDidReceiveMessage(handler);
+  }
+
+  private esc(s: string): string {
+    return (s ?? '').toString().replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;');
+  }
+
+  private pct(x: number): string {
+    return `${Math.round(x * 100)}%`;
+  }
+
+  /** Horizontal bar scaled against `max`, with the value printed next to it. */
+  private bar(value: number, max: number, cls = ''): string {
+    const w = max ? Math.max(1, Math.round((value / max) * 100)) : 0;
+    return `<div class="bar ${cls}"><span style="width:${value ? w : 0}%"></span><em>${value}</em></div>`;
+  }
+
+  private renderHtml(d: Insights): string {
+    const t = d.totals;
+    const maxDay = Math.max(0, ...d.perDay.map(x => x.added + x.removed));
+    const maxDayEvents = Math.max(0, ...d.perDay.map(x => x.events));
+    const maxTag = Math.max(0, ...d.perTag.map(x => x.added));
+    const maxFile = Math.max(0, ...d.perFile.map(x => x.events));
+
+    const dayRows = d.perDay.slice(-60).map(x => `
+      <tr><td class="mono">${x.day}</td><td>${this.bar(x.events, maxDayEvents)}</td>
+          <td><span class="add">+${x.added}</span> <span class="del">−${x.removed}</span></td>
+          <td>${this.bar(x.added + x.removed, maxDay, 'churn')}</td></tr>`).join('');
+
+    const tagRows = d.perTag.map(x => `
+      <tr><td><span class="tag">${this.esc(x.tag)}</span></td><td>${x.events}</td>
+          <td><span class="add">+${x.added}</span> <span class="del">−${x.removed}</span></td>
+          <td>${this.bar(x.added, maxTag)}</td><td>${this.pct(x.survivalRate)}</td></tr>`).join('');
+
+    const fileRows = d.perFile.slice(0, 25).map(x => `
+      <tr><td class="mono">${this.esc(x.file)}</td><td>${this.bar(x.events, maxFile)}</td>
+          <td><span class="add">+${x.added}</span> <span class="del">−${x.removed}</span></td><td>${x.surviving}</td></tr>`).join('');
+
+    const eventRows = d.perEvent.slice(0, 100).map(x => {
+      const prompt = x.prompt.length > 90 ? x.prompt.slice(0, 87) + '…' : x.prompt;
+      return `
+      <tr><td class="mono">${this.esc(new Date(x.timestamp).toLocaleString())}</td>
+          <td><a href="#" data-id="${this.esc(x.id)}">${this.esc(prompt)}</a> ${x.tags.map(tag => `<span class="tag">${this.esc(tag)}</span>`).join(' ')}</td>
+          <td>${x.files}</td><td><span class="add">+${x.added}</span> <span class="del">−${x.removed}</span></td>
+          <td>${x.added ? this.pct(Math.min(1, x.surviving / x.added)) : '—'}</td></tr>`;
+    }).join('');
+
+    const sourceLabel = d.source === 'head' ? 'HEAD' : 'working tree';
+
+    return `<!doctype html>
+<html>
+<head>
+  <meta charset="UTF-8" />
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-editor-foreground); padding: 10px; }
+    .toolbar { display:flex; gap:8px; margin-bottom:12px; align-items:center; }
+    .tiles { display:flex; gap:10px; flex-wrap:wrap; margin-bottom:16px; }
+    .tile { border: 1px solid var(--vscode-panel-border); border-radius: 8px; padding: 10px 14px; min-width: 120px; }
+    .tile b { display:block; font-size: 20px; }
+    .tile span { font-size: 11px; opacity: .7; }
+    h2 { font-size: 13px; margin: 18px 0 6px; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th { text-align:left; font-weight:600; opacity:.8; padding: 4px; border-bottom: 1px solid var(--vscode-panel-border); }
+    td { padding: 4px; vertical-align: middle; }
+    .mono { font-family: var(--vscode-editor-font-family); }
+    .bar { position: relative; height: 12px; min-width: 140px; }
+    .bar span { position:absolute; left:0; top:0; bottom:0; background: var(--vscode-charts-blue, #3794ff); border-radius: 3px; }
+    .bar.churn span { background: var(--vscode-charts-orange, #d18616); }
+    .bar em { position:relative; padding-left: 4px; font-style: normal; font-size: 11px; }
+    .add { color: var(--vscode-gitDecoration-addedResourceForeground, #81b88b); }
+    .del { color: var(--vscode-gitDecoration-deletedResourceForeground, #c74e39); }
+    .tag { display:inline-block; padding:1px 6px; border-radius:10px; border:1px solid var(--vscode-panel-border); font-size:11px; opacity:.8; }
+    .muted { opacity:.7; }
+    a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <span>Survival measured against</span>
+    <select id="source">
+      <option value="working" ${d.source === 'working' ? 'selected' : ''}>working tree</option>
+      <option value="head" ${d.source === 'head' ? 'selected' : ''}>HEAD</option>
+    </select>
+    <span style="flex:1"></span>
+    <button id="refresh">Refresh</button>
+  </div>
+
+  <div class="tiles">
+    <div class="tile"><b>${t.events}</b><span>events</span></div>
+    <div class="tile"><b><span class="add">+${t.added}</span> <span class="del">−${t.removed}</span></b><span>lines changed by prompts</span></div>
+    <div class="tile"><b>${t.events ? Math.round(t.added / t.events) : 0}</b><span>lines added per event</span></div>
+    <div class="tile"><b>${t.files}</b><span>files touched</span></div>
+    <div class="tile"><b>${this.pct(t.survivalRate)}</b><span>of AI-added lines still in ${sourceLabel} (${t.surviving}/${t.added})</span></div>
+  </div>
+
+  <h2>Events per day</h2>
+  ${dayRows ? `<table><thead><tr><th>Day</th><th>Events</th><th>Lines</th><th>Churn</th></tr></thead><tbody>${dayRows}</tbody></table>` : '<p class="muted">No events yet.</p>'}
+
+  <h2>Per tag</h2>
+  ${tagRows ? `<table><thead><tr><th>Tag</th><th>Events</th><th>Lines</th><th>Added</th><th>Survival</th></tr></thead><tbody>${tagRows}</tbody></table>` : '<p class="muted">No tagged events.</p>'}
+
+  <h2>Most-touched files</h2>
+  ${fileRows ? `<table><thead><tr><th>File</th><th>Events</th><th>Lines</th><th>AI lines now</th></tr></thead><tbody>${fileRows}</tbody></table>` : '<p class="muted">No files.</p>'}
+
+  <h2>Per event</h2>
+  ${eventRows ? `<table><thead><tr><th>When</th><th>Prompt</th><th>Files</th><th>Lines</th><th>Survival</th></tr></thead><tbody>${eventRows}</tbody></table>` : '<p class="muted">No events yet.</p>'}
+
+  <script>
+    const vscode = acquireVsCodeApi();
+    document.getElementById('refresh').addEventListener('click', () => {
+      vscode.postMessage({ type: 'refresh', source: document.getElementById('source').value });
+    });
+    document.getElementById('source').addEventListener('change', (e) => {
+      vscode.postMessage({ type: 'refresh', source: e.target.value });
+    });
+    document.body.addEventListener('click', (e) => {
+      const a = e.target.closest('a[data-id]');
+      if (!a) return;
+      e.preventDefault();
+      vscode.postMessage({ type: 'showEvent', id: a.getAttribute('data-id') });
+    });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,53 @@
+import { matchLines } from './diff';
+
+export type MergeLabels = { ours: string; base: string; theirs: string };
+export type MergeResult = { text: string; conflicts: number };
+
+function sameLines(x: string[], y: string[]): boolean {
+  return x.length === y.length && x.every((v, i) => v === y[i]);
+}
+
+/**
+ * Line-based three-way merge (diff3). `ours` and `theirs` are both compared against `base`;
+ * regions changed on only one side are taken from that side, regions changed identically on both
+ * sides are taken once, and everything else becomes a conflict block with git-style markers.
+ */
+export function merge3(base: string, ours: string, theirs: string, labels: MergeLabels): MergeResult {
+  const O = base.split('\n'), A = ours.split('\n'), B = theirs.split('\n');
+  const mA = matchLines(O, A), mB = matchLines(O, B);
+  const out: string[] = [];
+  let conflicts = 0;
+
+  const resolve = (a: string[], o: string[], b: string[]) => {
+    if (sameLines(a, o)) out.push(...b);
+    else if (sameLines(b, o) || sameLines(a, b)) out.push(...a);
+    else {
+      conflicts++;
+      out.push(`<<<<<<< ${labels.ours}`, ...a, `||||||| ${labels.base}`, ...o, '=======', ...b, `>>>>>>> ${labels.theirs}`);
+    }
+  };
+
+  let o = 0, a = 0, b = 0;
+  while (o < O.length || a < A.length || b < B.length) {
+    // stable run: base lines matched in-order on both sides
+    let k = 0;
+    while (o + k < O.length && mA[o + k] === a + k && mB[o + k] === b + k) k++;
+    if (k > 0) {
+      out.push(...O.slice(o, o + k));
+      o += k; a += k; b += k;
+      continue;
+    }
+
+    // unstable region: runs until the next base line matched on both sides
+    let j = o;
+    while (j < O.length && (mA[j] < a || mB[j] < b)) j++;
+    if (j >= O.length) {
+      resolve(A.slice(a), O.slice(o), B.slice(b));
+      break;
+    }
+    resolve(A.slice(a, mA[j]), O.slice(o, j), B.slice(b, mB[j]));
+    o = j; a = mA[j]; b = mB[j];
+  }
+
+  return { text: out.join('\n'), conflicts };
+}
@@ -0,0 +1,125 @@
+import * as vscode from 'vscode';
+import { promises as fsp } from 'node:fs';
+
+import { Store } from './store';
+import { layout } from './core/layout';
+import { AttributedLines, attributeText, fileHistory } from './core/provenance';
+import { PromptEvent } from './types';
+
+function showEventLink(id: string): string {
+  return `command:promptReplay.showEvent?${encodeURIComponent(JSON.stringify([id]))}`;
+}
+
+function shortPrompt(ev: PromptEvent, max = 60): string {
+  const flat = (ev.prompt || '').replace(/\s+/g, ' ').trim();
+  return flat.length > max ? flat.slice(0, max - 1) + '…' : flat;
+}
+
+/**
+ * "Which prompt wrote this line?" — per-line attribution of the open document to PromptEvents.
+ * File histories are cached until events.jsonl changes; only the last step (history → current
+ * text) is recomputed per document version.
+ */
+export class ProvenanceService {
+  private stamp = -1;
+  private events: PromptEvent[] = [];
+  private byId = new Map<string, PromptEvent>();
+  private histories = new Map<string, Promise<AttributedLines>>();
+  private owners = new Map<string, { version: number; owners: (string | undefined)[] }>();
+
+  constructor(private store: Store) {}
+
+  /** Reload events when events.jsonl was rewritten since the last query. */
+  private async refresh(): Promise<boolean> {
+    const root = this.store.rootPath();
+    if (!root) return false;
+    let mtime = 0;
+    try { mtime = (await fsp.stat(layout(root).events)).mtimeMs; } catch { return false; }
+    if (mtime !== this.stamp) {
+      this.stamp = mtime;
+      this.events = await this.store.readEvents();
+      this.byId = new Map(this.events.map(e => [e.id, e]));
+      this.histories.clear();
+      this.owners.clear();
+    }
+    return true;
+  }
+
+  async ownersOf(doc: vscode.TextDocument): Promise<(string | undefined)[]> {
+    if (doc.uri.scheme !== 'file' || !(await this.refresh())) return [];
+    const key = doc.uri.fsPath;
+    const cached = this.owners.get(key);
+    if (cached && cached.version === doc.version) return cached.owners;
+
+    let history = this.histories.get(key);
+    if (!history) {
+      history = fileHistory(this.events, key, this.store.rootPath() ?? '');
+      this.histories.set(key, history);
+    }
+    const owners = attributeText(await history, doc.getText());
+    this.owners.set(key, { version: doc.version, owners });
+    return owners;
+  }
+
+  async eventAt(doc: vscode.TextDocument, line: number): Promise<PromptEvent | undefined> {
+    const id = (await this.ownersOf(doc))[line];
+    return id ? this.byId.get(id) : undefined;
+  }
+
+  event(id: string): PromptEvent | undefined {
+    return this.byId.get(id);
+  }
+}
+
+export class ProvenanceHoverProvider implements vscode.HoverProvider {
+  constructor(private service: ProvenanceService) {}
+
+  async provideHover(doc: vscode.TextDocument, pos: vscode.Position): Promise<vscode.Hover | undefined> {
+    if (!vscode.workspace.getConfiguration('promptReplay.provenance').get<boolean>('hover', true)) return;
+    const ev = await this.service.eventAt(doc, pos.line);
+    if (!ev) return;
+
+    const md = new vscode.MarkdownString(undefined, true);
+    md.isTrusted = { enabledCommands: ['promptReplay.showEvent'] };
+    md.appendMarkdown('**Prompt Replay** — line introduced by prompt\n\n');
+    md.appendText(`“${shortPrompt(ev, 300)}”`);
+    md.appendMarkdown('\n\n');
+    if (ev.tags?.length) md.appendMarkdown(ev.tags.map(t => `\`${t}\``).join(' ') + ' · ');
+    md.appendText(new Date(ev.timestamp).toLocaleString());
+    md.appendMarkdown(` · [Show in timeline](${showEventLink(ev.id)})`);
+    return new vscode.Hover(md, doc.lineAt(pos.line).range);
+  }
+}
+
+/** One lens above each block of consecutive lines introduced by the same prompt. */
+export class ProvenanceCodeLensProvider implements vscode.CodeLensProvider {
+  private changed = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changed.event;
+
+  constructor(private service: ProvenanceService) {}
+
+  refresh() {
+    this.changed.fire();
+  }
+
+  async provideCodeLenses(doc: vscode.TextDocument): Promise<vscode.CodeLens[]> {
+    if (!vscode.workspace.getConfiguration('promptReplay.provenance').get<boolean>('codeLens', true)) return [];
+    const owners = await this.service.ownersOf(doc);
+    const lenses: vscode.CodeLens[] = [];
+    for (let i = 0; i < owners.length && i < doc.lineCount; i++) {
+      const id = owners[i];
+      if (!id || owners[i - 1] === id) continue;
+      const ev = this.service.event(id);
+      if (!ev) continue;
+      let end = i;
+      while (end + 1 < owners.length && owners[end + 1] === id) end++;
+      lenses.push(new vscode.CodeLens(doc.lineAt(i).range, {
+        title: `✨ ${shortPrompt(ev)} · ${end - i + 1} line${end === i ? '' : 's'} · ${new Date(ev.timestamp).toLocaleDateString()}`,
+        tooltip: 'Prompt Replay: show the prompt that wrote these lines',
+        command: 'promptReplay.showEvent',
+        arguments: [ev.id]
+      }));
+    }
+    return lenses;
+  }
+}
@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import { spawn } from 'node:child_process';
+import * as http from 'node:http';
+import * as https from 'node:https';
+
+export type ProviderFile = { path: string; content: string };
+
+/** What a provider receives: the logged prompt plus the before contents of the event's files. */
+export type RerunRequest = { prompt: string; files: ProviderFile[] };
+
+/** What a provider returns: the proposed contents (files it omits are treated as unchanged). */
+export type RerunResult = { response?: string; files: ProviderFile[] };
+
+export interface ModelProvider {
+  readonly id: string;
+  run(req: RerunRequest): Promise<RerunResult>;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+function isProviderFile(v: unknown): v is ProviderFile {
+  return isObject(v) && typeof v.path === 'string' && typeof v.content === 'string';
+}
+
+function parseResult(raw: string, source: string): RerunResult {
+  let obj: unknown;
+  try { obj = JSON.parse(raw); } catch { throw new Error(`${source} did not return valid JSON`); }
+  if (!isObject(obj) || !Array.isArray(obj.files)) throw new Error(`${source} returned no "files" array`);
+  const files = obj.files
+    .filter(isProviderFile)
+    .map(f => ({ path: f.path.replace(/\\/g, '/'), content: f.content }));
+  return { response: typeof obj.response === 'string' ? obj.response : undefined, files };
+}
+
+/** Returns the before contents unchanged. Works offline and gives tests a deterministic provider. */
+export class StubProvider implements ModelProvider {
+  readonly id = 'stub';
+  async run(req: RerunRequest): Promise<RerunResult> {
+    return { response: 'stub provider: files returned unchanged', files: req.files.map(f => ({ ...f })) };
+  }
+}
+
+/** Runs a local program: the request JSON is written to stdin, the result JSON is read from stdout. */
+export class CommandProvider implements ModelProvider {
+  readonly id = 'command';
+  constructor(private command: string, private args: string[], private timeoutMs: number, private cwd?: string) {}
+
+  run(req: RerunRequest): Promise<RerunResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, this.args, { cwd: this.cwd, stdio: ['pipe', 'pipe', 'pipe'] });
+      const out: Buffer[] = [], err: Buffer[] = [];
+      const timer = setTimeout(() => { child.kill(); reject(new Error(`${this.command} timed out`)); }, this.timeoutMs);
+      child.stdout.on('data', (b: Buffer) => out.push(b));
+      child.stderr.on('data', (b: Buffer) => err.push(b));
+      child.on('error', e => { clearTimeout(timer); reject(e); });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code !== 0) { reject(new Error(`${this.command} exited with ${code}: ${Buffer.concat(err).toString('utf8').trim()}`)); return; }
+        try { resolve(parseResult(Buffer.concat(out).toString('utf8'), this.command)); } catch (e) { reject(e); }
+      });
+      child.stdin.end(JSON.stringify(req));
+    });
+  }
+}
+
+/** POSTs the request JSON to a local HTTP endpoint and expects the result JSON back. */
+export class HttpProvider implements ModelProvider {
+  readonly id = 'http';
+  constructor(private endpoint: string, private timeoutMs: number) {}
+
+  run(req: RerunRequest): Promise<RerunResult> {
+    return new Promise((resolve, reject) => {
+      let url: URL;
+      try { url = new URL(this.endpoint); } catch { reject(new Error(`invalid endpoint: ${this.endpoint}`)); return; }
+      const body = Buffer.from(JSON.stringify(req), 'utf8');
+      const lib = url.protocol === 'https:' ? https : http;
+      const r = lib.request(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Length': body.length },
+        timeout: this.timeoutMs
+      }, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', (b: Buffer) => chunks.push(b));
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString('utf8');
+          if ((res.statusCode ?? 500) >= 400) { reject(new Error(`${this.endpoint} responded ${res.statusCode}`)); return; }
+          try { resolve(parseResult(text, this.endpoint)); } catch (e) { reject(e); }
+        });
+      });
+      r.on('timeout', () => r.destroy(new Error(`${this.endpoint} timed out`)));
+      r.on('error', reject);
+      r.end(body);
+    });
+  }
+}
+
+/* ---------------- Registry ---------------- */
+
+const extraProviders = new Map<string, ModelProvider>();
+
+/** Let other extensions/modules plug in their own provider by id. */
+export function registerProvider(p: ModelProvider): vscode.Disposable {
+  extraProviders.set(p.id, p);
+  return new vscode.Disposable(() => { extraProviders.delete(p.id); });
+}
+
+/** Resolve the provider named by `promptReplay.rerun.provider`. */
+export function providerFromSettings(cwd?: string): ModelProvider | undefined {
+  const cfg = vscode.workspace.getConfiguration('promptReplay.rerun');
+  const id = cfg.get<string>('provider', 'stub');
+  const timeoutMs = cfg.get<number>('timeoutMs', 120000);
+
+  if (extraProviders.has(id)) return extraProviders.get(id);
+  if (id === 'stub') return new StubProvider();
+  if (id === 'command') {
+    const command = cfg.get<string>('command', '');
+    if (!command) return;
+    return new CommandProvider(command, cfg.get<string[]>('args', []), timeoutMs, cwd);
+  }
+  if (id === 'http') {
+    const endpoint = cfg.get<string>('endpoint', '');
+    if (!endpoint) return;
+    return new HttpProvider(endpoint, timeoutMs);
+  }
+  return;
+}
@@ -0,0 +1,233 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+
+import { Store } from './store';
+import { GitAPI, WorkingChange, getGitApi, primaryRepo, headSha, repoRootOf, repoForPath, collectWorkingChanges, getFileAtRef } from './git';
+import { BlobStore } from './core/blobs';
+import { dropCheckpoint, filesChangedSince, snapshotWorkingTree } from './core/checkpoint';
+import { entryLabel } from './core/events';
+import { isBinary } from './core/binary';
+import { commitEvent, DEFAULT_NOTES_REF } from './core/gitCommit';
+import { redactorFromSettings } from './redaction';
+import { EVENT_SCHEMA_VERSION } from './core/schema';
+import { FileOp, PromptEvent } from './types';
+
+/** Absolute paths of files edited in an editor since the last checkpoint. */
+export const touchedSinceCheckpoint = new Set<string>();
+
+export type LogPromptInput = {
+  prompt: string;
+  responsePreview?: string;
+  tags?: string[];
+  files?: string[];                    // explicit file list (agents editing outside the editor)
+  metadata?: Record<string, string>;
+};
+
+// commitError: set when commit-per-event is on but the commit could not be created (the event is still logged)
+export type LogOutcome = { event: PromptEvent; commitError?: string } | { skipped: string };
+
+async function exists(uri: vscode.Uri): Promise<boolean> {
+  try { await vscode.workspace.fs.stat(uri); return true; } catch { return false; }
+}
+
+/**
+ * Freeze the working tree of every repository, so the before side of each file is exactly what
+ * was on disk at checkpoint time (uncommitted edits included). Falls back to HEAD when a
+ * snapshot can't be written.
+ */
+export async function takeCheckpoint(store: Store): Promise<string | undefined> {
+  const root = store.rootPath();
+  if (!root) return;
+  const api = await getGitApi();
+  // a checkpoint taken again before anything was logged: its snapshots are not needed any more
+  for (const [repoRoot, sha] of Object.entries(store.session.checkpoints ?? {})) await dropCheckpoint(repoRoot, sha);
+  const checkpoints: Record<string, string> = {};
+  for (const repo of api?.repositories ?? []) {
+    const repoRoot = repoRootOf(repo);
+    if (!repoRoot) continue;
+    const sha = (await snapshotWorkingTree(repoRoot)) ?? headSha(repo);
+    if (sha) checkpoints[repoRoot] = sha;
+  }
+  const mainRoot = repoRootOf(repoForPath(api, root) ?? primaryRepo(api));
+  const sha = (mainRoot && checkpoints[mainRoot]) || `:working:${Date.now()}`;
+  if (!store.session.active) {
+    await store.ensureDir();
+    store.session = { active: true, repoRoot: root, lastCheckpointSha: undefined };
+  }
+  store.session = { ...store.session, lastCheckpointSha: sha, checkpoints };
+  touchedSinceCheckpoint.clear();
+  return sha;
+}
+
+/**
+ * Files changed since the checkpoint: the working tree of each repository compared with its
+ * checkpoint snapshot, so edits made on disk (agents, terminals) count as well as editor edits.
+ * A repository without a checkpoint keeps its changes that were edited in the editor.
+ */
+async function changesSinceCheckpoint(api: GitAPI | undefined, checkpoints: Record<string, string>, working: WorkingChange[]): Promise<WorkingChange[]> {
+  const out = new Map<string, WorkingChange>();
+  for (const repo of api?.repositories ?? []) {
+    const repoRoot = repoRootOf(repo);
+    const sha = repoRoot && checkpoints[repoRoot];
+    if (!sha) continue;
+    let paths: string[];
+    try { paths = await filesChangedSince(repoRoot, sha); }
+    catch (e) {
+      console.error('[Prompt Replay] could not compare with the checkpoint:', repoRoot, e);
+      continue;
+    }
+    for (const rel of paths) {
+      const uri = vscode.Uri.file(path.join(repoRoot, rel));
+      // a nested repository's files belong to it, not to the folder it sits in
+      if (repoForPath(api, uri.fsPath) === repo) out.set(uri.fsPath, { path: rel, repoRoot, uri });
+    }
+  }
+  for (const c of working) {
+    if (!checkpoints[c.repoRoot] && touchedSinceCheckpoint.has(c.uri.fsPath)) out.set(c.uri.fsPath, c);
+  }
+  return Array.from(out.values());
+}
+
+/** Snapshot the current changes into the blob store and append them as a PromptEvent. */
+export async function logPromptEvent(store: Store, input: LogPromptInput): Promise<LogOutcome> {
+  const cfg = vscode.workspace.getConfiguration('promptReplay');
+  const maxEvents = cfg.get<number>('maxEvents', 2000);
+
+  const api = await getGitApi();
+  for (const repo of api?.repositories ?? []) {
+    try { await repo?.status?.(); } catch {} // pick up edits made outside the editor
+  }
+  let changes = await collectWorkingChanges(api);
+
+  const root = store.rootPath() ?? '';
+  const checkpointRef = store.session.lastCheckpointSha;
+  const checkpoints = store.session.checkpoints ?? {};
+
+  if (input.files?.length) {
+    const wanted = new Set(input.files.map(f => path.resolve(root, f)));
+    changes = changes.filter(c => wanted.has(c.uri.fsPath));
+    if (changes.length === 0) return { skipped: 'none of the given files have changes — nothing to log.' };
+  } else if (checkpointRef) {
+    changes = await changesSinceCheckpoint(api, checkpoints, changes);
+    if (changes.length === 0) return { skipped: 'no changes since the checkpoint — nothing to log.' };
+  } else {
+    if (changes.length === 0) return { skipped: 'no changes in the working tree — nothing to log.' };
+  }
+
+  if (!(await store.unlock(root))) return { skipped: 'the store is encrypted and locked — nothing was logged.' };
+
+  // snapshots go into the content-addressed blob store with secrets masked; in an encrypted store
+  // the original of a masked file is kept as well, so restores and commits write what was there
+  const blobs = new BlobStore(root);
+  const keepRaw = blobs.sealed;
+  const redactor = redactorFromSettings();
+  const entries: PromptEvent['diffUris'] = [];
+  const kept: typeof changes = [];
+
+  for (const c of changes) {
+    // left (before); represent "no file" as empty, we rely on `op` to distinguish. Only this
+    // repository's own checkpoint applies; one opened since the checkpoint is compared with its HEAD
+    const ref = checkpoints[c.repoRoot] ?? (checkpointRef ? 'HEAD' : undefined);
+    const leftRaw = ref ? await getFileAtRef(c.repoRoot, ref, c.path) : undefined;
+
+    // right (after)
+    const rightRaw = (await exists(c.uri)) ? await vscode.workspace.fs.readFile(c.uri) : undefined;
+    if (leftRaw === undefined && rightRaw === undefined) continue;
+    const op: FileOp = rightRaw === undefined ? 'deleted' : leftRaw === undefined ? 'added' : 'modified';
+    // dirty before the checkpoint and untouched since: not part of this prompt
+    if (op === 'modified' && Buffer.from(leftRaw!).equals(rightRaw!)) continue;
+
+    const leftBytes = redactor ? redactor.bytes(leftRaw, `${c.path} (before)`) : leftRaw;
+    const rightBytes = redactor ? redactor.bytes(rightRaw, `${c.path} (after)`) : rightRaw;
+    const leftHash = await blobs.put(leftBytes ?? Buffer.alloc(0));
+    const rightHash = await blobs.put(rightBytes ?? Buffer.alloc(0));
+    const leftRawHash = keepRaw && leftRaw && leftBytes !== leftRaw ? await blobs.put(leftRaw) : undefined;
+    const rightRawHash = keepRaw && rightRaw && rightBytes !== rightRaw ? await blobs.put(rightRaw) : undefined;
+    const binary = isBinary(leftBytes) || isBinary(rightBytes);
+
+    kept.push(c);
+    entries.push({
+      path: c.path,
+      left: blobs.uriFor(leftHash),
+      right: blobs.uriFor(rightHash),
+      leftHash,
+      rightHash,
+      leftRawHash,
+      rightRawHash,
+      repoRoot: c.repoRoot !== root ? c.repoRoot : undefined,
+      binary: binary || undefined,
+      leftSize: leftBytes?.length,
+      rightSize: rightBytes?.length,
+      op
+    });
+  }
+  if (kept.length === 0) return { skipped: 'no changes since the checkpoint — nothing to log.' };
+
+  // a file deleted and one added with the same content in the same repository: a rename
+  for (const added of entries.filter(e => e.op === 'added')) {
+    const i = entries.findIndex(e => e.op === 'deleted' && e.repoRoot === added.repoRoot && e.leftHash === added.rightHash);
+    if (i < 0) continue;
+    const [gone] = entries.splice(i, 1);
+    Object.assign(added, { op: 'renamed', oldPath: gone.path, left: gone.left, leftHash: gone.leftHash, leftRawHash: gone.leftRawHash, leftSize: gone.leftSize });
+  }
+
+  const unique = (xs: (string | undefined)[]) => Array.from(new Set(xs.filter((x): x is string => !!x)));
+  const folders = unique(kept.map(c => vscode.workspace.getWorkspaceFolder(c.uri)?.name));
+  const repos = unique(kept.map(c => c.repoRoot));
+
+  const mask = (text: string, target: string) => (redactor ? redactor.text(text, target) : text);
+  const prompt = mask(input.prompt, 'prompt');
+  const responsePreview = input.responsePreview ? mask(input.responsePreview, 'response') : undefined;
+  const metadata = input.metadata && Object.keys(input.metadata).length
+    ? Object.fromEntries(Object.entries(input.metadata).map(([k, v]) => [k, mask(v, `metadata.${k}`)]))
+    : undefined;
+  const redactions = redactor?.report() ?? [];
+
+  const ev: PromptEvent = {
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    id: randomUUID(),
+    timestamp: Date.now(),
+    prompt,
+    responsePreview,
+    repoRoot: root,
+    beforeRef: checkpointRef,
+    afterRef: 'WORKING',
+    // one name per merged entry (a rename counts once), labelled like the diff paths
+    filesChanged: entries.map(d => entryLabel(root, d)),
+    diffUris: entries,
+    tags: input.tags?.length ? input.tags : undefined,
+    metadata,
+    folders: folders.length ? folders : undefined,
+    repos: repos.length > 1 ? repos : undefined,
+    sessionId: store.session.active ? store.session.sessionId : undefined,
+    redactions: redactions.length ? redactions : undefined
+  };
+
+  let commitError: string | undefined;
+  if (cfg.get<boolean>('commitPerEvent', false)) {
+    try {
+      await commitEvent(root, ev, cfg.get<string>('notesRef', DEFAULT_NOTES_REF) || DEFAULT_NOTES_REF);
+    } catch (e) {
+      console.error('[Prompt Replay] commit per event failed:', e);
+      commitError = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  await store.appendEvent(ev, maxEvents);
+
+  touchedSinceCheckpoint.clear();
+  store.session = { ...store.session, lastCheckpointSha: undefined, checkpoints: undefined };
+
+  return { event: ev, commitError };
+}
+
+/** Merge key/value metadata into an existing event (the latest one when no id is given). */
+export async function attachMetadata(store: Store, metadata: Record<string, string>, id?: string): Promise<PromptEvent | undefined> {
+  let ev: PromptEvent | undefined;
+  await store.updateEvents(events => {
+    ev = id ? events.find(e => e.id === id) : events[events.length - 1];
+    if (ev) ev.metadata = { ...(ev.metadata ?? {}), ...metadata };
+  });
+  return ev;
+}
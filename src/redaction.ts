@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+
+import { CustomRule, Redactor } from './core/redact';
+
+/** A redactor for one event from `promptReplay.redaction.*`, or undefined when redaction is off. */
+export function redactorFromSettings(): Redactor | undefined {
+  const cfg = vscode.workspace.getConfiguration('promptReplay.redaction');
+  if (!cfg.get<boolean>('enabled', true)) return;
+  const { redactor, errors } = Redactor.create(
+    cfg.get<string[]>('disabled', []),
+    cfg.get<CustomRule[]>('rules', []),
+    cfg.get<boolean>('highEntropy', false)
+  );
+  if (errors.length) {
+    console.error('[Prompt Replay] invalid redaction rules:', errors);
+    vscode.window.showWarningMessage(`Prompt Replay: ignoring invalid redaction rule(s): ${errors.join('; ')}`);
+  }
+  return redactor;
+}
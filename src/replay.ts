@@ -0,0 +1,119 @@
+import * as vscode from 'vscode';
+
+import { readOriginalSnapshot, snapshotMasked } from './core/blobs';
+import { FileRef, FileWrite, RestoreError, applyWithBackup, containedTarget, undoRestore } from './core/restore';
+import { readMaybe } from './core/fsutil';
+import { entryLabel } from './core/events';
+import { isBinary } from './core/binary';
+import { merge3 } from './merge';
+import { PromptEvent } from './types';
+
+type ReplayPlan = { writes: FileWrite[]; conflicted: FileRef[]; applied: number; unchanged: number; skipped: number; notes: string[] };
+
+/** Merge each file of the event into its working copy, without writing anything yet. */
+async function planReplay(root: string, ev: PromptEvent): Promise<ReplayPlan> {
+  const plan: ReplayPlan = { writes: [], conflicted: [], applied: 0, unchanged: 0, skipped: 0, notes: [] };
+  for (const d of ev.diffUris || []) {
+    const rel = entryLabel(root, d);
+    const op = d.op;
+    const sourceRef: FileRef = { path: d.oldPath ?? d.path, repoRoot: d.repoRoot };
+
+    if ((op !== 'added' && snapshotMasked(ev, d, 'before')) || (op !== 'deleted' && snapshotMasked(ev, d, 'after'))) {
+      plan.skipped++; plan.notes.push(`${rel}: snapshot only kept with secrets masked, not replayed`);
+      continue;
+    }
+    const before = await readOriginalSnapshot(root, ev, d, 'before');
+    const after = await readOriginalSnapshot(root, ev, d, 'after');
+    let current = await readMaybe(await containedTarget(root, d));
+    // a rename not yet made here: merge into the source file and move it
+    const moveFrom = op === 'renamed' && current === undefined ? sourceRef : undefined;
+    if (moveFrom) current = await readMaybe(await containedTarget(root, moveFrom));
+
+    if (isBinary(before) || isBinary(after) || isBinary(current)) {
+      plan.skipped++; plan.notes.push(`${rel}: binary file, not merged`);
+      continue;
+    }
+    const beforeText = op === 'added' ? '' : Buffer.from(before ?? new Uint8Array()).toString('utf8');
+    const afterText = Buffer.from(after ?? new Uint8Array()).toString('utf8');
+
+    if (op === 'deleted') {
+      if (current === undefined) { plan.unchanged++; continue; }
+      if (Buffer.from(current).toString('utf8') === beforeText) {
+        plan.writes.push({ ref: d, bytes: undefined });
+        plan.applied++;
+      } else {
+        plan.skipped++; plan.notes.push(`${rel}: changed since the event, not deleted`);
+      }
+      continue;
+    }
+
+    if (current === undefined) {
+      if (op === 'added') { plan.writes.push({ ref: d, bytes: Buffer.from(afterText, 'utf8') }); plan.applied++; }
+      else { plan.skipped++; plan.notes.push(`${rel}: no longer exists in the working tree`); }
+      continue;
+    }
+
+    const currentText = Buffer.from(current).toString('utf8');
+    const merged = merge3(beforeText, currentText, afterText, { ours: 'current', base: 'before (event)', theirs: 'after (event)' });
+    if (merged.text === currentText && !moveFrom) { plan.unchanged++; continue; }
+    plan.writes.push({ ref: d, bytes: Buffer.from(merged.text, 'utf8') });
+    if (moveFrom) plan.writes.push({ ref: moveFrom, bytes: undefined });
+    if (merged.conflicts > 0) plan.conflicted.push(d);
+    else plan.applied++;
+  }
+  return plan;
+}
+
+/**
+ * Replay an event onto the current working tree: the event's before→after change is merged
+ * into each file's current contents, using the before snapshot as merge base. Conflicting
+ * regions are written with standard conflict markers so VS Code's merge UI can resolve them.
+ * Files are written like a restore: inside the repository only, all or nothing, with a backup for Undo.
+ */
+export async function replayEventOntoCurrent(ev: PromptEvent) {
+  const root = ev.repoRoot || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+  if (!root) { vscode.window.showWarningMessage('Workspace root not found.'); return; }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Replay ${ev.filesChanged.length} file(s) from this event onto the current working tree? Clean changes are merged in; conflicts are written with conflict markers.`,
+    { modal: true },
+    'Replay'
+  );
+  if (confirm !== 'Replay') return;
+
+  let plan: ReplayPlan;
+  try {
+    plan = await planReplay(root, ev);
+  } catch (e) {
+    if (!(e instanceof RestoreError)) console.error('[Prompt Replay] replay failed:', e);
+    vscode.window.showErrorMessage(`Prompt Replay: replay failed — ${e instanceof Error ? e.message : String(e)}; no files were changed`);
+    return;
+  }
+  let backupId: string | undefined;
+  if (plan.writes.length) {
+    try {
+      backupId = (await applyWithBackup(root, plan.writes)).backupId;
+    } catch (e) {
+      if (!(e instanceof RestoreError)) console.error('[Prompt Replay] replay failed:', e);
+      vscode.window.showErrorMessage(`Prompt Replay: replay failed — ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+  }
+
+  if (plan.notes.length) console.log('[Prompt Replay] replay notes:\n' + plan.notes.join('\n'));
+  for (const ref of plan.conflicted) {
+    await vscode.window.showTextDocument(vscode.Uri.file(await containedTarget(root, ref)), { preview: false });
+  }
+
+  const summary = `Prompt Replay: replay — ${plan.applied} merged cleanly, ${plan.conflicted.length} with conflicts, ${plan.unchanged} already up to date, ${plan.skipped} skipped.`;
+  if (!backupId) { vscode.window.showInformationMessage(summary); return; }
+  const choice = await vscode.window.showInformationMessage(summary, 'Undo');
+  if (choice !== 'Undo') return;
+
+  try {
+    const u = await undoRestore(root, backupId);
+    vscode.window.showInformationMessage(`Prompt Replay: replay undone — ${u.restored} restored, ${u.deleted} deleted.`);
+  } catch (e) {
+    vscode.window.showErrorMessage(`Prompt Replay: undo failed — ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+
+import { Store } from './store';
+import { BlobStore, readSnapshot } from './core/blobs';
+import { isBinary } from './core/binary';
+import { entryLabel } from './core/events';
+import { EVENT_SCHEMA_VERSION } from './core/schema';
+import { ProviderFile, providerFromSettings } from './providers';
+import { redactorFromSettings } from './redaction';
+import { PromptEvent } from './types';
+
+/**
+ * Re-run a logged prompt through the configured model provider against the event's before
+ * contents. The proposal is recorded as a new sibling event (`rerunOf`) and compared with the
+ * original after snapshot.
+ */
+export async function rerunEvent(ev: PromptEvent, store: Store): Promise<PromptEvent | undefined> {
+  const root = ev.repoRoot || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+  if (!root) { vscode.window.showWarningMessage('Workspace root not found.'); return; }
+
+  const provider = providerFromSettings(root);
+  if (!provider) {
+    vscode.window.showWarningMessage('Prompt Replay: no re-run provider configured (see promptReplay.rerun.* settings).');
+    return;
+  }
+
+  // Binary files are not sent to the provider; the re-run keeps their before bytes
+  const files: ProviderFile[] = [];
+  const binaryBefore = new Map<string, Uint8Array>();
+  for (const d of ev.diffUris || []) {
+    const before = d.op === 'added' ? undefined : await readSnapshot(root, d, 'before');
+    if (d.binary || isBinary(before)) { binaryBefore.set(entryLabel(root, d), before ?? new Uint8Array()); continue; }
+    files.push({ path: entryLabel(root, d), content: before ? Buffer.from(before).toString('utf8') : '' });
+  }
+
+  let result;
+  try {
+    result = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Prompt Replay: re-running prompt (${provider.id})…` },
+      () => provider.run({ prompt: ev.prompt, files })
+    );
+  } catch (e) {
+    console.error('[Prompt Replay] rerun error:', e);
+    vscode.window.showErrorMessage(`Prompt Replay: re-run failed — ${e instanceof Error ? e.message : String(e)}`);
+    return;
+  }
+
+  const blobs = new BlobStore(root);
+  const redactor = redactorFromSettings();
+  const proposed = new Map(result.files.map(f => [f.path, f.content]));
+  const rerun: PromptEvent = {
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    id: randomUUID(),
+    timestamp: Date.now(),
+    prompt: ev.prompt,
+    responsePreview: result.response && redactor ? redactor.text(result.response, 'response') : result.response,
+    repoRoot: ev.repoRoot,
+    beforeRef: ev.beforeRef,
+    afterRef: `rerun:${provider.id}`,
+    filesChanged: [],
+    diffUris: [],
+    tags: [...(ev.tags ?? []).filter(t => t !== 'rerun'), 'rerun'],
+    rerunOf: ev.id
+  };
+
+  for (const d of ev.diffUris || []) {
+    const label = entryLabel(root, d);
+    const binary = binaryBefore.get(label);
+    const before = files.find(f => f.path === label)?.content ?? '';
+    const content = !proposed.has(label) ? before
+      : redactor ? redactor.text(proposed.get(label)!, `${d.path} (after)`) : proposed.get(label)!;
+    const rightHash = await blobs.put(binary ?? Buffer.from(content, 'utf8'));
+    rerun.filesChanged.push(label);
+    rerun.diffUris.push({
+      path: d.path,
+      left: d.left,
+      right: blobs.uriFor(rightHash),
+      leftHash: d.leftHash,
+      leftRawHash: d.leftRawHash,
+      rightHash,
+      repoRoot: d.repoRoot,
+      binary: binary ? true : undefined,
+      leftSize: d.leftSize,
+      rightSize: binary ? binary.length : undefined,
+      op: d.op,
+      oldPath: d.oldPath
+    });
+  }
+
+  // the before snapshots are the original's, masked the same way
+  const redactions = [...(ev.redactions ?? []).filter(r => r.target.endsWith(' (before)')), ...(redactor?.report() ?? [])];
+  if (redactions.length) rerun.redactions = redactions;
+
+  const maxEvents = vscode.workspace.getConfiguration('promptReplay').get<number>('maxEvents', 2000);
+  await store.appendEvent(rerun, maxEvents);
+
+  // Compare the original outcome with the new proposal, file by file
+  let differing = 0;
+  for (const d of ev.diffUris || []) {
+    const next = rerun.diffUris.find(x => x.path === d.path && x.repoRoot === d.repoRoot);
+    if (!next || next.rightHash === d.rightHash) continue;
+    differing++;
+    const original = d.rightHash ? vscode.Uri.file(blobs.pathFor(d.rightHash)) : (d.right ? vscode.Uri.parse(d.right) : undefined);
+    if (!original) continue;
+    await vscode.commands.executeCommand('vscode.diff', original, vscode.Uri.file(blobs.pathFor(next.rightHash!)), `Prompt Replay • ${entryLabel(root, d)} (original ↔ re-run)`);
+  }
+
+  vscode.window.showInformationMessage(
+    differing
+      ? `Prompt Replay: re-run differs from the original in ${differing} of ${rerun.filesChanged.length} file(s).`
+      : `Prompt Replay: re-run matches the original outcome for all ${rerun.filesChanged.length} file(s).`
+  );
+  return rerun;
+}
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+
+import { Store } from './store';
+import { exists } from './core/fsutil';
+import { entryLabel, entryTarget } from './core/events';
+import { BackupEntry, RestoreRecord, backupCopyPath, listRestores, redoRestore, undoRestore } from './core/restore';
+import { viewableUri } from './encryption';
+
+type ActionItem = vscode.QuickPickItem & { action?: 'undo' | 'redo'; entry?: BackupEntry };
+
+/** Working copy ↔ what undo (or redo) would write for one file. */
+async function compareWithBackup(root: string, r: RestoreRecord, entry: BackupEntry) {
+  const copy = r.undoneAt ? 'after' : 'before';
+  const label = entryLabel(root, entry);
+  const target = entryTarget(root, entry);
+  if (!(copy === 'before' ? entry.existed : entry.existedAfter)) {
+    vscode.window.showInformationMessage(`Prompt Replay: “${label}” did not exist then; ${r.undoneAt ? 'redo' : 'undo'} deletes it.`);
+    return;
+  }
+  const backup = viewableUri(vscode.Uri.file(backupCopyPath(root, r.backupId, entry, copy)));
+  if (!(await exists(target))) { await vscode.window.showTextDocument(backup, { preview: true }); return; }
+  await vscode.commands.executeCommand('vscode.diff', vscode.Uri.file(target), backup,
+    `Prompt Replay • ${label} (working copy ↔ after ${r.undoneAt ? 'redo' : 'undo'})`, { preview: true });
+}
+
+async function undoOrRedo(root: string, r: RestoreRecord, action: 'undo' | 'redo') {
+  try {
+    const u = action === 'undo' ? await undoRestore(root, r.backupId) : await redoRestore(root, r.backupId);
+    vscode.window.showInformationMessage(`Prompt Replay: ${action} complete — ${u.restored} restored, ${u.deleted} deleted.`);
+  } catch (e) {
+    console.error(`[Prompt Replay] ${action} failed:`, e);
+    vscode.window.showErrorMessage(`Prompt Replay: ${action} failed — ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * List past restores (from restore_backups/) with their event, side and files. A restore can be
+ * undone or, once undone, redone; each file can first be compared with the working copy.
+ */
+export async function restoreHistoryViaUI(store: Store) {
+  const root = store.rootPath();
+  if (!root) { vscode.window.showWarningMessage('Open a folder/workspace first.'); return; }
+  if (!(await store.unlock(root))) return;
+
+  const records = await listRestores(root);
+  if (!records.length) { vscode.window.showInformationMessage('Prompt Replay: no restores yet.'); return; }
+
+  const prompts = new Map((await store.readEvents()).map(e => [e.id, e.prompt]));
+  const picked = await vscode.window.showQuickPick(records.map(r => {
+    const prompt = r.eventId ? prompts.get(r.eventId) : undefined;
+    const what = r.eventId ? `${(r.side ?? '?').toUpperCase()} of ${prompt ? `“${prompt.length > 60 ? prompt.slice(0, 57) + '…' : prompt}”` : `event ${r.eventId.slice(0, 8)} (no longer in the log)`}` : 'event unknown';
+    return {
+      label: `${r.undoneAt ? '$(discard)' : '$(history)'} ${new Date(r.createdAt).toLocaleString()}`,
+      description: `${what} • ${r.files.length} file(s)${r.undoneAt ? ' • undone' : ''}`,
+      detail: r.files.map(f => entryLabel(root, f)).join(', '),
+      record: r
+    };
+  }), { placeHolder: 'Select a past restore…', matchOnDescription: true, matchOnDetail: true });
+  if (!picked) return;
+
+  // Stay on the restore while files are compared; undo/redo ends it
+  const r = picked.record;
+  const action: 'undo' | 'redo' = r.undoneAt ? 'redo' : 'undo';
+  const items: ActionItem[] = [
+    action === 'undo'
+      ? { label: '$(discard) Undo this restore', description: 'put the files back as they were before it', action }
+      : { label: '$(redo) Redo this restore', description: 'write what it had restored again', action },
+    { label: 'Compare with the working copy', kind: vscode.QuickPickItemKind.Separator },
+    ...r.files.map(entry => ({ label: `$(diff) ${entryLabel(root, entry)}`, description: `working copy ↔ after ${action}`, entry }))
+  ];
+  for (;;) {
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: `${picked.description}` });
+    if (!choice) return;
+    if (choice.entry) { await compareWithBackup(root, r, choice.entry); continue; }
+    if (choice.action) { await undoOrRedo(root, r, choice.action); return; }
+  }
+}
@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+
+import { BlobStore } from './core/blobs';
+import { entryLabel, entrySource, entryTarget } from './core/events';
+import { PreviewFile, Side, describeFileState, previewRestore } from './core/restore';
+import { viewableUri } from './encryption';
+import { PromptEvent } from './types';
+
+type FileItem = vscode.QuickPickItem & { file: PreviewFile };
+
+const SHOW_LOST: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Compare the working copy with what restoring writes' };
+
+/** Working copy ↔ the snapshot that would replace it, or the would-be-lost lines when there is no snapshot file. */
+async function showLost(root: string, f: PreviewFile, side: Side) {
+  const d = f.entry;
+  const current = vscode.Uri.file(side === 'after' ? entryTarget(root, d) : entrySource(root, d));
+  const hash = side === 'after' ? d.rightHash : d.leftHash;
+  const legacy = side === 'after' ? d.right : d.left;
+  const snapshot = hash ? vscode.Uri.file(new BlobStore(root).pathFor(hash)) : legacy ? vscode.Uri.parse(legacy) : undefined;
+  if (snapshot) {
+    const title = `Prompt Replay • ${entryLabel(root, d)} (working copy ↔ ${side.toUpperCase()})`;
+    await vscode.commands.executeCommand('vscode.diff', current, viewableUri(snapshot), title, { preview: true, preserveFocus: true });
+  } else if (f.lost) {
+    const doc = await vscode.workspace.openTextDocument({ content: f.lost.join('\n') + '\n', language: 'diff' });
+    await vscode.window.showTextDocument(doc, { preview: true, preserveFocus: true });
+  }
+}
+
+/**
+ * Show how each working copy compares with the event and let the user choose which files to
+ * restore. Files edited since the event start unchecked and can be diffed from the list.
+ * Returns the chosen files, or undefined when cancelled or there is nothing to do.
+ */
+export async function pickFilesToRestore(root: string, ev: PromptEvent, side: Side, only?: PreviewFile['entry'][]): Promise<PreviewFile[] | undefined> {
+  const preview = await previewRestore(root, ev, side, only);
+  const actionable = preview.files.filter(f => !f.upToDate && !f.missing);
+  const upToDate = preview.files.filter(f => f.upToDate).length;
+  const missing = preview.files.filter(f => f.missing && !f.masked).length;
+  const masked = preview.files.filter(f => f.masked).length;
+  if (!actionable.length) {
+    const why = [missing ? `${missing} file(s) have no ${side.toUpperCase()} snapshot` : '', masked ? `${masked} only have one with secrets masked` : ''].filter(Boolean);
+    vscode.window.showInformationMessage(why.length
+      ? `Prompt Replay: nothing to restore — ${why.join(', ')} and the rest already match it.`
+      : `Prompt Replay: the working copy already matches the ${side.toUpperCase()} snapshot.`);
+    return;
+  }
+
+  const qp = vscode.window.createQuickPick<FileItem>();
+  qp.canSelectMany = true;
+  qp.ignoreFocusOut = true;
+  qp.title = `Restore to the ${side.toUpperCase()} snapshot`;
+  const notes = [upToDate ? `${upToDate} already match` : '', missing ? `${missing} without a snapshot` : '', masked ? `${masked} with secrets masked` : ''].filter(Boolean);
+  qp.placeholder = `Check the files to overwrite${notes.length ? ` (${notes.join(', ')}; not listed)` : ''}`;
+  qp.items = actionable.map(f => ({
+    label: `${f.state === 'drifted' ? '$(warning) ' : ''}${entryLabel(root, f.entry)}`,
+    description: describeFileState(f, side),
+    buttons: f.state === 'drifted' ? [SHOW_LOST] : undefined,
+    file: f
+  }));
+  qp.selectedItems = qp.items.filter(i => i.file.state !== 'drifted');
+  qp.onDidTriggerItemButton(e => { void showLost(root, e.item.file, side); });
+
+  const picked = await new Promise<PreviewFile[] | undefined>(resolve => {
+    qp.onDidAccept(() => { resolve(qp.selectedItems.map(i => i.file)); qp.hide(); });
+    qp.onDidHide(() => resolve(undefined));
+    qp.show();
+  });
+  qp.dispose();
+  if (!picked?.length) return;
+
+  const drifted = picked.filter(f => f.state === 'drifted').length;
+  if (drifted) {
+    const ok = await vscode.window.showWarningMessage(
+      `${drifted} of the ${picked.length} file(s) changed since this event. Restoring discards those edits (a backup is kept for Undo).`,
+      { modal: true },
+      'Restore'
+    );
+    if (ok !== 'Restore') return;
+  }
+  return picked;
+}
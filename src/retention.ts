@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+
+import { Store } from './store';
+import { DEFAULT_RETENTION, GcReport, RetentionPolicy, collectGarbage, gcReportLines } from './core/gc';
+import { formatSize } from './core/binary';
+import { EncryptionError } from './core/vault';
+
+export function retentionFromSettings(): RetentionPolicy {
+  const cfg = vscode.workspace.getConfiguration('promptReplay.retention');
+  return {
+    archiveDays: cfg.get<number>('archiveDays', DEFAULT_RETENTION.archiveDays),
+    trashDays: cfg.get<number>('trashDays', DEFAULT_RETENTION.trashDays),
+    backupDays: cfg.get<number>('backupDays', DEFAULT_RETENTION.backupDays),
+    exportDays: cfg.get<number>('exportDays', DEFAULT_RETENTION.exportDays),
+    maxSizeMB: cfg.get<number>('maxSizeMB', DEFAULT_RETENTION.maxSizeMB)
+  };
+}
+
+async function showReport(r: GcReport) {
+  const doc = await vscode.workspace.openTextDocument({ content: gcReportLines(r).join('\n') + '\n', language: 'plaintext' });
+  await vscode.window.showTextDocument(doc, { preview: true });
+}
+
+/** Preview what the retention policy frees, then free it after confirmation. */
+export async function collectGarbageViaUI(store: Store) {
+  const root = store.rootPath();
+  if (!root) { vscode.window.showWarningMessage('Open a folder/workspace first.'); return; }
+  if (!(await store.unlock(root))) return;
+
+  const policy = retentionFromSettings();
+  const preview = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: 'Prompt Replay: looking for garbage…' },
+    () => collectGarbage(root, policy, { dryRun: true })
+  );
+  if (!preview.items.length) {
+    vscode.window.showInformationMessage(`Prompt Replay: nothing to collect (store size ${formatSize(preview.sizeBefore)}).${preview.notes.length ? ` ${preview.notes.join(' ')}` : ''}`);
+    return;
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `Free ${formatSize(preview.freed)} (${preview.items.length} item(s)) from .promptreplay? Removed data can't be recovered.`,
+    { modal: true },
+    'Free Space',
+    'Show Details'
+  );
+  if (choice === 'Show Details') { await showReport(preview); return; }
+  if (choice !== 'Free Space') return;
+
+  const r = await collectGarbage(root, policy);
+  for (const f of r.failed) console.error('[Prompt Replay] garbage collection could not remove', f);
+  const failed = r.failed.length ? `; ${r.failed.length} item(s) could not be removed (see Debug Console)` : '';
+  vscode.window.showInformationMessage(`Prompt Replay: freed ${formatSize(r.freed)}; store is now ${formatSize(r.sizeAfter)}${failed}.`, 'Show Report')
+    .then(c => { if (c === 'Show Report') void showReport(r); });
+}
+
+const LAST_RUN_KEY = 'promptReplay.lastGarbageCollection';
+
+/**
+ * Apply the retention policy in the background every `promptReplay.retention.intervalHours`
+ * (checked hourly; the last run is remembered per workspace). A locked store is skipped.
+ */
+export function scheduleGarbageCollection(ctx: vscode.ExtensionContext, store: Store): vscode.Disposable {
+  const tick = async () => {
+    const hours = vscode.workspace.getConfiguration('promptReplay.retention').get<number>('intervalHours', 24);
+    const root = store.rootPath();
+    if (!hours || hours <= 0 || !root) return;
+    if (Date.now() - ctx.workspaceState.get<number>(LAST_RUN_KEY, 0) < hours * 3_600_000) return;
+    await ctx.workspaceState.update(LAST_RUN_KEY, Date.now());
+    try {
+      const r = await collectGarbage(root, retentionFromSettings());
+      if (r.items.length) console.log(`[Prompt Replay] garbage collection: ${gcReportLines(r)[0]}`);
+      for (const f of r.failed) console.error('[Prompt Replay] garbage collection could not remove', f);
+    } catch (e) {
+      if (!(e instanceof EncryptionError)) console.error('[Prompt Replay] garbage collection failed:', e);
+    }
+  };
+  const first = setTimeout(tick, 60_000);
+  const timer = setInterval(tick, 3_600_000);
+  return { dispose: () => { clearTimeout(first); clearInterval(timer); } };
+}
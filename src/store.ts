@@ -1,73 +1,100 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import { PromptEvent, SessionState } from './types';
+import { promises as fsp } from 'node:fs';
+import { PromptEvent, SessionInfo, SessionState } from './types';
+import { layout } from './core/layout';
+import { BadLine, appendEventToFile, readEventsChecked, updateEventsFile } from './core/events';
+import { readSessionsFile, saveSession } from './core/sessions';
+import { EncryptionError } from './core/vault';
+import { ensureUnlocked } from './encryption';
 
 export class Store {
+  private reportedBadLines = 0;
+  private reportedFuture = 0;
+  private reportedLocked = '';
+
   constructor(private ctx: vscode.ExtensionContext) {}
 
+  /** Folder holding `.promptreplay`: `promptReplay.storeFolder` by name, else the first folder. */
   private rootFolder(): vscode.WorkspaceFolder | undefined {
-    return vscode.workspace.workspaceFolders?.[0];
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const name = vscode.workspace.getConfiguration('promptReplay').get<string>('storeFolder', '');
+    return (name && folders.find(f => f.name === name)) || folders[0];
   }
 
-  private dirPath(): string | undefined {
-    const root = this.rootFolder();
-    if (!root) return;
-    return path.join(root.uri.fsPath, '.promptreplay');
+  rootPath(): string | undefined {
+    return this.rootFolder()?.uri.fsPath;
   }
 
-  private fileUri(filename: string): vscode.Uri | undefined {
-    const dir = this.dirPath();
-    if (!dir) return;
-    return vscode.Uri.file(path.join(dir, filename));
+  /** Unlock an encrypted store. False (after telling the user once) if it stays locked. */
+  async unlock(root: string): Promise<boolean> {
+    try {
+      await ensureUnlocked(this.ctx, root);
+      this.reportedLocked = '';
+      return true;
+    } catch (e) {
+      if (!(e instanceof EncryptionError)) throw e;
+      if (e.message !== this.reportedLocked) {
+        this.reportedLocked = e.message;
+        vscode.window.showWarningMessage(`Prompt Replay: ${e.message}`, 'Unlock')
+          .then(choice => { if (choice === 'Unlock') vscode.commands.executeCommand('promptReplay.unlockStore'); });
+      }
+      return false;
+    }
   }
 
   async ensureDir() {
-    const dir = this.dirPath();
-    if (!dir) return;
-    const dUri = vscode.Uri.file(dir);
-    try {
-      await vscode.workspace.fs.stat(dUri);
-    } catch {
-      await vscode.workspace.fs.createDirectory(dUri);
-    }
+    const root = this.rootPath();
+    if (!root) return;
+    await fsp.mkdir(layout(root).dir, { recursive: true });
   }
 
   async appendEvent(ev: PromptEvent, maxEvents: number) {
-    await this.ensureDir();
-    const file = this.fileUri('events.jsonl');
-    if (!file) return;
-
-    const line = Buffer.from(JSON.stringify(ev) + '\n');
-    let content = line;
+    const root = this.rootPath();
+    if (!root) return;
+    await this.unlock(root);
+    await appendEventToFile(root, ev, maxEvents);
+  }
 
-    try {
-      const old = await vscode.workspace.fs.readFile(file);
-      content = Buffer.concat([old, line]);
-    } catch {
-      // first write
+  async readEvents(): Promise<PromptEvent[]> {
+    const root = this.rootPath();
+    if (!root || !(await this.unlock(root))) return [];
+    const { events, bad, future } = await readEventsChecked(root);
+    if (bad.length !== this.reportedBadLines) {
+      this.reportedBadLines = bad.length;
+      if (bad.length) this.reportBadLines(bad);
     }
-
-    // Trim if too many events
-    const text = content.toString('utf8');
-    const lines = text.split('\n').filter(Boolean);
-    if (lines.length > maxEvents) {
-      const trimmed = lines.slice(lines.length - maxEvents).join('\n') + '\n';
-      await vscode.workspace.fs.writeFile(file, Buffer.from(trimmed));
-    } else {
-      await vscode.workspace.fs.writeFile(file, content);
+    if (future.length !== this.reportedFuture) {
+      this.reportedFuture = future.length;
+      if (future.length) vscode.window.showWarningMessage(`Prompt Replay: ${future.length} event(s) were logged by a newer version of Prompt Replay and are hidden; update the extension to see them.`);
     }
+    return events;
   }
 
-  async readEvents(): Promise<PromptEvent[]> {
-    const file = this.fileUri('events.jsonl');
-    if (!file) return [];
-    try {
-      const buf = await vscode.workspace.fs.readFile(file);
-      const lines = Buffer.from(buf).toString('utf8').split('\n').filter(Boolean);
-      return lines.map(l => JSON.parse(l));
-    } catch {
-      return [];
-    }
+  /** Locked read-modify-write of the log; see `updateEventsFile`. */
+  async updateEvents(fn: (events: PromptEvent[]) => PromptEvent[] | void | Promise<PromptEvent[] | void>): Promise<PromptEvent[]> {
+    const root = this.rootPath();
+    if (!root) return [];
+    await this.unlock(root);
+    return updateEventsFile(root, fn);
+  }
+
+  private reportBadLines(bad: BadLine[]) {
+    for (const b of bad) console.error(`[Prompt Replay] events.jsonl line ${b.line}: ${b.reason}`);
+    vscode.window.showWarningMessage(`Prompt Replay: skipped ${bad.length} unreadable line(s) in events.jsonl (line ${bad[0].line}: ${bad[0].reason}).`, 'Repair')
+      .then(choice => { if (choice === 'Repair') vscode.commands.executeCommand('promptReplay.repairEvents'); });
+  }
+
+  async readSessions(): Promise<SessionInfo[]> {
+    const root = this.rootPath();
+    if (!root || !(await this.unlock(root))) return [];
+    return readSessionsFile(root);
+  }
+
+  async saveSession(s: SessionInfo) {
+    const root = this.rootPath();
+    if (!root) return;
+    await this.unlock(root);
+    await saveSession(root, s);
   }
 
   get session(): SessionState {
@@ -77,6 +104,4 @@ export class Store {
   set session(s: SessionState) {
     this.ctx.globalState.update('promptReplay.session', s);
   }
-
-  
 }
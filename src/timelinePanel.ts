@@ -1,18 +1,43 @@
 import * as vscode from 'vscode';
-import { PromptEvent } from './types';
-
-type WebState = {
-  q: string;
-  sort: 'newest' | 'oldest';
-  collapsedIds: Record<string, boolean>;
-};
-
+import { randomBytes } from 'crypto';
+import { PromptEvent, SessionInfo } from './types';
+import { entryLabel } from './core/events';
+import { describeBinaryChange } from './core/binary';
+import { describeRedactions } from './core/redact';
+import { eventsOfSession, sessionDuration, formatDuration } from './core/sessions';
+import { InlineFileDiff } from './core/inlineDiff';
+
+/** One event as the webview keeps it: pre-rendered card plus what sorting, grouping and filters need. */
+type EventView = { id: string; ts: number; session: string; folders: string[]; html: string };
+type SessionView = { id: string; ts: number; html: string };
+
+/**
+ * The timeline webview is loaded once. Events are sent to it with postMessage — everything
+ * after it (re)loads, then only what was added, changed or removed — and the page renders
+ * just the cards in view. A card's inline diffs are fetched when it is first opened.
+ */
 export class TimelinePanel {
   public static current?: TimelinePanel;
   private panel: vscode.WebviewPanel;
+  private sessions: SessionInfo[] = [];
+  private views = new Map<string, { view: EventView; sig: string }>();
+  private sessionViews: SessionView[] = [];
+  private ready = false;
+  private pendingReveal?: string;
 
   private constructor(panel: vscode.WebviewPanel) {
     this.panel = panel;
+    this.panel.webview.html = this.renderShell();
+    // the page posts 'ready' after every load; it then gets all events, and a reveal requested before that
+    panel.webview.onDidReceiveMessage(msg => {
+      if (msg?.type !== 'ready') return;
+      this.ready = true;
+      void this.post({ type: 'reset', events: Array.from(this.views.values(), v => v.view), sessions: this.sessionViews });
+      if (this.pendingReveal) {
+        void this.post({ type: 'reveal', id: this.pendingReveal });
+        this.pendingReveal = undefined;
+      }
+    });
   }
 
   static createOrShow(context: vscode.ExtensionContext) {
@@ -34,92 +59,225 @@ export class TimelinePanel {
     return inst;
   }
 
+  /** Sessions used to group events; takes effect on the next setEvents. */
+  setSessions(sessions: SessionInfo[]) {
+    this.sessions = sessions || [];
+  }
+
+  /** Show exactly `events`; the page is sent only the difference to what it shows now. */
   setEvents(events: PromptEvent[]) {
-    this.panel.webview.html = this.renderHtml(events || []);
+    const list = events || [];
+    const multiFolder = (vscode.workspace.workspaceFolders ?? []).length > 1;
+    const known = new Set(this.sessions.map(s => s.id));
+    const next = new Map<string, { view: EventView; sig: string }>();
+    for (const ev of list) {
+      const ts = Number(ev.timestamp ?? Date.now());
+      const view: EventView = {
+        id: String(ev.id ?? ts),
+        ts,
+        // events whose session is unknown (e.g. sessions.json removed) fall into "No session"
+        session: ev.sessionId && known.has(ev.sessionId) ? ev.sessionId : '',
+        folders: this.foldersOf(ev),
+        html: this.renderEvent(ev, multiFolder)
+      };
+      next.set(view.id, { view, sig: JSON.stringify(view) });
+    }
+
+    const added: EventView[] = [], changed: EventView[] = [];
+    for (const [id, v] of next) {
+      const old = this.views.get(id);
+      if (!old) added.push(v.view);
+      else if (old.sig !== v.sig) changed.push(v.view);
+    }
+    const removed = Array.from(this.views.keys()).filter(id => !next.has(id));
+    this.views = next;
+
+    const sessionViews = [
+      ...this.sessions.map(s => this.renderSession(s, list)),
+      this.renderSession(undefined, list.filter(e => !e.sessionId || !known.has(e.sessionId)).map(e => ({ ...e, sessionId: undefined })))
+    ].filter((v): v is SessionView => !!v);
+    const sessionsChanged = JSON.stringify(sessionViews) !== JSON.stringify(this.sessionViews);
+    this.sessionViews = sessionViews;
+
+    if (!this.ready || (!added.length && !changed.length && !removed.length && !sessionsChanged)) return;
+    void this.post({ type: 'diff', added, changed, removed, sessions: sessionsChanged ? sessionViews : undefined });
+  }
+
+  /** Scroll to an event card, expanding it (and its session group) if collapsed. */
+  reveal(id: string) {
+    this.pendingReveal = id;
+    this.panel.reveal();
+    if (!this.ready) return;
+    void this.post({ type: 'reveal', id }).then(delivered => {
+      if (delivered) this.pendingReveal = undefined;
+    });
+  }
+
+  /** Answer a card's `loadDiffs` request. */
+  showDiffs(id: string, result: { files: InlineFileDiff[] } | { error: string }) {
+    void this.post({ type: 'diffs', id, ...result });
   }
 
   onMessage(handler: (msg: any) => void) {
     this.panel.webview.onDidReceiveMessage(handler);
   }
 
+  private post(msg: unknown): Thenable<boolean> {
+    return this.panel.webview.postMessage(msg);
+  }
+
+  /** Safe in text and in quoted attribute values. */
   private esc(s: string): string {
-    return (s ?? '').toString().replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;');
+    return (s ?? '').toString().replace(/&/g,'&amp;').replace(/</g,'&lt;').replace(/>/g,'&gt;').replace(/"/g,'&quot;').replace(/'/g,'&#39;');
   }
 
-  private renderHtml(events: PromptEvent[]): string {
-    const rows = (events ?? []).map(ev => {
-      const ts = Number(ev.timestamp ?? Date.now());
-      const id = String(ev.id ?? `${ts}-${Math.random().toString(36).slice(2)}`);
-      const date = new Date(ts).toLocaleString();
-      const files = ev.filesChanged?.length ?? 0;
-      const promptTxt = String(ev.prompt ?? '');
-      const promptShort = promptTxt.length > 200 ? promptTxt.slice(0,197) + '…' : promptTxt;
-      const tags = (ev.tags ?? []).map(t => `<span class="tag">${this.esc(String(t))}</span>`).join(' ');
-      const responsePreviewStr = (ev as any).responsePreview ? String((ev as any).responsePreview) : '';
-
-      const fileRows = (ev.diffUris ?? []).map(d => {
-        const left = d.left ?? '';
-        const right = d.right ?? '';
-        const rel = String(d.path ?? '');
-        return `
-          <tr>
-            <td class="path">${this.esc(rel)}</td>
-            <td class="actions">
-              <div class="row-actions">
-                <button
-                  class="btn"
-                  data-cmd="openDiff"
-                  data-left="${encodeURIComponent(left)}"
-                  data-right="${encodeURIComponent(right)}"
-                  data-title="${encodeURIComponent('Prompt Replay • ' + rel)}">
-                  View Diff
-                </button>
-                <button class="btn small" data-cmd="restoreFile" data-id="${this.esc(id)}" data-path="${this.esc(rel)}" data-side="after" title="Restore this file (after)">
-                  Restore file
-                </button>
-              </div>
-            </td>
-          </tr>`;
-      }).join('');
+  /** Workspace folders an event belongs to (older events only know their repoRoot). */
+  private foldersOf(ev: PromptEvent): string[] {
+    if (ev.folders?.length) return ev.folders;
+    const f = ev.repoRoot ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(ev.repoRoot)) : undefined;
+    return f ? [f.name] : [];
+  }
 
+  /** Header row of one session group; the page lists the session's events below it. */
+  private renderSession(session: SessionInfo | undefined, events: PromptEvent[]): SessionView | undefined {
+    const id = session?.id ?? '';
+    const own = session ? eventsOfSession(events, session.id) : events.filter(e => !e.sessionId);
+    if (own.length === 0) return undefined;
+    const files = new Set(own.flatMap(e => e.filesChanged ?? [])).size;
+    const tags = Array.from(new Set(own.flatMap(e => e.tags ?? [])));
+    const start = session?.startedAt ?? Math.min(...own.map(e => e.timestamp));
+    const stats = [
+      `${own.length} prompt${own.length === 1 ? '' : 's'}`,
+      `${files} file${files === 1 ? '' : 's'}`,
+      session ? formatDuration(sessionDuration(session, own)) + (session.endedAt ? '' : ' (active)') : ''
+    ].filter(Boolean).join(' · ');
+
+    return { id, ts: start, html: `
+      <div class="session" data-session="${this.esc(id)}">
+        <div class="session-hdr">
+          <button class="toggle" title="Collapse/Expand" data-cmd="toggleSession">▾</button>
+          <span class="session-name">${this.esc(session?.name ?? 'No session')}</span>
+          ${session?.goal ? `<span class="muted">— ${this.esc(session.goal)}</span>` : ''}
+          <span class="muted">${this.esc(stats)}</span>
+          ${tags.map(t => `<span class="tag">${this.esc(t)}</span>`).join(' ')}
+          <span class="spacer"></span>
+          ${session ? `<button class="btn" data-cmd="sessionReport" data-id="${this.esc(id)}" title="Open a Markdown summary of this session">Report</button>` : ''}
+          ${session ? `<button class="btn" data-cmd="exportSessionMbox" data-id="${this.esc(id)}" title="Export this session's events as a git am-ready mbox">Patches</button>` : ''}
+        </div>
+        ${session?.description ? `<div class="muted session-desc">${this.esc(session.description)}</div>` : ''}
+      </div>` };
+  }
+
+  private renderEvent(ev: PromptEvent, multiFolder: boolean): string {
+    const ts = Number(ev.timestamp ?? Date.now());
+    const id = String(ev.id ?? ts);
+    const date = new Date(ts).toLocaleString();
+    const files = ev.filesChanged?.length ?? 0;
+    const promptTxt = String(ev.prompt ?? '');
+    const promptShort = promptTxt.length > 200 ? promptTxt.slice(0,197) + '…' : promptTxt;
+    const tags = (ev.tags ?? []).map(t => `<span class="tag">${this.esc(String(t))}</span>`).join(' ');
+    const redacted = ev.redactions?.length
+      ? `<span class="tag" title="Masked before storage — ${this.esc(describeRedactions(ev.redactions))}">🔒 redacted</span>`
+      : '';
+    const responsePreviewStr = ev.responsePreview ? String(ev.responsePreview) : '';
+
+    const fileRows = (ev.diffUris ?? []).map(d => {
+      const left = d.left ?? '';
+      const right = d.right ?? '';
+      const rel = String(d.path ?? '');
+      const label = ev.repoRoot ? entryLabel(ev.repoRoot, d) : rel;
+      const op = d.op;
+      const renamedNote = op === 'renamed' ? `renamed from ${d.oldPath}` : '';
+      const binaryNote = d.binary ? describeBinaryChange(
+        op === 'added' ? undefined : { size: d.leftSize, hash: d.leftHash },
+        op === 'deleted' ? undefined : { size: d.rightSize, hash: d.rightHash }
+      ) : '';
+      const diffBtn = binaryNote ? '' : `
+              <button
+                class="btn"
+                data-cmd="openDiff"
+                data-left="${encodeURIComponent(left)}"
+                data-right="${encodeURIComponent(right)}"
+                data-title="${encodeURIComponent('Prompt Replay • ' + label)}">
+                View Diff
+              </button>`;
       return `
-        <div class="event" data-id="${this.esc(id)}" data-ts="${ts}">
-          <div class="hdr">
-            <button class="toggle" title="Collapse/Expand" data-cmd="toggle">▾</button>
-            <span class="time">🕒 ${this.esc(date)}</span>
-            <span class="files">📄 ${files} file${files === 1 ? '' : 's'}</span>
-            <span class="spacer"></span>
-            <button class="btn" data-cmd="exportEvent" data-id="${this.esc(id)}" title="Export this event to Markdown">
-              Export
-            </button>
-            <button class="btn" data-cmd="restoreEvent" data-id="${this.esc(id)}" data-side="before" title="Restore workspace to BEFORE this event">
-              Restore Before
-            </button>
-            <button class="btn" data-cmd="restoreEvent" data-id="${this.esc(id)}" data-side="after" title="Restore workspace to AFTER this event">
-              Restore After
-            </button>
-            <button class="btn danger" data-cmd="deleteEvent" data-id="${this.esc(id)}" title="Delete this event and move its data to trash">
-              Delete
-            </button>
-          </div>
-          <div class="prompt">“${this.esc(promptShort)}” ${tags}</div>
-          <div class="body">
-            ${responsePreviewStr ? `<div class="muted">↳ ${this.esc(responsePreviewStr)}</div>` : ''}
-            <table class="files"><tbody>${fileRows}</tbody></table>
-          </div>
-        </div>`;
+        <tr>
+          <td class="path">${this.esc(label)}${[renamedNote, binaryNote].filter(Boolean).map(n => ` <span class="muted">${this.esc(n)}</span>`).join('')}</td>
+          <td class="actions">
+            <div class="row-actions">${diffBtn}
+              <button class="btn small" data-cmd="restoreFile" data-id="${this.esc(id)}" data-path="${this.esc(rel)}" data-repo="${this.esc(d.repoRoot ?? '')}" data-side="after" title="Restore this file (after)">
+                Restore file
+              </button>
+            </div>
+          </td>
+        </tr>`;
     }).join('');
 
+    return `
+      <div class="event" data-id="${this.esc(id)}">
+        <div class="hdr">
+          <button class="toggle" title="Collapse/Expand" data-cmd="toggle">▾</button>
+          <span class="time">🕒 ${this.esc(date)}</span>
+          <span class="files">📄 ${files} file${files === 1 ? '' : 's'}</span>
+          ${multiFolder ? `<span class="folders">📁 ${this.esc(this.foldersOf(ev).join(', '))}</span>` : ''}
+          <span class="spacer"></span>
+          <button class="btn" data-cmd="toggleDiffs" data-id="${this.esc(id)}" title="Show the diffs of all files in this card">
+            Diffs
+          </button>
+          <button class="btn" data-cmd="exportEvent" data-id="${this.esc(id)}" title="Export this event as Markdown or as a patch">
+            Export
+          </button>
+          <button class="btn" data-cmd="restoreEvent" data-id="${this.esc(id)}" data-side="before" title="Restore workspace to BEFORE this event">
+            Restore Before
+          </button>
+          <button class="btn" data-cmd="restoreEvent" data-id="${this.esc(id)}" data-side="after" title="Restore workspace to AFTER this event">
+            Restore After
+          </button>
+          <button class="btn" data-cmd="replayEvent" data-id="${this.esc(id)}" title="Merge this event's change into the current working tree (three-way)">
+            Replay onto current
+          </button>
+          ${ev.commits
+            ? `<span class="muted" title="${this.esc(Object.values(ev.commits).join(', '))}">✔ ${this.esc(String(ev.afterRef ?? '').slice(0, 8))}</span>`
+            : `<button class="btn" data-cmd="commitEvent" data-id="${this.esc(id)}" title="Create a git commit with this event's files (prompt as message, event as git note)">Commit</button>`}
+          <button class="btn" data-cmd="rerunEvent" data-id="${this.esc(id)}" title="Send this prompt to the configured provider again and compare the result">
+            Re-run
+          </button>
+          <button class="btn danger" data-cmd="deleteEvent" data-id="${this.esc(id)}" title="Delete this event and move its data to trash">
+            Delete
+          </button>
+        </div>
+        <div class="prompt">“${this.esc(promptShort)}” ${tags} ${redacted}</div>
+        <div class="body">
+          ${responsePreviewStr ? `<div class="muted">↳ ${this.esc(responsePreviewStr)}</div>` : ''}
+          <table class="files"><tbody>${fileRows}</tbody></table>
+          <div class="inline-diffs"></div>
+        </div>
+      </div>`;
+  }
+
+  /** The page itself: toolbar, an empty scroll area and the script that fills it from messages. */
+  private renderShell(): string {
+    const workspaceFolders = (vscode.workspace.workspaceFolders ?? []).map(f => f.name);
+    const folderOptions = workspaceFolders.map(n => `<option value="${this.esc(n)}">${this.esc(n)}</option>`).join('');
+    // only the page's own script runs; markup that slips into an event card can't execute
+    const nonce = randomBytes(16).toString('base64');
+    const csp = `default-src 'none'; style-src ${this.panel.webview.cspSource} 'unsafe-inline'; img-src ${this.panel.webview.cspSource} data:; script-src 'nonce-${nonce}';`;
+
     return `<!doctype html>
 <html>
 <head>
   <meta charset="UTF-8" />
+  <meta http-equiv="Content-Security-Policy" content="${csp}" />
   <style>
-    body { font-family: var(--vscode-font-family); color: var(--vscode-editor-foreground); padding: 10px; }
-    .toolbar { display:flex; gap:8px; margin-bottom:10px; align-items:center; }
+    body { font-family: var(--vscode-font-family); color: var(--vscode-editor-foreground); padding: 0 10px; margin: 0;
+           height: 100vh; display: flex; flex-direction: column; box-sizing: border-box; }
+    .toolbar { display:flex; gap:8px; padding:10px 0; align-items:center; }
     input[type="text"] { flex:1; padding:6px; }
     button { cursor:pointer; }
-    #grid { display:block; }
+    #grid { flex: 1; overflow-y: auto; }
+    .row { display: flow-root; }
+    .row.in-session { border-left: 3px solid var(--vscode-focusBorder); padding-left: 10px; }
     .event { border: 1px solid var(--vscode-panel-border); border-radius: 8px; padding: 10px; margin-bottom: 10px; }
     .hdr { display: flex; gap: 12px; font-size: 12px; opacity: 0.9; margin-bottom: 6px; align-items:center; }
     .spacer { flex:1; }
@@ -139,89 +297,434 @@ export class TimelinePanel {
                   border-color: var(--vscode-inputValidation-errorBorder); }
     .row-actions { display: inline-flex; gap: 6px; align-items: center; }
     .btn.small { padding: 2px 6px; font-size: 11px; }
+    .session { padding-top: 4px; margin-bottom: 4px; }
+    .session-hdr { display: flex; gap: 10px; align-items: center; margin-bottom: 8px; font-size: 12px; }
+    .session-name { font-weight: 600; font-size: 13px; }
+    .session-desc { margin: -4px 0 8px; font-size: 12px; }
+    .event.flash { outline: 2px solid var(--vscode-focusBorder); }
+    .diff-bar { display: flex; gap: 8px; align-items: center; margin: 8px 0 6px; font-size: 12px; }
+    .diff-file { border: 1px solid var(--vscode-panel-border); border-radius: 6px; margin-bottom: 8px; overflow: hidden; }
+    .diff-file-hdr { display: flex; gap: 8px; padding: 4px 8px; font-size: 12px; font-family: var(--vscode-editor-font-family);
+                     background: var(--vscode-sideBarSectionHeader-background, rgba(128,128,128,.12)); }
+    .diff-note { padding: 4px 8px; font-size: 12px; }
+    .stat-add { color: var(--vscode-gitDecoration-addedResourceForeground, #81b88b); }
+    .stat-del { color: var(--vscode-gitDecoration-deletedResourceForeground, #c74e39); }
+    table.diff { width: 100%; border-collapse: collapse; table-layout: fixed;
+                 font-family: var(--vscode-editor-font-family); font-size: var(--vscode-editor-font-size, 12px); }
+    table.diff col.ln { width: 4.5em; }
+    table.diff col.sg { width: 1.5em; }
+    table.diff td { padding: 0 6px; white-space: pre-wrap; word-break: break-all; vertical-align: top; }
+    table.diff td.ln { text-align: right; opacity: .5; user-select: none; }
+    table.diff td.sg { user-select: none; opacity: .7; }
+    table.diff.split td.ln { border-left: 1px solid var(--vscode-panel-border); }
+    table.diff tr.hunk-hdr td { padding: 2px 8px; opacity: .75; background: var(--vscode-editor-lineHighlightBackground, rgba(128,128,128,.1)); }
+    table.diff td.add { background: var(--vscode-diffEditor-insertedLineBackground, rgba(155,185,85,.15)); }
+    table.diff td.del { background: var(--vscode-diffEditor-removedLineBackground, rgba(255,0,0,.12)); }
+    table.diff td.none { background: rgba(128,128,128,.08); }
+    table.diff td.add .wd { background: var(--vscode-diffEditor-insertedTextBackground, rgba(155,185,85,.4)); }
+    table.diff td.del .wd { background: var(--vscode-diffEditor-removedTextBackground, rgba(255,0,0,.35)); }
+    .tk-k { color: var(--vscode-symbolIcon-keywordForeground, #569cd6); }
+    .tk-s { color: var(--vscode-debugTokenExpression-string, #ce9178); }
+    .tk-n { color: var(--vscode-debugTokenExpression-number, #b5cea8); }
+    .tk-c { color: var(--vscode-descriptionForeground, #6a9955); font-style: italic; }
   </style>
 </head>
 <body>
   <div class="toolbar">
-    <input id="search" placeholder="Search prompts/files/tags… (Enter or click Search)" />
+    <input id="search" placeholder="Search… e.g. tag:refactor file:src/**/*.ts after:2026-09-01 op:deleted &quot;exact phrase&quot; /regex/" title="Terms are ANDed; prefix with - to negate. Words, phrases and /regex/ match prompts, responses, files, tags and diff content." />
     <button id="run">Search</button>
     <button id="sort">Sort: Newest</button>
+    <button id="group" title="Group events by session">Group: None</button>
+    ${workspaceFolders.length > 1 ? `<select id="folder" title="Filter by workspace folder"><option value="">All folders</option>${folderOptions}</select>` : ''}
     <button id="collapseAll" title="Collapse all">Collapse all</button>
     <button id="expandAll" title="Expand all">Expand all</button>
     <span style="flex:1"></span>
+    <button id="openRestores" title="Undo or redo a past restore">Restores…</button>
     <button id="openTrash">Trash…</button>
   </div>
 
   <div id="grid">
-    ${rows || '<p class="muted">No events yet. Use “Prompt Replay: Create Checkpoint”, then “Log Prompt…”.</p>'}
+    <p id="empty" class="muted">No events yet. Use “Prompt Replay: Create Checkpoint”, then “Log Prompt…”.</p>
+    <div id="topPad"></div>
+    <div id="rows"></div>
+    <div id="bottomPad"></div>
   </div>
 
-  <script>
+  <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
 
-    const st = Object.assign({ q: '', sort: 'newest', collapsedIds: {} }, vscode.getState() || {});
+    const st = Object.assign({ q: '', sort: 'newest', folder: '', group: 'none', collapsedIds: {}, collapsedSessions: {}, openDiffs: {}, diffLayout: 'unified' }, vscode.getState() || {});
     const search = document.getElementById('search');
     const btnRun = document.getElementById('run');
     const btnSort = document.getElementById('sort');
+    const btnGroup = document.getElementById('group');
     const btnCollapseAll = document.getElementById('collapseAll');
     const btnExpandAll = document.getElementById('expandAll');
+    const btnOpenRestores = document.getElementById('openRestores');
     const btnOpenTrash = document.getElementById('openTrash');
     const grid = document.getElementById('grid');
+    const empty = document.getElementById('empty');
+    const topPad = document.getElementById('topPad');
+    const content = document.getElementById('rows');
+    const bottomPad = document.getElementById('bottomPad');
+    const folderSel = document.getElementById('folder');
+
+    // Data pushed by the extension: id -> { id, ts, session, folders, html }, and session headers
+    const events = new Map();
+    let sessions = [];
+
+    // Only the rows near the viewport are in the DOM; the rest is padding sized from
+    // measured (or, until a row was shown once, estimated) heights
+    const OVERSCAN = 800;
+    const heights = new Map();
+    let rows = [];
+    let range;
+    let flashId;
 
     search.value = st.q || '';
-    btnSort.textContent = 'Sort: ' + (st.sort === 'oldest' ? 'Oldest' : 'Newest');
-
-    for (const ev of grid.querySelectorAll('.event')) {
-      const id = ev.getAttribute('data-id');
-      const body = ev.querySelector('.body');
-      const toggleBtn = ev.querySelector('.toggle');
-      if (st.collapsedIds[id]) {
-        body?.classList.add('hidden');
-        if (toggleBtn) toggleBtn.textContent = '▸';
+
+    function byTime(a, b) {
+      return st.sort === 'newest' ? (b.ts - a.ts) : (a.ts - b.ts);
+    }
+
+    function keyOf(row) { return (row.kind === 'session' ? 's:' : 'e:') + row.id; }
+    function isCollapsed(row) { return row.kind === 'session' ? !!st.collapsedSessions[row.id] : !!st.collapsedIds[row.id]; }
+    function diffsShown(row) { return row.kind === 'event' && !!st.openDiffs[row.id] && !isCollapsed(row); }
+    function heightKey(row) { return keyOf(row) + (isCollapsed(row) ? ':c' : '') + (diffsShown(row) ? ':d' : ''); }
+    function heightOf(row) {
+      const h = heights.get(heightKey(row));
+      if (h !== undefined) return h;
+      if (row.kind === 'session') return 44;
+      return isCollapsed(row) ? 80 : diffsShown(row) ? 400 : 130;
+    }
+    function inFolder(ev) { return !st.folder || ev.folders.includes(st.folder); }
+
+    function buildRows() {
+      const list = Array.from(events.values()).filter(inFolder).sort(byTime);
+      rows = [];
+      if (st.group === 'session' && sessions.length) {
+        // sessions ordered by start time, each followed by its events
+        const bySession = new Map();
+        for (const ev of list) {
+          if (!bySession.has(ev.session)) bySession.set(ev.session, []);
+          bySession.get(ev.session).push(ev);
+        }
+        for (const s of sessions.slice().sort(byTime)) {
+          const own = bySession.get(s.id);
+          if (!own) continue;
+          rows.push({ kind: 'session', id: s.id, item: s });
+          if (!st.collapsedSessions[s.id]) for (const ev of own) rows.push({ kind: 'event', id: ev.id, item: ev, inSession: true });
+        }
       } else {
-        if (toggleBtn) toggleBtn.textContent = '▾';
+        for (const ev of list) rows.push({ kind: 'event', id: ev.id, item: ev });
       }
+      btnSort.textContent = 'Sort: ' + (st.sort === 'oldest' ? 'Oldest' : 'Newest');
+      btnGroup.textContent = 'Group: ' + (st.group === 'session' ? 'Session' : 'None');
+      if (folderSel) folderSel.value = st.folder || '';
+      empty.textContent = events.size ? 'No events in this folder.' : 'No events yet. Use “Prompt Replay: Create Checkpoint”, then “Log Prompt…”.';
+      empty.style.display = rows.length ? 'none' : '';
     }
 
-    function setCollapsed(evEl, collapsed) {
-      const id = evEl.getAttribute('data-id');
-      const body = evEl.querySelector('.body');
-      const toggleBtn = evEl.querySelector('.toggle');
-      if (collapsed) {
-        body?.classList.add('hidden');
-        if (toggleBtn) toggleBtn.textContent = '▸';
-        st.collapsedIds[id] = true;
-      } else {
-        body?.classList.remove('hidden');
-        if (toggleBtn) toggleBtn.textContent = '▾';
-        delete st.collapsedIds[id];
+    function offsetOf(key) {
+      let y = 0;
+      for (const row of rows) {
+        if (keyOf(row) === key) return y;
+        y += heightOf(row);
       }
-      vscode.setState(st);
+      return -1;
+    }
+
+    /** The row at the top of the viewport, to keep it in place while rows change around it. */
+    function anchor() {
+      if (grid.scrollTop === 0) return undefined;
+      let y = 0;
+      for (const row of rows) {
+        const h = heightOf(row);
+        if (y + h > grid.scrollTop) return { key: keyOf(row), delta: grid.scrollTop - y };
+        y += h;
+      }
+      return undefined;
+    }
+
+    /* ---- Inline diffs ---- */
+
+    // id -> { files } or { error } from the extension; the tables built from it are kept per layout
+    const diffData = new Map();
+    const diffHtml = new Map();
+    const diffRequested = new Set();
+
+    // Just enough of each language family for comments, strings, numbers and keywords
+    const GRAMMARS = {
+      c: { line: '//', block: ['/*', '*/'], quotes: [34, 39, 96], kw: 'abstract as async await break case catch class const continue def default defer delete do else enum export extends false final finally fn for from func function go if impl implements import in instanceof interface let match mod mut namespace new nil null package private protected pub public readonly return self static struct super switch this throw throws trait true try type typeof undefined use var void where while yield' },
+      py: { line: '#', quotes: [34, 39], kw: 'and as assert async await begin break class continue def del do elif else elsif end ensure except False finally for from global if import in is lambda module nil None nonlocal not or pass raise rescue return self then True try unless until when while with yield' },
+      sh: { line: '#', quotes: [34, 39], kw: 'case do done elif else esac export fi for function if in local return then until while' },
+      css: { block: ['/*', '*/'], quotes: [34, 39], kw: 'important media import supports keyframes from to' },
+      html: { block: ['<!--', '-->'], quotes: [34, 39], kw: '' },
+      sql: { line: '--', block: ['/*', '*/'], quotes: [34, 39], ci: true, kw: 'alter and as by create delete desc drop from group having in index inner insert into is join left limit not null on or order outer right select set table union update values where with' },
+      json: { quotes: [34], kw: 'true false null' },
+      yaml: { line: '#', quotes: [34, 39], kw: 'true false null yes no on off' }
+    };
+    for (const g of Object.values(GRAMMARS)) g.words = new Set(g.kw.split(' '));
+    const LANGS = {
+      ts: 'c', tsx: 'c', js: 'c', jsx: 'c', mjs: 'c', cjs: 'c', java: 'c', kt: 'c', go: 'c', rs: 'c', c: 'c', h: 'c',
+      cc: 'c', cpp: 'c', hpp: 'c', cs: 'c', swift: 'c', scala: 'c', dart: 'c', php: 'c', jsonc: 'c',
+      py: 'py', rb: 'py', sh: 'sh', bash: 'sh', zsh: 'sh', css: 'css', scss: 'css', less: 'css',
+      html: 'html', htm: 'html', xml: 'html', svg: 'html', vue: 'html', sql: 'sql', json: 'json', yml: 'yaml', yaml: 'yaml', toml: 'yaml'
+    };
+    const BACKSLASH = String.fromCharCode(92);
+
+    function escHtml(s) { return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;'); }
+    function isWordChar(c) { return (c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z') || (c >= '0' && c <= '9') || c === '_' || c === '$'; }
+
+    /** Syntax class of every character of a line; state.block carries an unclosed block comment to the next line. */
+    function classify(s, g, state) {
+      const cls = new Array(s.length).fill('');
+      const paint = (from, to, c) => { for (let k = from; k < to; k++) cls[k] = c; };
+      let i = 0;
+      if (state.block) {
+        const e = s.indexOf(g.block[1]);
+        i = e < 0 ? s.length : e + g.block[1].length;
+        paint(0, i, 'c');
+        if (e >= 0) state.block = false;
+      }
+      while (i < s.length) {
+        const ch = s[i];
+        if (g.line && s.startsWith(g.line, i)) { paint(i, s.length, 'c'); break; }
+        if (g.block && s.startsWith(g.block[0], i)) {
+          const e = s.indexOf(g.block[1], i + g.block[0].length);
+          const end = e < 0 ? s.length : e + g.block[1].length;
+          paint(i, end, 'c');
+          if (e < 0) state.block = true;
+          i = end;
+          continue;
+        }
+        if (g.quotes.includes(ch.charCodeAt(0))) {
+          let j = i + 1;
+          while (j < s.length && s[j] !== ch) j += s[j] === BACKSLASH ? 2 : 1;
+          j = Math.min(j + 1, s.length);
+          paint(i, j, 's');
+          i = j;
+          continue;
+        }
+        if (isWordChar(ch)) {
+          let j = i;
+          while (j < s.length && isWordChar(s[j])) j++;
+          const w = s.slice(i, j);
+          if (ch >= '0' && ch <= '9') paint(i, j, 'n');
+          else if (g.words.has(g.ci ? w.toLowerCase() : w)) paint(i, j, 'k');
+          i = j;
+          continue;
+        }
+        i++;
+      }
+      return cls;
+    }
+
+    /** One line as HTML, syntax classes and changed-word marks merged into runs. */
+    function lineHtml(s, g, state, marks) {
+      if (s.length > 2000) return escHtml(s);
+      const cls = g ? classify(s, g, state) : [];
+      const marked = new Array(s.length).fill(false);
+      for (const [from, to] of marks || []) for (let k = from; k < to && k < s.length; k++) marked[k] = true;
+      let html = '';
+      for (let i = 0; i < s.length;) {
+        let j = i + 1;
+        while (j < s.length && cls[j] === cls[i] && marked[j] === marked[i]) j++;
+        let part = escHtml(s.slice(i, j));
+        if (cls[i]) part = '<span class="tk-' + cls[i] + '">' + part + '</span>';
+        if (marked[i]) part = '<span class="wd">' + part + '</span>';
+        html += part;
+        i = j;
+      }
+      return html;
     }
 
-    function applySort() {
-      const cards = Array.from(grid.querySelectorAll('.event'));
-      cards.sort((a, b) => {
-        const ta = Number(a.getAttribute('data-ts') || '0');
-        const tb = Number(b.getAttribute('data-ts') || '0');
-        return st.sort === 'newest' ? (tb - ta) : (ta - tb);
+    /** Highlighted HTML per hunk line; the before and after sides keep their own comment state. */
+    function highlightFile(f) {
+      const g = GRAMMARS[LANGS[f.lang]];
+      return f.hunks.map(h => {
+        const before = {}, after = {};
+        return h.lines.map(l => {
+          if (l.t === '-') return lineHtml(l.s, g, before, l.marks);
+          if (l.t === '+') return lineHtml(l.s, g, after, l.marks);
+          if (g && l.s.length <= 2000) classify(l.s, g, before);
+          return lineHtml(l.s, g, after);
+        });
       });
-      grid.innerHTML = '';
-      for (const c of cards) grid.appendChild(c);
-      btnSort.textContent = 'Sort: ' + (st.sort === 'oldest' ? 'Oldest' : 'Newest');
-      vscode.setState(st);
+    }
+
+    function lineClass(l) { return l.t === '+' ? 'add' : l.t === '-' ? 'del' : ''; }
+
+    function unifiedRows(h, html) {
+      return h.lines.map((l, i) =>
+        '<tr><td class="ln">' + (l.a || '') + '</td><td class="ln">' + (l.b || '') + '</td>' +
+        '<td class="sg ' + lineClass(l) + '">' + (l.t === ' ' ? '' : l.t) + '</td><td class="' + lineClass(l) + '">' + html[i] + '</td></tr>'
+      ).join('');
+    }
+
+    /** Side by side: removed lines are paired with the added lines that follow them. */
+    function splitRows(h, html) {
+      const cell = (i) => {
+        if (i < 0) return '<td class="ln"></td><td class="none"></td>';
+        const l = h.lines[i];
+        return '<td class="ln">' + (l.t === '+' ? l.b : l.a) + '</td><td class="' + lineClass(l) + '">' + html[i] + '</td>';
+      };
+      const out = [];
+      for (let i = 0; i < h.lines.length;) {
+        if (h.lines[i].t === ' ') {
+          const l = h.lines[i];
+          out.push('<tr><td class="ln">' + l.a + '</td><td>' + html[i] + '</td><td class="ln">' + l.b + '</td><td>' + html[i] + '</td></tr>');
+          i++;
+          continue;
+        }
+        let j = i;
+        while (j < h.lines.length && h.lines[j].t === '-') j++;
+        let k = j;
+        while (k < h.lines.length && h.lines[k].t === '+') k++;
+        for (let n = 0; n < Math.max(j - i, k - j); n++) {
+          out.push('<tr>' + cell(i + n < j ? i + n : -1) + cell(j + n < k ? j + n : -1) + '</tr>');
+        }
+        i = k;
+      }
+      return out.join('');
+    }
+
+    function renderDiffs(id) {
+      const data = diffData.get(id);
+      if (!data) return '<div class="diff-bar muted">Loading diffs…</div>';
+      if (data.error) return '<div class="diff-bar muted">Could not load diffs: ' + escHtml(data.error) + '</div>';
+      const key = id + '|' + st.diffLayout;
+      if (diffHtml.has(key)) return diffHtml.get(key);
+
+      const split = st.diffLayout === 'split';
+      const cols = split
+        ? '<colgroup><col class="ln"><col><col class="ln"><col></colgroup>'
+        : '<colgroup><col class="ln"><col class="ln"><col class="sg"><col></colgroup>';
+      let added = 0, removed = 0, hunks = 0;
+      const files = data.files.map(f => {
+        added += f.added;
+        removed += f.removed;
+        hunks += f.hunks.length;
+        const html = highlightFile(f);
+        const body = f.hunks.map((h, i) =>
+          '<tbody><tr class="hunk-hdr"><td colspan="4">' + escHtml(h.header) + '</td></tr>' + (split ? splitRows(h, html[i]) : unifiedRows(h, html[i])) + '</tbody>'
+        ).join('');
+        return '<div class="diff-file"><div class="diff-file-hdr"><span>' + escHtml(f.label) + '</span>' +
+          '<span class="muted">' + escHtml(f.op + (f.oldPath ? ' from ' + f.oldPath : '')) + '</span><span class="spacer"></span>' +
+          '<span class="stat-add">+' + f.added + '</span><span class="stat-del">−' + f.removed + '</span></div>' +
+          (f.note ? '<div class="diff-note muted">' + escHtml(f.note) + '</div>' : '') +
+          (body ? '<table class="diff' + (split ? ' split' : '') + '">' + cols + body + '</table>' : '') + '</div>';
+      }).join('');
+      const bar = '<div class="diff-bar"><span class="muted">' + data.files.length + ' file(s) · ' + hunks + ' hunk(s) ·</span>' +
+        '<span class="stat-add">+' + added + '</span><span class="stat-del">−' + removed + '</span><span class="spacer"></span>' +
+        '<button class="btn small" data-cmd="diffLayout" title="Switch between unified and side-by-side diffs">' + (split ? 'Unified' : 'Split') + '</button>' +
+        '<button class="btn small" data-cmd="prevHunk" title="Previous hunk (p)">↑ Prev hunk</button>' +
+        '<button class="btn small" data-cmd="nextHunk" title="Next hunk (n)">↓ Next hunk</button></div>';
+      diffHtml.set(key, bar + files);
+      return bar + files;
+    }
+
+    function requestDiffs(id) {
+      if (diffData.has(id) || diffRequested.has(id)) return;
+      diffRequested.add(id);
+      vscode.postMessage({ type: 'loadDiffs', id });
+    }
+
+    function dropDiffs(id) {
+      diffData.delete(id);
+      diffRequested.delete(id);
+      diffHtml.delete(id + '|unified');
+      diffHtml.delete(id + '|split');
+    }
+
+    /** Scroll the next (dir 1) or previous (dir -1) hunk header to the top, within one card or all cards shown. */
+    function jumpToHunk(dir, scope) {
+      const top = grid.getBoundingClientRect().top;
+      const ys = Array.from((scope || content).querySelectorAll('.hunk-hdr')).map(el => el.getBoundingClientRect().top - top);
+      const y = dir > 0 ? ys.find(v => v > 4) : ys.filter(v => v < -4).pop();
+      if (y !== undefined) grid.scrollTop += y;
+    }
+
+    function decorate(el, row) {
+      const collapsed = isCollapsed(row);
+      if (row.kind === 'event') {
+        el.querySelector('.body')?.classList.toggle('hidden', collapsed);
+        el.querySelector('.event')?.classList.toggle('flash', row.id === flashId);
+        const open = diffsShown(row);
+        const box = el.querySelector('.inline-diffs');
+        if (box) box.innerHTML = open ? renderDiffs(row.id) : '';
+        const diffsBtn = el.querySelector('[data-cmd="toggleDiffs"]');
+        if (diffsBtn) diffsBtn.textContent = st.openDiffs[row.id] ? 'Hide diffs' : 'Diffs';
+        if (open) requestDiffs(row.id);
+      }
+      const toggleBtn = el.querySelector('.toggle');
+      if (toggleBtn) toggleBtn.textContent = collapsed ? '▸' : '▾';
+    }
 
-      for (const ev of grid.querySelectorAll('.event')) {
-        const id = ev.getAttribute('data-id');
-        const body = ev.querySelector('.body');
-        const toggleBtn = ev.querySelector('.toggle');
-        if (st.collapsedIds[id]) {
-          body?.classList.add('hidden');
-          if (toggleBtn) toggleBtn.textContent = '▸';
-        } else {
-          if (toggleBtn) toggleBtn.textContent = '▾';
+    function render(force) {
+      const top = grid.scrollTop - OVERSCAN, bottom = grid.scrollTop + grid.clientHeight + OVERSCAN;
+      let y = 0, first = rows.length, last = -1, padTop = 0;
+      for (let i = 0; i < rows.length; i++) {
+        const h = heightOf(rows[i]);
+        if (y + h > top && y < bottom) {
+          if (i < first) { first = i; padTop = y; }
+          last = i;
         }
+        y += h;
       }
+      if (!force && range && range[0] === first && range[1] === last) return;
+      range = [first, last];
+
+      const shown = rows.slice(first, last + 1);
+      content.innerHTML = shown.map(row => '<div class="row' + (row.inSession ? ' in-session' : '') + '">' + row.item.html + '</div>').join('');
+      const els = Array.from(content.children);
+      els.forEach((el, i) => decorate(el, shown[i]));
+
+      // rows above the viewport that turned out taller or shorter than assumed would move the content
+      let shift = 0, at = padTop, sum = 0;
+      els.forEach((el, i) => {
+        const assumed = heightOf(shown[i]), h = el.offsetHeight;
+        if (h > 0) heights.set(heightKey(shown[i]), h);
+        if (h > 0 && at + assumed <= grid.scrollTop) shift += h - assumed;
+        at += assumed;
+        sum += h;
+      });
+      let total = 0;
+      for (const row of rows) total += heightOf(row);
+      topPad.style.height = padTop + 'px';
+      bottomPad.style.height = Math.max(0, total - padTop - sum) + 'px';
+      if (shift) grid.scrollTop += shift;
+    }
+
+    /** Rebuild the row list after data or view settings changed, keeping the visible rows in place. */
+    function update() {
+      const a = anchor();
+      buildRows();
+      if (a) {
+        const y = offsetOf(a.key);
+        if (y >= 0) grid.scrollTop = y + a.delta;
+      }
+      render(true);
+    }
+
+    let frame = 0;
+    grid.addEventListener('scroll', () => {
+      if (!frame) frame = requestAnimationFrame(() => { frame = 0; render(false); });
+    });
+    window.addEventListener('resize', () => { heights.clear(); update(); });
+
+    function setCollapsed(id, collapsed) {
+      if (collapsed) st.collapsedIds[id] = true;
+      else delete st.collapsedIds[id];
+      vscode.setState(st);
+      update();
+    }
+
+    function setSessionCollapsed(id, collapsed) {
+      if (collapsed) st.collapsedSessions[id] = true;
+      else delete st.collapsedSessions[id];
+      vscode.setState(st);
+      update();
     }
 
     function runSearch() {
@@ -232,12 +735,27 @@ export class TimelinePanel {
 
     btnRun.addEventListener('click', runSearch);
     search.addEventListener('keydown', (e) => { if (e.key === 'Enter') runSearch(); });
-    btnSort.addEventListener('click', () => { st.sort = (st.sort === 'newest' ? 'oldest' : 'newest'); applySort(); });
+    btnSort.addEventListener('click', () => { st.sort = (st.sort === 'newest' ? 'oldest' : 'newest'); vscode.setState(st); update(); });
+    btnGroup.addEventListener('click', () => { st.group = (st.group === 'session' ? 'none' : 'session'); vscode.setState(st); update(); });
     btnCollapseAll.addEventListener('click', () => {
-      for (const ev of grid.querySelectorAll('.event')) setCollapsed(ev, true);
+      for (const id of events.keys()) st.collapsedIds[id] = true;
+      vscode.setState(st);
+      update();
     });
     btnExpandAll.addEventListener('click', () => {
-      for (const ev of grid.querySelectorAll('.event')) setCollapsed(ev, false);
+      st.collapsedIds = {};
+      vscode.setState(st);
+      update();
+    });
+
+    folderSel?.addEventListener('change', () => {
+      st.folder = folderSel.value;
+      vscode.setState(st);
+      update();
+    });
+
+    btnOpenRestores.addEventListener('click', () => {
+      vscode.postMessage({ type: 'openRestoreHistory' });
     });
 
     btnOpenTrash.addEventListener('click', () => {
@@ -249,12 +767,44 @@ export class TimelinePanel {
       if (!btn) return;
 
       const cmd = btn.getAttribute('data-cmd');
-      if (btn.id === 'run' || btn.id === 'sort' || btn.id === 'collapseAll' || btn.id === 'expandAll' || btn.id === 'openTrash') return;
+      if (btn.id === 'run' || btn.id === 'sort' || btn.id === 'group' || btn.id === 'collapseAll' || btn.id === 'expandAll' || btn.id === 'openRestores' || btn.id === 'openTrash') return;
 
       if (cmd === 'toggle') {
-        const evEl = btn.closest('.event');
-        const collapsed = evEl.querySelector('.body')?.classList.contains('hidden');
-        setCollapsed(evEl, !collapsed);
+        const id = btn.closest('.event').getAttribute('data-id');
+        setCollapsed(id, !st.collapsedIds[id]);
+        return;
+      }
+
+      if (cmd === 'toggleDiffs') {
+        const id = btn.getAttribute('data-id');
+        if (st.openDiffs[id]) delete st.openDiffs[id];
+        else { st.openDiffs[id] = true; delete st.collapsedIds[id]; }
+        vscode.setState(st);
+        update();
+        return;
+      }
+
+      if (cmd === 'diffLayout') {
+        st.diffLayout = st.diffLayout === 'split' ? 'unified' : 'split';
+        vscode.setState(st);
+        for (const key of Array.from(heights.keys())) if (key.endsWith(':d')) heights.delete(key);
+        update();
+        return;
+      }
+
+      if (cmd === 'prevHunk' || cmd === 'nextHunk') {
+        jumpToHunk(cmd === 'nextHunk' ? 1 : -1, btn.closest('.event'));
+        return;
+      }
+
+      if (cmd === 'toggleSession') {
+        const id = btn.closest('.session').getAttribute('data-session');
+        setSessionCollapsed(id, !st.collapsedSessions[id]);
+        return;
+      }
+      if (cmd === 'sessionReport' || cmd === 'exportSessionMbox') {
+        const id = btn.getAttribute('data-id');
+        vscode.postMessage({ type: cmd, id });
         return;
       }
 
@@ -271,6 +821,18 @@ export class TimelinePanel {
         return;
       }
 
+      if (cmd === 'replayEvent') {
+        const id = btn.getAttribute('data-id');
+        vscode.postMessage({ type: 'replayEvent', id });
+        return;
+      }
+
+      if (cmd === 'rerunEvent' || cmd === 'commitEvent') {
+        const id = btn.getAttribute('data-id');
+        vscode.postMessage({ type: cmd, id });
+        return;
+      }
+
       if (cmd === 'deleteEvent') {
         const id = btn.getAttribute('data-id');
         vscode.postMessage({ type: 'deleteEvent', id });
@@ -280,8 +842,9 @@ export class TimelinePanel {
       if (cmd === 'restoreFile') {
         const id = btn.getAttribute('data-id');
         const path = btn.getAttribute('data-path');
+        const repoRoot = btn.getAttribute('data-repo') || undefined;
         const side = btn.getAttribute('data-side') || 'after';
-        vscode.postMessage({ type: 'restoreFile', id, path, side });
+        vscode.postMessage({ type: 'restoreFile', id, path, repoRoot, side });
         return;
       }
 
@@ -294,7 +857,67 @@ export class TimelinePanel {
       }
     });
 
-    applySort();
+    function revealEvent(id) {
+      const ev = events.get(id);
+      if (!ev) return;
+      if (!inFolder(ev)) st.folder = '';
+      delete st.collapsedSessions[ev.session];
+      delete st.collapsedIds[id];
+      vscode.setState(st);
+      buildRows();
+      grid.scrollTop = Math.max(0, offsetOf('e:' + id) - grid.clientHeight / 2);
+      render(true);
+      flashId = id;
+      // heights above it may have been estimates; the rendered card knows where it really is
+      const evEl = Array.from(content.querySelectorAll('.event')).find(el => el.getAttribute('data-id') === id);
+      evEl?.scrollIntoView({ block: 'center' });
+      evEl?.classList.add('flash');
+      setTimeout(() => {
+        flashId = undefined;
+        for (const el of content.querySelectorAll('.event.flash')) el.classList.remove('flash');
+      }, 1500);
+    }
+
+    function forget(id) {
+      heights.delete('e:' + id);
+      heights.delete('e:' + id + ':c');
+      heights.delete('e:' + id + ':d');
+    }
+
+    // n / p move between the hunks of the open diffs
+    document.addEventListener('keydown', (e) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.target.closest?.('input, select, textarea')) return;
+      if (e.key === 'n' || e.key === 'p') { jumpToHunk(e.key === 'n' ? 1 : -1); e.preventDefault(); }
+    });
+
+    window.addEventListener('message', (e) => {
+      const m = e.data;
+      if (m?.type === 'reset') {
+        events.clear();
+        for (const v of m.events) events.set(v.id, v);
+        sessions = m.sessions || [];
+        heights.clear();
+        update();
+      } else if (m?.type === 'diff') {
+        for (const id of m.removed) { events.delete(id); forget(id); dropDiffs(id); }
+        for (const v of m.added.concat(m.changed)) { events.set(v.id, v); forget(v.id); dropDiffs(v.id); }
+        if (m.sessions) {
+          sessions = m.sessions;
+          for (const s of sessions) { heights.delete('s:' + s.id); heights.delete('s:' + s.id + ':c'); }
+        }
+        update();
+      } else if (m?.type === 'reveal') {
+        revealEvent(m.id);
+      } else if (m?.type === 'diffs') {
+        dropDiffs(m.id);
+        diffData.set(m.id, m.error ? { error: m.error } : { files: m.files });
+        forget(m.id);
+        update();
+      }
+    });
+
+    update();
+    vscode.postMessage({ type: 'ready' });
   </script>
 </body>
 </html>`;
@@ -1,19 +1,62 @@
+/** How a file changed in an event. `renamed` entries carry the old path in `oldPath`. */
+export type FileOp = 'added' | 'modified' | 'deleted' | 'renamed';
+
+/**
+ * One changed file of an event.
+ * left/right: viewable URIs; leftHash/rightHash: keys into the blob store (.promptreplay/blobs)
+ * leftRawHash/rightRawHash: the unmasked snapshot, only when redaction changed it and the store is
+ *   encrypted; used to write files back (restore, replay, commits), never shown or exported
+ * repoRoot: repository the paths are relative to, when it isn't the event's repoRoot
+ * binary/leftSize/rightSize: recorded at capture time so views can describe binary changes
+ */
+export type FileChange = {
+    path: string;
+    op: FileOp;
+    oldPath?: string;    // rename source, relative to the same root as `path`
+    left?: string; right?: string; leftHash?: string; rightHash?: string; repoRoot?: string;
+    leftRawHash?: string; rightRawHash?: string;
+    binary?: boolean; leftSize?: number; rightSize?: number;
+  };
+
+/** Something masked before the event was stored: `target` is prompt, response, metadata.<key> or `<path> (before|after)`. */
+export type Redaction = { target: string; rule: string; count: number };
+
 export type PromptEvent = {
+    schemaVersion: number; // on-disk format version; older records are migrated on read (core/schema.ts)
     id: string;
     timestamp: number;
     prompt: string;
     responsePreview?: string;
-    repoRoot: string;
-    beforeRef?: string;  // best-effort: HEAD sha or pseudo
-    afterRef?: string;   // typically "WORKING"
+    repoRoot: string;    // folder holding .promptreplay; file paths are relative to it unless an entry says otherwise
+    beforeRef?: string;  // checkpoint snapshot commit, HEAD sha or pseudo
+    afterRef?: string;   // "WORKING", or the commit holding the event's files once committed
     filesChanged: string[];
-    diffUris: { path: string; left?: string; right?: string }[];
+    diffUris: FileChange[];
     tags?: string[];
+    rerunOf?: string;    // id of the event this one re-ran the prompt of
+    metadata?: Record<string, string>;
+    folders?: string[];  // names of the workspace folders the changed files belong to
+    repos?: string[];    // roots of every repository the event touched
+    sessionId?: string;  // named session the event was logged in
+    commits?: Record<string, string>; // repo top level -> commit created for this event
+    redactions?: Redaction[];         // secrets and personal data masked before writing
+  };
+
+  /** A named unit of work (e.g. "feature X") that groups the prompts logged while it was active. */
+  export type SessionInfo = {
+    id: string;
+    name: string;
+    description?: string;
+    goal?: string;
+    startedAt: number;
+    endedAt?: number;
   };
   
   export type SessionState = {
     active: boolean;
     repoRoot?: string;
     lastCheckpointSha?: string;
+    checkpoints?: Record<string, string>; // repo root -> working-tree snapshot commit at checkpoint time
+    sessionId?: string;                   // named session new events are attributed to
   };
   
\ No newline at end of file
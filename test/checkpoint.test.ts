@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+import { CHECKPOINT_REFS, dropCheckpoint, filesChangedSince, snapshotWorkingTree } from '../src/core/checkpoint';
+import { git, initRepo, tempDir, writeFiles } from './helpers';
+
+test('a checkpoint freezes uncommitted and untracked files without touching the index', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    await initRepo(dir, { 'a.txt': 'committed\n' });
+    await writeFiles(dir, { 'a.txt': 'edited\n', 'new.txt': 'untracked\n', '.promptreplay/events.jsonl': '{}\n' });
+    const status = git(dir, 'status', '--porcelain');
+
+    const sha = await snapshotWorkingTree(dir);
+    assert.ok(sha);
+    assert.equal(git(dir, 'show', `${sha}:a.txt`), 'edited');
+    assert.equal(git(dir, 'show', `${sha}:new.txt`), 'untracked');
+    assert.equal(git(dir, 'ls-tree', '--name-only', sha!), 'a.txt\nnew.txt');
+    assert.equal(git(dir, 'rev-parse', `${sha}^`), git(dir, 'rev-parse', 'HEAD'));
+    assert.equal(git(dir, 'status', '--porcelain'), status);
+  } finally { await cleanup(); }
+});
+
+test('every checkpoint keeps its own ref until it is dropped', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    await initRepo(dir, { 'a.txt': 'one\n' });
+    await writeFiles(dir, { 'a.txt': 'two\n' });
+    const first = (await snapshotWorkingTree(dir))!;
+    await writeFiles(dir, { 'a.txt': 'three\n' });
+    const second = (await snapshotWorkingTree(dir))!;
+    assert.notEqual(first, second);
+
+    const refs = () => git(dir, 'for-each-ref', '--format=%(refname)', CHECKPOINT_REFS).split('\n').filter(Boolean).sort();
+    assert.deepEqual(refs(), [CHECKPOINT_REFS + first, CHECKPOINT_REFS + second].sort());
+
+    await dropCheckpoint(dir, first);
+    assert.deepEqual(refs(), [CHECKPOINT_REFS + second]);
+    await dropCheckpoint(dir, git(dir, 'rev-parse', 'HEAD')); // not a checkpoint: nothing happens
+    assert.deepEqual(refs(), [CHECKPOINT_REFS + second]);
+  } finally { await cleanup(); }
+});
+
+test('files an agent changes on disk after the checkpoint are found without editor events', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    await initRepo(dir, { 'src/app.ts': 'v1\n', 'old.ts': 'bye\n', 'dirty.ts': 'v1\n' });
+    await writeFiles(dir, { 'dirty.ts': 'edited before the checkpoint\n' });
+
+    // ingest: {"type":"checkpoint"}, then the agent edits files directly, then {"type":"logPrompt"}
+    const sha = (await snapshotWorkingTree(dir))!;
+    await writeFiles(dir, { 'src/app.ts': 'v2\n', 'src/added.ts': 'new\n' });
+    await fsp.rm(path.join(dir, 'old.ts'));
+
+    assert.deepEqual((await filesChangedSince(dir, sha)).sort(), ['old.ts', 'src/added.ts', 'src/app.ts']);
+  } finally { await cleanup(); }
+});
+
+test('a file changed back to its checkpoint content is not reported', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    await initRepo(dir, { 'a.txt': 'one\n' });
+    const sha = (await snapshotWorkingTree(dir))!;
+    await writeFiles(dir, { 'a.txt': 'two\n' });
+    await writeFiles(dir, { 'a.txt': 'one\n' });
+    assert.deepEqual(await filesChangedSince(dir, sha), []);
+  } finally { await cleanup(); }
+});
@@ -0,0 +1,49 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fsp } from 'node:fs';
+
+import { appendEventToFile, readArchive, readEventsChecked, readEventsFile, updateEventsFile } from '../src/core/events';
+import { layout } from '../src/core/layout';
+import { makeEvent, tempDir } from './helpers';
+
+async function eventWithId(root: string, n: number) {
+  return makeEvent(root, [], { id: `ev-${n}`, timestamp: 1700000000000 + n });
+}
+
+test('appends keep a line count that matches the log', async () => {
+  const { dir: root, cleanup } = await tempDir();
+  try {
+    for (let n = 0; n < 5; n++) await appendEventToFile(root, await eventWithId(root, n), 100);
+    const L = layout(root);
+    assert.equal(JSON.parse(await fsp.readFile(L.eventsCount, 'utf8')).lines, 5);
+    assert.deepEqual((await readEventsFile(root)).map(e => e.id), ['ev-0', 'ev-1', 'ev-2', 'ev-3', 'ev-4']);
+
+    // a rewrite invalidates the count; the next append counts again
+    await updateEventsFile(root, events => events.slice(2));
+    await appendEventToFile(root, await eventWithId(root, 5), 100);
+    assert.equal(JSON.parse(await fsp.readFile(L.eventsCount, 'utf8')).lines, 4);
+  } finally { await cleanup(); }
+});
+
+test('an append after a torn last line starts on a new line', async () => {
+  const { dir: root, cleanup } = await tempDir();
+  try {
+    await appendEventToFile(root, await eventWithId(root, 0), 100);
+    await fsp.appendFile(layout(root).events, '{"id":"torn');
+    await appendEventToFile(root, await eventWithId(root, 1), 100);
+    const read = await readEventsChecked(root);
+    assert.deepEqual(read.events.map(e => e.id), ['ev-0', 'ev-1']);
+    assert.equal(read.bad.length, 1);
+  } finally { await cleanup(); }
+});
+
+test('the oldest events are archived once the log outgrows maxEvents', async () => {
+  const { dir: root, cleanup } = await tempDir();
+  try {
+    for (let n = 0; n < 31; n++) await appendEventToFile(root, await eventWithId(root, n), 10);
+    assert.deepEqual((await readEventsFile(root)).map(e => e.id), Array.from({ length: 10 }, (_, i) => `ev-${21 + i}`));
+    const archived = (await readArchive(root)).flatMap(a => a.events.map(e => e.id));
+    assert.equal(archived.length, 21);
+    await assert.rejects(fsp.stat(layout(root).eventsCount));
+  } finally { await cleanup(); }
+});
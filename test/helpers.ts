@@ -0,0 +1,62 @@
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+import * as os from 'os';
+import { execFileSync } from 'node:child_process';
+
+import { BlobStore } from '../src/core/blobs';
+import { EVENT_SCHEMA_VERSION } from '../src/core/schema';
+import { FileChange, FileOp, PromptEvent } from '../src/types';
+
+/** A fresh directory under the OS temp folder; removed by the returned cleanup. */
+export async function tempDir(prefix = 'prompt-replay-test-'): Promise<{ dir: string; cleanup: () => Promise<void> }> {
+  const dir = await fsp.realpath(await fsp.mkdtemp(path.join(os.tmpdir(), prefix)));
+  return { dir, cleanup: () => fsp.rm(dir, { recursive: true, force: true }) };
+}
+
+const GIT_ENV = {
+  GIT_AUTHOR_NAME: 'Test', GIT_AUTHOR_EMAIL: 'test@localhost',
+  GIT_COMMITTER_NAME: 'Test', GIT_COMMITTER_EMAIL: 'test@localhost',
+  GIT_CONFIG_NOSYSTEM: '1', GIT_CONFIG_GLOBAL: os.devNull
+};
+
+export function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, env: { ...process.env, ...GIT_ENV }, encoding: 'utf8' }).trim();
+}
+
+/** `git init` plus one commit holding `files`. */
+export async function initRepo(dir: string, files: Record<string, string | Buffer>): Promise<void> {
+  git(dir, 'init', '-q', '-b', 'main');
+  await writeFiles(dir, files);
+  git(dir, 'add', '-A');
+  git(dir, 'commit', '-q', '-m', 'initial');
+}
+
+export async function writeFiles(dir: string, files: Record<string, string | Buffer>): Promise<void> {
+  for (const [rel, content] of Object.entries(files)) {
+    await fsp.mkdir(path.dirname(path.join(dir, rel)), { recursive: true });
+    await fsp.writeFile(path.join(dir, rel), content);
+  }
+}
+
+export type FileSpec = { path: string; op: FileOp; oldPath?: string; before?: string | Buffer; after?: string | Buffer };
+
+/** An event whose snapshots are stored in `root`'s blob store. */
+export async function makeEvent(root: string, files: FileSpec[], extra: Partial<PromptEvent> = {}): Promise<PromptEvent> {
+  const blobs = new BlobStore(root);
+  const diffUris: FileChange[] = [];
+  for (const f of files) {
+    const leftHash = f.before === undefined ? undefined : await blobs.put(Buffer.from(f.before));
+    const rightHash = f.after === undefined ? undefined : await blobs.put(Buffer.from(f.after));
+    diffUris.push({ path: f.path, op: f.op, oldPath: f.oldPath, leftHash, rightHash });
+  }
+  return {
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    id: '00000000-0000-4000-8000-000000000001',
+    timestamp: Date.UTC(2024, 0, 2, 3, 4, 5),
+    prompt: 'Test change',
+    repoRoot: root,
+    filesChanged: files.map(f => f.path),
+    diffUris,
+    ...extra
+  };
+}
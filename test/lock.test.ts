@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fsp } from 'node:fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { LockTimeoutError, withLockFile } from '../src/core/lock';
+import { tempDir } from './helpers';
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+async function ageFile(file: string, ms: number) {
+  const then = new Date(Date.now() - ms);
+  await fsp.utimes(file, then, then);
+}
+
+test('callers take turns and the lock is removed afterwards', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    const lock = path.join(dir, 'events.lock');
+    let inside = 0, most = 0;
+    await Promise.all(Array.from({ length: 6 }, () => withLockFile(lock, async () => {
+      most = Math.max(most, ++inside);
+      await sleep(10);
+      inside--;
+    })));
+    assert.equal(most, 1);
+    await assert.rejects(fsp.stat(lock));
+  } finally { await cleanup(); }
+});
+
+test('a live holder makes waiters time out', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    const lock = path.join(dir, 'events.lock');
+    await fsp.writeFile(lock, JSON.stringify({ pid: process.pid, host: os.hostname(), at: Date.now() }));
+    await assert.rejects(withLockFile(lock, async () => 1, { timeoutMs: 100 }), LockTimeoutError);
+  } finally { await cleanup(); }
+});
+
+test('a lock left by a dead process on this host is broken', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    const lock = path.join(dir, 'events.lock');
+    await fsp.writeFile(lock, JSON.stringify({ pid: 2 ** 22 + 12345, host: os.hostname(), at: Date.now() }));
+    assert.equal(await withLockFile(lock, async () => 'ran', { timeoutMs: 500 }), 'ran');
+  } finally { await cleanup(); }
+});
+
+test('an old lock is stale even when it is empty or unreadable; a fresh empty one is not', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    const lock = path.join(dir, 'events.lock');
+    await fsp.writeFile(lock, '');
+    await assert.rejects(withLockFile(lock, async () => 1, { timeoutMs: 100, staleMs: 60_000 }), LockTimeoutError);
+
+    await ageFile(lock, 120_000);
+    assert.equal(await withLockFile(lock, async () => 'ran', { timeoutMs: 500, staleMs: 60_000 }), 'ran');
+
+    await fsp.writeFile(lock, '{"pid": 1, "ho');
+    await ageFile(lock, 120_000);
+    assert.equal(await withLockFile(lock, async () => 'ran', { timeoutMs: 500, staleMs: 60_000 }), 'ran');
+    assert.deepEqual((await fsp.readdir(dir)).filter(f => f.endsWith('.stale')), []);
+  } finally { await cleanup(); }
+});
+
+test('a held lock is kept fresh, so a long operation is not taken over', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    const lock = path.join(dir, 'events.lock');
+    let overlapped = false, holding = false;
+    const long = withLockFile(lock, async () => { holding = true; await sleep(3500); holding = false; }, { staleMs: 2000 });
+    await sleep(2500);
+    await withLockFile(lock, async () => { overlapped = holding; }, { staleMs: 2000, timeoutMs: 5000 });
+    await long;
+    assert.equal(overlapped, false);
+  } finally { await cleanup(); }
+});
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { merge3 } from '../src/merge';
+
+const labels = { ours: 'current', base: 'before', theirs: 'after' };
+
+test('changes on different lines merge cleanly', () => {
+  const base = 'a\nb\nc\nd\ne\n';
+  const ours = 'A\nb\nc\nd\ne\n';
+  const theirs = 'a\nb\nc\nd\nE\n';
+  assert.deepEqual(merge3(base, ours, theirs, labels), { text: 'A\nb\nc\nd\nE\n', conflicts: 0 });
+});
+
+test('a change made on one side only is taken as is', () => {
+  const base = 'one\ntwo\n';
+  assert.deepEqual(merge3(base, base, 'one\n2\nthree\n', labels), { text: 'one\n2\nthree\n', conflicts: 0 });
+  assert.deepEqual(merge3(base, 'zero\none\ntwo\n', base, labels), { text: 'zero\none\ntwo\n', conflicts: 0 });
+});
+
+test('the same change on both sides is taken once', () => {
+  const r = merge3('x\ny\nz\n', 'x\nY\nz\n', 'x\nY\nz\n', labels);
+  assert.deepEqual(r, { text: 'x\nY\nz\n', conflicts: 0 });
+});
+
+test('overlapping changes become a diff3 conflict block', () => {
+  const r = merge3('a\nb\nc\n', 'a\nours\nc\n', 'a\ntheirs\nc\n', labels);
+  assert.equal(r.conflicts, 1);
+  assert.equal(r.text, [
+    'a',
+    '<<<<<<< current', 'ours',
+    '||||||| before', 'b',
+    '=======', 'theirs',
+    '>>>>>>> after',
+    'c', ''
+  ].join('\n'));
+});
+
+test('an added file merges against an empty base', () => {
+  assert.deepEqual(merge3('', '', 'new\n', labels), { text: 'new\n', conflicts: 0 });
+});
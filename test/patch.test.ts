@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+import { eventPatch, filePatch, gitBlobId } from '../src/core/patch';
+import { git, initRepo, makeEvent, tempDir } from './helpers';
+
+const author = { name: 'Test', email: 'test@localhost' };
+const binBefore = Buffer.from([0, 1, 2, 3, 255, 254, 0, 7]);
+const binAfter = Buffer.from([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 0]);
+
+test('gitBlobId matches git hash-object', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    await fsp.writeFile(path.join(dir, 'f'), 'hello\n');
+    assert.equal(gitBlobId(Buffer.from('hello\n')), git(dir, 'hash-object', 'f'));
+  } finally { await cleanup(); }
+});
+
+test('an unchanged file gives no patch', () => {
+  assert.equal(filePatch('a.txt', Buffer.from('x\n'), Buffer.from('x\n')), undefined);
+});
+
+test('an event patch applies with git apply and reproduces the after side', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    await initRepo(dir, {
+      'a.txt': 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\n',
+      'gone.txt': 'bye\n',
+      'old/name.txt': 'moved\nand kept\n',
+      'tail.txt': 'no newline',
+      'bin.dat': binBefore
+    });
+    const ev = await makeEvent(dir, [
+      { path: 'a.txt', op: 'modified', before: 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\n', after: 'one\nTWO\nthree\nfour\nfive\nsix\nseven\neight\nnine\n' },
+      { path: 'new/file.txt', op: 'added', after: 'fresh\n' },
+      { path: 'gone.txt', op: 'deleted', before: 'bye\n' },
+      { path: 'new/name.txt', op: 'renamed', oldPath: 'old/name.txt', before: 'moved\nand kept\n', after: 'moved\nand changed\n' },
+      { path: 'tail.txt', op: 'modified', before: 'no newline', after: 'no newline\n' },
+      { path: 'bin.dat', op: 'modified', before: binBefore, after: binAfter }
+    ]);
+    const patch = await eventPatch(dir, ev, author);
+    assert.match(patch, /^Subject: \[PATCH\] Test change$/m);
+    assert.match(patch, /^Prompt-Replay-Id: 00000000-0000-4000-8000-000000000001$/m);
+
+    const patchFile = `${dir}.patch`;
+    await fsp.writeFile(patchFile, patch);
+    try {
+      git(dir, 'apply', '--check', patchFile);
+      git(dir, 'apply', patchFile);
+    } finally { await fsp.rm(patchFile, { force: true }); }
+
+    const read = (rel: string) => fsp.readFile(path.join(dir, rel));
+    assert.equal((await read('a.txt')).toString(), 'one\nTWO\nthree\nfour\nfive\nsix\nseven\neight\nnine\n');
+    assert.equal((await read('new/file.txt')).toString(), 'fresh\n');
+    assert.equal((await read('new/name.txt')).toString(), 'moved\nand changed\n');
+    assert.equal((await read('tail.txt')).toString(), 'no newline\n');
+    assert.deepEqual(await read('bin.dat'), binAfter);
+    await assert.rejects(read('gone.txt'));
+    await assert.rejects(read('old/name.txt'));
+  } finally { await cleanup(); }
+});
+
+test('a pure rename is a rename-only patch', async () => {
+  const { dir, cleanup } = await tempDir();
+  try {
+    await initRepo(dir, { 'x.txt': 'same\n' });
+    const ev = await makeEvent(dir, [{ path: 'y.txt', op: 'renamed', oldPath: 'x.txt', before: 'same\n', after: 'same\n' }]);
+    const patch = await eventPatch(dir, ev, author);
+    assert.match(patch, /similarity index 100%\nrename from x\.txt\nrename to y\.txt\n/);
+    const patchFile = `${dir}.patch`;
+    await fsp.writeFile(patchFile, patch);
+    try { git(dir, 'apply', patchFile); } finally { await fsp.rm(patchFile, { force: true }); }
+    assert.equal(await fsp.readFile(path.join(dir, 'y.txt'), 'utf8'), 'same\n');
+  } finally { await cleanup(); }
+});
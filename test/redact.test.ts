@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { Redactor } from '../src/core/redact';
+
+const CODE = [
+  'export function handleUserProfileUpdate2FAVerificationRequest(req: Request) {',
+  "  const charge = await stripe.charges.retrieve('ch_3NxKq8LmZpT2vW9yB4cD7eFg');",
+  "  return { requestId: 'req_8Fh2KqLmN3pQrS7tUvWxYz1A', owner: 'usr_2aXfGk9QbT7mRpL4vZ8wNc3H' };",
+  '}'
+].join('\n');
+
+test('long identifiers and generated ids are left alone by default', () => {
+  const { redactor } = Redactor.create();
+  assert.equal(redactor.text(CODE, 'a.ts (after)'), CODE);
+  assert.deepEqual(redactor.report(), []);
+});
+
+test('the built-in detectors still mask known secrets by default', () => {
+  const { redactor } = Redactor.create();
+  const out = redactor.text('OPENAI_API_KEY=sk-proj-abcdefghijklmnopqrstuvwx\n', '.env (after)');
+  assert.equal(out, 'OPENAI_API_KEY=[REDACTED:api-key]\n');
+});
+
+test('random-looking tokens are masked once the high-entropy check is turned on', () => {
+  const { redactor } = Redactor.create([], [], true);
+  const out = redactor.text("const requestId = 'req_8Fh2KqLmN3pQrS7tUvWxYz1A';", 'a.ts (after)');
+  assert.equal(out, "const requestId = '[REDACTED:high-entropy]';");
+  assert.deepEqual(redactor.report(), [{ target: 'a.ts (after)', rule: 'high-entropy', count: 1 }]);
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+import { backupTime, listRestores, restoreEvent, undoRestore } from '../src/core/restore';
+import { makeEvent, tempDir, writeFiles } from './helpers';
+
+test('a restore writes the snapshot and can be undone', async () => {
+  const { dir: root, cleanup } = await tempDir();
+  try {
+    await writeFiles(root, { 'a.txt': 'current\n' });
+    const ev = await makeEvent(root, [{ path: 'a.txt', op: 'modified', before: 'before\n', after: 'after\n' }]);
+    const r = await restoreEvent(root, ev, 'before');
+    assert.equal(r.restored, 1);
+    assert.equal(await fsp.readFile(path.join(root, 'a.txt'), 'utf8'), 'before\n');
+    await undoRestore(root, r.backupId);
+    assert.equal(await fsp.readFile(path.join(root, 'a.txt'), 'utf8'), 'current\n');
+  } finally { await cleanup(); }
+});
+
+test('a snapshot only kept with secrets masked is never written back', async () => {
+  const { dir: root, cleanup } = await tempDir();
+  try {
+    await writeFiles(root, { '.env': 'TOKEN=real\n', 'b.txt': 'b now\n' });
+    const ev = await makeEvent(root, [
+      { path: '.env', op: 'modified', before: 'TOKEN=[REDACTED:api-key]\n', after: 'TOKEN=real\n' },
+      { path: 'b.txt', op: 'modified', before: 'b then\n', after: 'b now\n' }
+    ], { redactions: [{ target: '.env (before)', rule: 'api-key', count: 1 }] });
+    const r = await restoreEvent(root, ev, 'before');
+    assert.deepEqual({ restored: r.restored, skipped: r.skipped }, { restored: 1, skipped: 1 });
+    assert.equal(await fsp.readFile(path.join(root, '.env'), 'utf8'), 'TOKEN=real\n');
+    assert.equal(await fsp.readFile(path.join(root, 'b.txt'), 'utf8'), 'b then\n');
+  } finally { await cleanup(); }
+});
+
+test('restores in quick succession each get their own backup', async () => {
+  const { dir: root, cleanup } = await tempDir();
+  try {
+    await writeFiles(root, { 'a.txt': 'current\n' });
+    const ev = await makeEvent(root, [{ path: 'a.txt', op: 'modified', before: 'before\n', after: 'after\n' }]);
+    const first = await restoreEvent(root, ev, 'before');
+    const second = await restoreEvent(root, ev, 'after');
+    assert.notEqual(first.backupId, second.backupId);
+
+    const records = await listRestores(root);
+    assert.equal(records.length, 2);
+    for (const r of records) assert.equal(r.createdAt, backupTime(r.backupId));
+    assert.ok(backupTime(first.backupId) > 0);
+    assert.equal(backupTime('backup-1700000000000'), 1700000000000);
+
+    await undoRestore(root, second.backupId);
+    assert.equal(await fsp.readFile(path.join(root, 'a.txt'), 'utf8'), 'before\n');
+    await undoRestore(root, first.backupId);
+    assert.equal(await fsp.readFile(path.join(root, 'a.txt'), 'utf8'), 'current\n');
+  } finally { await cleanup(); }
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+
+import { EVENT_SCHEMA_VERSION, FutureSchemaError, SchemaError, upgradeEvent, validateEvent } from '../src/core/schema';
+
+const hash = 'a'.repeat(64);
+
+function current(extra: Record<string, unknown> = {}) {
+  return {
+    schemaVersion: EVENT_SCHEMA_VERSION,
+    id: 'ev-1',
+    timestamp: 1700000000000,
+    prompt: 'Do it',
+    repoRoot: '/repo',
+    filesChanged: ['a.txt'],
+    diffUris: [{ path: 'a.txt', op: 'modified', leftHash: hash, rightHash: hash }],
+    ...extra
+  };
+}
+
+test('a current record passes unchanged', () => {
+  const raw = current();
+  const { event, migrated } = upgradeEvent(raw);
+  assert.equal(migrated, false);
+  assert.deepEqual(event, raw);
+});
+
+test('an unversioned record is migrated to the current version', () => {
+  const { event, migrated } = upgradeEvent({
+    id: 'old',
+    timestamp: 1600000000000,
+    prompt: 'legacy',
+    repoRoot: '/repo',
+    diffUris: [{ path: 'x.ts', left: 'file:///l', right: 'file:///r' }, { path: 'y.ts', op: 'added' }]
+  });
+  assert.equal(migrated, true);
+  assert.equal(event.schemaVersion, EVENT_SCHEMA_VERSION);
+  assert.deepEqual(event.diffUris.map(d => d.op), ['modified', 'added']);
+  assert.deepEqual(event.filesChanged, ['x.ts', 'y.ts']);
+});
+
+test('a v1 record keeps the filesChanged it has', () => {
+  const { event } = upgradeEvent({ schemaVersion: 1, id: 'old', timestamp: 1, prompt: '', repoRoot: '/r', filesChanged: ['z'], diffUris: [] });
+  assert.deepEqual(event.filesChanged, ['z']);
+});
+
+test('records from a newer version are refused with FutureSchemaError', () => {
+  assert.throws(() => upgradeEvent(current({ schemaVersion: EVENT_SCHEMA_VERSION + 1 })), FutureSchemaError);
+});
+
+test('invalid records name the event and the field', () => {
+  assert.throws(() => upgradeEvent('nope'), SchemaError);
+  assert.throws(() => upgradeEvent(current({ schemaVersion: 0 })), /schemaVersion must be a positive integer/);
+  assert.throws(() => validateEvent(current({ timestamp: 'soon' })), /event ev-1: timestamp must be/);
+  assert.throws(() => validateEvent(current({ diffUris: [{ path: 'a', op: 'moved' }] })), /diffUris\[0\]\.op must be one of/);
+  assert.throws(() => validateEvent(current({ diffUris: [{ path: 'a', op: 'renamed' }] })), /diffUris\[0\]\.oldPath must be the rename source path/);
+  assert.throws(() => validateEvent(current({ diffUris: [{ path: 'a', op: 'modified', leftHash: 'abc' }] })), /leftHash must be a blob name/);
+  assert.throws(() => validateEvent(current({ redactions: [{ target: 'prompt', rule: 'x', count: -1 }] })), /redactions must be/);
+});
@@ -0,0 +1,25 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+import { SearchIndex } from '../src/core/searchIndex';
+import { appendEventToFile } from '../src/core/events';
+import { layout } from '../src/core/layout';
+import { makeEvent, tempDir } from './helpers';
+
+test('the index is rewritten whole after a torn last line and still finds every event', async () => {
+  const { dir: root, cleanup } = await tempDir();
+  try {
+    await appendEventToFile(root, await makeEvent(root, [], { id: 'ev-0', prompt: 'rename the parser' }), 100);
+    await new SearchIndex(root).update();
+    const file = path.join(layout(root).index, (await fsp.readdir(layout(root).index))[0]);
+    await fsp.appendFile(file, '{"id":"torn');
+
+    await appendEventToFile(root, await makeEvent(root, [], { id: 'ev-1', prompt: 'speed up the lexer' }), 100);
+    assert.deepEqual((await new SearchIndex(root).search('lexer')).map(e => e.id), ['ev-1']);
+    const lines = (await fsp.readFile(file, 'utf8')).split('\n').filter(Boolean);
+    assert.deepEqual(lines.map(l => JSON.parse(l).id).sort(), ['ev-0', 'ev-1']);
+    assert.deepEqual((await fsp.readdir(layout(root).index)).filter(f => f.endsWith('.tmp')), []);
+  } finally { await cleanup(); }
+});
@@ -0,0 +1,132 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { promises as fsp } from 'node:fs';
+import * as path from 'path';
+
+import { EncryptionError, SEALED_LINE_PREFIX, Vault, generateKey, isSealed, keyFromPassphrase, setVault } from '../src/core/vault';
+import { decryptStore, encryptStore, readEncryptionInfo, rotateStoreKey, unlockStore } from '../src/core/encryption';
+import { BlobStore, hashBytes, readSnapshot } from '../src/core/blobs';
+import { appendEventToFile, readEventsFile } from '../src/core/events';
+import { layout } from '../src/core/layout';
+import { makeEvent, tempDir } from './helpers';
+
+test('sealed data and lines open with the same key', () => {
+  const key = generateKey();
+  const vault = new Vault(key);
+  const data = Buffer.from('secret contents\n');
+  const sealed = vault.seal(data);
+  assert.ok(isSealed(sealed));
+  assert.ok(!sealed.includes(data));
+  assert.deepEqual(vault.open(sealed), data);
+
+  const line = vault.sealLine('{"id":"x"}');
+  assert.ok(line.startsWith(SEALED_LINE_PREFIX));
+  assert.equal(vault.openLine(line), '{"id":"x"}');
+});
+
+test('plaintext passes through and a plaintext vault writes plaintext', () => {
+  const vault = new Vault(generateKey());
+  assert.deepEqual(vault.open(Buffer.from('plain')), Buffer.from('plain'));
+  assert.equal(vault.openLine('{"a":1}'), '{"a":1}');
+  assert.deepEqual(new Vault().seal(Buffer.from('x')), Buffer.from('x'));
+});
+
+test('the wrong key, a locked vault and tampering are refused', () => {
+  const sealed = new Vault(generateKey()).seal(Buffer.from('data'));
+  assert.throws(() => new Vault(generateKey()).open(sealed), EncryptionError);
+  assert.throws(() => new Vault(undefined, [], true).open(sealed), /locked/);
+  assert.throws(() => new Vault(undefined, [], true).seal(Buffer.from('x')), EncryptionError);
+
+  const key = generateKey();
+  const good = new Vault(key).seal(Buffer.from('data'));
+  good[good.length - 1] ^= 1;
+  assert.throws(() => new Vault(key).open(good), /damaged/);
+});
+
+test('a passphrase derives the same key again', async () => {
+  const kdf = { name: 'scrypt' as const, salt: Buffer.alloc(16, 7).toString('base64'), N: 1024, r: 8, p: 1 };
+  const a = await keyFromPassphrase('correct horse', kdf);
+  const b = await keyFromPassphrase('correct horse', kdf);
+  const c = await keyFromPassphrase('wrong horse', kdf);
+  assert.equal(a.id, b.id);
+  assert.notEqual(a.id, c.id);
+});
+
+test('blob names are SHA-256 in the clear and a keyed HMAC when encrypted', () => {
+  const data = Buffer.from('file version');
+  assert.equal(new Vault().blobName(data), hashBytes(data));
+  const key = generateKey();
+  const name = new Vault(key).blobName(data);
+  assert.match(name, /^[0-9a-f]{64}$/);
+  assert.notEqual(name, hashBytes(data));
+  assert.equal(new Vault(key).blobName(data), name);
+  assert.notEqual(new Vault(generateKey()).blobName(data), name);
+});
+
+test('a store round-trips through encrypt, rotate and decrypt', async () => {
+  const { dir: root, cleanup } = await tempDir();
+  try {
+    const ev = await makeEvent(root, [{ path: 'a.txt', op: 'modified', before: 'old\n', after: 'new\n' }]);
+    await appendEventToFile(root, ev, 100);
+    const L = layout(root);
+
+    const key = generateKey();
+    assert.deepEqual((await encryptStore(root, key)).failed, []);
+    assert.ok((await fsp.readFile(L.events, 'utf8')).startsWith(SEALED_LINE_PREFIX));
+    const [sealed] = await readEventsFile(root);
+    assert.notEqual(sealed.diffUris[0].rightHash, ev.diffUris[0].rightHash);
+    assert.ok(isSealed(await fsp.readFile(new BlobStore(root).pathFor(sealed.diffUris[0].rightHash!))));
+    assert.equal(String(await readSnapshot(root, sealed.diffUris[0], 'after')), 'new\n');
+
+    // without the key nothing can be read
+    setVault(root, undefined);
+    await assert.rejects(readEventsFile(root), EncryptionError);
+    unlockStore(root, (await readEncryptionInfo(root))!, [key]);
+    assert.equal((await readEventsFile(root))[0].id, ev.id);
+
+    const next = generateKey();
+    assert.deepEqual((await rotateStoreKey(root, [key], next)).failed, []);
+    assert.equal((await readEncryptionInfo(root))!.keyId, next.id);
+    setVault(root, undefined);
+    unlockStore(root, (await readEncryptionInfo(root))!, [next]);
+    const [rotated] = await readEventsFile(root);
+    assert.equal(String(await readSnapshot(root, rotated.diffUris[0], 'before')), 'old\n');
+
+    assert.deepEqual((await decryptStore(root, [next])).failed, []);
+    assert.equal(await readEncryptionInfo(root), undefined);
+    const [plain] = await readEventsFile(root);
+    assert.deepEqual(plain.diffUris[0].rightHash, ev.diffUris[0].rightHash);
+    assert.equal(await fsp.readFile(new BlobStore(root).pathFor(plain.diffUris[0].rightHash!), 'utf8'), 'new\n');
+  } finally {
+    setVault(root, undefined);
+    await cleanup();
+  }
+});
+
+test('decrypting a store drops the unmasked originals instead of writing them out', async () => {
+  const { dir: root, cleanup } = await tempDir();
+  try {
+    const key = generateKey();
+    assert.deepEqual((await encryptStore(root, key)).failed, []);
+    const blobs = new BlobStore(root);
+    const ev = await makeEvent(root, [{ path: 'cfg.env', op: 'modified', before: 'A=1\n', after: 'TOKEN=[REDACTED:api-key]\n' }], {
+      redactions: [{ target: 'cfg.env (after)', rule: 'api-key', count: 1 }]
+    });
+    const raw = await blobs.put(Buffer.from('TOKEN=sk-live-secret\n'));
+    ev.diffUris[0].rightRawHash = raw;
+    await appendEventToFile(root, ev, 100);
+
+    assert.deepEqual((await decryptStore(root, [key])).failed, []);
+    const [plain] = await readEventsFile(root);
+    assert.equal(plain.diffUris[0].rightRawHash, undefined);
+    await assert.rejects(fsp.stat(blobs.pathFor(raw)));
+    for (const sub of await fsp.readdir(layout(root).blobs)) {
+      for (const f of await fsp.readdir(path.join(layout(root).blobs, sub))) {
+        assert.ok(!(await fsp.readFile(path.join(layout(root).blobs, sub, f), 'utf8')).includes('sk-live-secret'));
+      }
+    }
+  } finally {
+    setVault(root, undefined);
+    await cleanup();
+  }
+});